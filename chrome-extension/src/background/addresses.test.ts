@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { addressToBytes, getAddressKeyHash } from './addresses';
+
+// CIP-19 test vectors
+const PAYMENT_KEY_HASH = '9493315cd92eb5d8c4304e67b7e16ae36d61d34502694657811a2c8e';
+const STAKE_KEY_HASH = '337b62cfff6403a06a3acbc34f8c46003c69fe79a3628cefa9c47251';
+const BASE_ADDRESS =
+  'addr1qx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgse35a3x';
+const ENTERPRISE_ADDRESS = 'addr1vx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzers66hrl8';
+const SCRIPT_ADDRESS = 'addr1w8phkx6acpnf78fuvxn0mkew3l0fd058hzquvz7w36x4gtcyjy7wx';
+const REWARD_ADDRESS = 'stake1uyehkck0lajq8gr28t9uxnuvgcqrc6070x3k9r8048z8y5gh6ffgw';
+
+describe('addressToBytes', () => {
+  it('reads bech32 and hex addresses alike', () => {
+    const bytes = addressToBytes(BASE_ADDRESS);
+    expect(bytes).toHaveLength(57);
+    expect(bytes[0]).toBe(0x01);
+
+    const hexAddress = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    expect(addressToBytes(hexAddress)).toEqual(bytes);
+    expect(addressToBytes(hexAddress.toUpperCase())).toEqual(bytes);
+  });
+
+  it('rejects text that is not an address', () => {
+    expect(() => addressToBytes('not an address')).toThrow();
+    expect(() => addressToBytes(`${BASE_ADDRESS.slice(0, -1)}q`)).toThrow();
+    expect(() => addressToBytes('abc')).toThrow();
+  });
+});
+
+describe('getAddressKeyHash', () => {
+  it('returns the payment key hash of base and enterprise addresses', () => {
+    expect(getAddressKeyHash(BASE_ADDRESS)).toBe(PAYMENT_KEY_HASH);
+    expect(getAddressKeyHash(ENTERPRISE_ADDRESS)).toBe(PAYMENT_KEY_HASH);
+  });
+
+  it('returns the stake key hash of a reward address', () => {
+    expect(getAddressKeyHash(REWARD_ADDRESS)).toBe(STAKE_KEY_HASH);
+  });
+
+  it('returns undefined for script addresses', () => {
+    expect(getAddressKeyHash(SCRIPT_ADDRESS)).toBeUndefined();
+  });
+
+  it('rejects addresses too short to hold a credential', () => {
+    expect(() => getAddressKeyHash('6100')).toThrow();
+  });
+});
@@ -0,0 +1,33 @@
+// Reading CIP-19 addresses without the serialization library, which only runs in the popup
+import { bech32, hex } from '@scure/base';
+
+// Header types (high nibble) whose first credential is a key hash; 14 is a reward address with a stake key
+const KEY_CREDENTIAL_TYPES = new Set([0, 2, 4, 6, 14]);
+const ADDRESS_PREFIXES = new Set(['addr', 'addr_test', 'stake', 'stake_test']);
+// Cardano addresses are longer than the 90 characters BIP-173 allows
+const BECH32_LIMIT = 1023;
+
+/**
+ * Raw bytes of an address given in hex or bech32, as CIP-30 calls may pass either. Throws on anything else.
+ */
+export const addressToBytes = (address: string): Uint8Array => {
+  if (/^([0-9a-fA-F]{2})+$/.test(address)) return hex.decode(address.toLowerCase());
+
+  const { prefix, words } = bech32.decode(address as `${string}1${string}`, BECH32_LIMIT);
+  if (!ADDRESS_PREFIXES.has(prefix)) {
+    throw new Error(`Not an address prefix: ${prefix}`);
+  }
+  return bech32.fromWords(words);
+};
+
+/**
+ * Hex key hash that signs for an address: its payment key, or the stake key of a reward address.
+ * Undefined for script addresses and Byron addresses, which no single key controls.
+ */
+export const getAddressKeyHash = (address: string): string | undefined => {
+  const bytes = addressToBytes(address);
+  if (bytes.length < 29) {
+    throw new Error('Address is too short');
+  }
+  return KEY_CREDENTIAL_TYPES.has(bytes[0] >> 4) ? hex.encode(bytes.slice(1, 29)) : undefined;
+};
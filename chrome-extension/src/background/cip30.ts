@@ -1,24 +1,324 @@
-import { walletsStorage, transactionsStorage } from '@extension/storage';
-
-// CIP-30 Permission Storage (in-memory for now)
-const dappPermissions = new Map<string, { origin: string; approved: boolean; timestamp: number }>();
+import { walletsStorage, transactionsStorage, dappConnectionsStorage, faultInjectionStorage } from '@extension/storage';
+import { APIErrorCode, DataSignErrorCode, TxSendErrorCode, TxSignErrorCode } from '@extension/shared';
+import type { Cip30Error, Wallet } from '@extension/shared';
+import type { ReferenceScript, UTXORecord } from '@extension/storage';
+import { getApiConfig, submitTransaction } from './wallet';
+import { getAddressKeyHash } from './addresses';
+import { selectUtxos } from './coinSelection';
+import { paginateItems } from './pagination';
+import type { AssetAmount } from './coinSelection';
+
+// Granted origins live in dappConnectionsStorage so they survive service worker restarts
 const pendingPermissions = new Map<string, { resolve: Function; reject: Function }>();
 
+// Signing requests waiting for the user to approve or decline them in the popup
+interface PendingSignRequest {
+  method: 'signTx' | 'signData';
+  origin: string;
+  walletId: string;
+  payload: any;
+  resolve: (response: any) => void;
+}
+const pendingSignRequests = new Map<string, PendingSignRequest>();
+
+// Unspent outputs that sit at the wallet's own addresses (the sync also tracks outputs paid to others)
+const getSpendableUtxos = async (walletId: string) => {
+  const unspentUTXOs = await transactionsStorage.getWalletUnspentUTXOs(walletId);
+  return unspentUTXOs.filter(utxo => !utxo.isExternal);
+};
+
+// Adds up { unit, quantity } lists without losing precision on large quantities
+const sumAmounts = (amounts: AssetAmount[]): AssetAmount[] => {
+  const totals = new Map<string, bigint>([['lovelace', BigInt(0)]]);
+  amounts.forEach(({ unit, quantity }) => {
+    totals.set(unit, (totals.get(unit) || BigInt(0)) + BigInt(quantity));
+  });
+  return Array.from(totals, ([unit, quantity]) => ({ unit, quantity: quantity.toString() }));
+};
+
+// Collateral callers that pass no amount get the common 5 ADA
+const DEFAULT_COLLATERAL_LOVELACE = BigInt(5_000_000);
+
+const isPureAda = (utxo: { amount: AssetAmount[] }) => utxo.amount.every(asset => asset.unit === 'lovelace');
+
+const getLovelace = (utxo: { amount: AssetAmount[] }) =>
+  BigInt(utxo.amount.find(asset => asset.unit === 'lovelace')?.quantity || '0');
+
+// Collateral has to be signed for with the wallet's own payment key; other addresses under its stake key will not do
+const hasWalletPaymentKey = (wallet: Wallet, address: string) => {
+  try {
+    const keyHash = getAddressKeyHash(address);
+    return !!keyHash && keyHash === getAddressKeyHash(wallet.address);
+  } catch {
+    return false;
+  }
+};
+
+const isDesignatedCollateral = (wallet: Wallet, utxo: { tx_hash: string; output_index: number }) =>
+  wallet.collateral?.txHash === utxo.tx_hash && wallet.collateral?.outputIndex === utxo.output_index;
+
+const isSelectedUtxo = (wallet: Wallet, utxo: { tx_hash: string; output_index: number }) =>
+  !!wallet.selectedUtxos?.some(ref => ref.txHash === utxo.tx_hash && ref.outputIndex === utxo.output_index);
+
+// Scripts never change, so lookups are kept for the lifetime of the service worker
+const referenceScriptCache = new Map<string, ReferenceScript>();
+
+const fetchReferenceScript = async (wallet: Wallet, scriptHash: string): Promise<ReferenceScript> => {
+  const cached = referenceScriptCache.get(scriptHash);
+  if (cached) return cached;
+
+  const { apiUrl, apiKey } = await getApiConfig(wallet);
+  const fetchScript = async (path: string) => {
+    const response = await fetch(`${apiUrl}/scripts/${scriptHash}${path}`, {
+      headers: { project_id: apiKey },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch script ${scriptHash}: ${response.statusText}`);
+    }
+    return response.json();
+  };
+
+  // Plutus scripts come as CBOR, native scripts only as JSON
+  const { type } = await fetchScript('');
+  const script: ReferenceScript =
+    type === 'timelock'
+      ? { type, cbor: null, json: (await fetchScript('/json')).json }
+      : { type, cbor: (await fetchScript('/cbor')).cbor, json: null };
+
+  referenceScriptCache.set(scriptHash, script);
+  return script;
+};
+
+/**
+ * Fills in the reference script of UTXOs that only carry its hash, storing it on the
+ * UTXO records so each script is fetched from the provider once.
+ */
+const attachReferenceScripts = async (wallet: Wallet, utxos: UTXORecord[]): Promise<UTXORecord[]> => {
+  const missingHashes = new Set(
+    utxos.filter(utxo => utxo.reference_script_hash && !utxo.reference_script).map(utxo => utxo.reference_script_hash!),
+  );
+
+  const scripts = new Map<string, ReferenceScript>();
+  for (const scriptHash of Array.from(missingHashes)) {
+    const script = await fetchReferenceScript(wallet, scriptHash);
+    await transactionsStorage.storeReferenceScript(scriptHash, script);
+    scripts.set(scriptHash, script);
+  }
+
+  return utxos.map(utxo =>
+    utxo.reference_script_hash && !utxo.reference_script
+      ? { ...utxo, reference_script: scripts.get(utxo.reference_script_hash) }
+      : utxo,
+  );
+};
+
+// Methods a page may call before enable(); every other CIP-30 call needs an approved origin
+const UNGATED_METHODS = new Set(['CIP30_ENABLE_REQUEST', 'CIP30_IS_ENABLED_REQUEST']);
+
+// CIP-30 extensions this wallet can enable (CIP-95: Conway governance)
+const SUPPORTED_EXTENSIONS = [95];
+
+// Extension-specific methods need the extension to be enabled for the origin
+const EXTENSION_METHODS: Record<string, number> = {
+  CIP95_GET_PUB_DREP_KEY: 95,
+  CIP95_GET_REGISTERED_PUB_STAKE_KEYS: 95,
+  CIP95_GET_UNREGISTERED_PUB_STAKE_KEYS: 95,
+};
+
+// Answers from the extension's own approval pages, never accepted from a web page
+const EXTENSION_ONLY_MESSAGES = new Set([
+  'CIP30_PERMISSION_RESPONSE',
+  'CIP30_GET_SIGN_REQUEST',
+  'CIP30_GET_PENDING_SIGN_REQUEST',
+  'CIP30_SIGN_TX_RESPONSE',
+  'CIP30_SIGN_DATA_RESPONSE',
+]);
+
+// Password-protected wallets created before CIP-95 support only get their public keys once the password is entered
+const PUBLIC_KEYS_MISSING =
+  'Governance keys not derived yet: open the Governance page of this wallet in the extension and enter its password';
+
+// A stake key counts as registered while its account is active on chain
+const isStakeKeyRegistered = async (wallet: Wallet): Promise<boolean> => {
+  const { apiUrl, apiKey } = await getApiConfig(wallet);
+  const response = await fetch(`${apiUrl}/accounts/${wallet.stakeAddress}`, {
+    headers: { project_id: apiKey },
+  });
+
+  if (response.status === 404) return false;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch stake account: ${response.statusText}`);
+  }
+  const account: { active: boolean } = await response.json();
+  return account.active;
+};
+
+// The page origin comes from the tab, not from anything the page put in the payload
+export const getSenderOrigin = (sender: chrome.runtime.MessageSender): string => {
+  try {
+    return sender.tab?.url ? new URL(sender.tab.url).origin : '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * True for messages relayed by the content script from a web page, as opposed to the extension's own pages
+ */
+export const isWebPageSender = (sender: chrome.runtime.MessageSender): boolean =>
+  !!sender.tab && !sender.url?.startsWith(chrome.runtime.getURL(''));
+
+// What a dApp gets back when the user rejects its request or closes the approval popup
+const DECLINED_ERRORS: Record<PendingSignRequest['method'], Cip30Error> = {
+  signTx: { code: TxSignErrorCode.UserDeclined, info: 'User declined to sign the transaction' },
+  signData: { code: DataSignErrorCode.UserDeclined, info: 'User declined to sign the data' },
+};
+
+// Approval pages connect a port under this name, followed by ':' and the request id
+const SIGN_APPROVAL_PORT = 'CIP30_SIGN_APPROVAL';
+
+// Answers a pending signing request with the popup's decision
+const answerSignRequest = (
+  requestId: string,
+  result: { approved: boolean; error?: Cip30Error; response?: Record<string, unknown> },
+) => {
+  const pending = pendingSignRequests.get(requestId);
+  if (!pending) return;
+
+  pendingSignRequests.delete(requestId);
+  if (result.error) {
+    pending.resolve({ success: false, error: result.error });
+  } else if (!result.approved) {
+    pending.resolve({ success: false, error: DECLINED_ERRORS[pending.method] });
+  } else {
+    pending.resolve({ success: true, ...result.response });
+  }
+};
+
+/**
+ * Declines a signing request once its approval page goes away without answering it, e.g. because
+ * the user closed the popup. Requests the page did answer are already gone by then.
+ */
+export const handleSignApprovalPort = (port: chrome.runtime.Port) => {
+  if (!port.name.startsWith(`${SIGN_APPROVAL_PORT}:`) || (port.sender && isWebPageSender(port.sender))) return;
+
+  const requestId = port.name.slice(SIGN_APPROVAL_PORT.length + 1);
+  port.onDisconnect.addListener(() => answerSignRequest(requestId, { approved: false }));
+};
+
+// Opens the popup on an approval route; the request is answered once the popup reports back
+const openSignApproval = async (requestId: string, request: PendingSignRequest, navigationType: string) => {
+  pendingSignRequests.set(requestId, request);
+  try {
+    await chrome.action.openPopup();
+
+    // A popup that was already open navigates on this message; one still loading asks for the request on mount
+    chrome.runtime.sendMessage({ type: navigationType, payload: { requestId } }).catch(() => {
+      // No popup page is listening yet
+    });
+  } catch (error) {
+    console.error('Failed to open extension popup:', error);
+    pendingSignRequests.delete(requestId);
+    request.resolve({
+      success: false,
+      error: { code: APIErrorCode.InternalError, info: 'Failed to show signing dialog' },
+    });
+  }
+};
+
+/**
+ * Applies the fault-injection rules for a call: adds their latency, then answers with the configured
+ * error or leaves the call unanswered. Returns true when the call must not be handled normally.
+ */
+export const applyFaults = async (
+  origin: string,
+  method: string,
+  sendResponse: (response?: any) => void,
+): Promise<boolean> => {
+  const rules = await faultInjectionStorage.getMatchingRules(origin, method);
+  if (rules.length === 0) return false;
+
+  const latencyMs = Math.max(...rules.map(rule => rule.latencyMs || 0));
+  if (latencyMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+  }
+
+  const faultRule = rules.find(rule => rule.fault !== 'none');
+  if (!faultRule) return false;
+
+  console.warn(`Fault injection: ${faultRule.fault} for ${method} from ${origin}`);
+  if (faultRule.fault === 'error') {
+    sendResponse({
+      success: false,
+      error: faultRule.error || { code: APIErrorCode.InternalError, info: 'Injected fault' },
+    });
+  }
+  // 'timeout' leaves the call unanswered, so the dApp runs into its own timeout
+  return true;
+};
+
+/**
+ * Why a call from a web page is refused: the origin has not been connected through enable(), or has
+ * not enabled the extension the method belongs to. Null when the call may go ahead.
+ */
+export const getWebPageRefusal = async (message: any, origin: string): Promise<Cip30Error | null> => {
+  const connection = EXTENSION_ONLY_MESSAGES.has(message.type)
+    ? null
+    : await dappConnectionsStorage.getConnection(origin);
+  if (!connection) {
+    return { code: APIErrorCode.Refused, info: 'DApp is not connected, call enable() first' };
+  }
+
+  const requiredExtension = EXTENSION_METHODS[message.type];
+  if (requiredExtension && !connection.extensions?.includes(requiredExtension)) {
+    return { code: APIErrorCode.Refused, info: `CIP-${requiredExtension} was not enabled for this DApp` };
+  }
+  return null;
+};
+
 export const handleCip30Messages = async (
   message: any,
   sender: chrome.runtime.MessageSender,
   sendResponse: (response?: any) => void,
 ): Promise<boolean> => {
   try {
+    if (isWebPageSender(sender) && !UNGATED_METHODS.has(message.type)) {
+      const origin = getSenderOrigin(sender);
+      const refusal = await getWebPageRefusal(message, origin);
+      if (refusal) {
+        console.warn(`Refused ${message.type} from unauthorised origin:`, origin || 'unknown');
+        sendResponse({ success: false, error: refusal });
+        return true;
+      }
+    }
+
+    // Faults configured to test dApp error handling only apply to calls from web pages
+    if (isWebPageSender(sender) && (await applyFaults(getSenderOrigin(sender), message.type, sendResponse))) {
+      return true;
+    }
+
     switch (message.type) {
       case 'CIP30_ENABLE_REQUEST': {
-        const { origin } = message.payload;
+        const origin = getSenderOrigin(sender);
         const tabId = sender.tab?.id;
 
-        // Check if already approved
-        const existingPermission = dappPermissions.get(origin);
-        if (existingPermission?.approved) {
-          sendResponse({ success: true, approved: true });
+        if (!origin) {
+          sendResponse({
+            success: false,
+            error: { code: APIErrorCode.Refused, info: 'Could not determine the requesting origin' },
+          });
+          return true;
+        }
+
+        // Extensions the dApp asked for ({ cip: number }[]) that this wallet supports
+        const requestedExtensions: number[] = (message.payload?.extensions || [])
+          .map((extension: { cip?: unknown }) => extension?.cip)
+          .filter((cip: unknown): cip is number => SUPPORTED_EXTENSIONS.includes(cip as number));
+
+        // Check if already approved, including every requested extension
+        const existingConnection = await dappConnectionsStorage.getConnection(origin);
+        if (existingConnection && requestedExtensions.every(cip => existingConnection.extensions?.includes(cip))) {
+          sendResponse({ success: true, approved: true, extensions: requestedExtensions });
           return true;
         }
 
@@ -27,15 +327,22 @@ export const handleCip30Messages = async (
           // Store pending request
           const permissionKey = `${origin}_${tabId}`;
           pendingPermissions.set(permissionKey, {
-            resolve: (approved: boolean) => {
-              if (approved) {
-                dappPermissions.set(origin, {
+            resolve: async (approved: boolean) => {
+              const activeWallet = await walletsStorage.getActiveWallet();
+              if (approved && activeWallet) {
+                await dappConnectionsStorage.grantConnection({
                   origin,
-                  approved: true,
+                  walletId: activeWallet.id,
+                  network: activeWallet.network,
                   timestamp: Date.now(),
+                  extensions: Array.from(new Set([...(existingConnection?.extensions || []), ...requestedExtensions])),
                 });
               }
-              sendResponse({ success: true, approved });
+              sendResponse({
+                success: true,
+                approved: approved && !!activeWallet,
+                extensions: requestedExtensions,
+              });
             },
             reject: (error: any) => {
               sendResponse({ success: false, error });
@@ -52,12 +359,16 @@ export const handleCip30Messages = async (
               payload: {
                 origin,
                 tabId,
+                extensions: requestedExtensions,
               },
             });
           }, 100); // Small delay to ensure popup is open
         } catch (error) {
           console.error('Failed to open extension popup:', error);
-          sendResponse({ success: false, error: 'Failed to show permission dialog' });
+          sendResponse({
+            success: false,
+            error: { code: APIErrorCode.InternalError, info: 'Failed to show permission dialog' },
+          });
         }
         return true;
       }
@@ -68,7 +379,7 @@ export const handleCip30Messages = async (
 
         const pending = pendingPermissions.get(permissionKey);
         if (pending) {
-          pending.resolve(approved);
+          await pending.resolve(approved);
           pendingPermissions.delete(permissionKey);
         }
 
@@ -77,12 +388,12 @@ export const handleCip30Messages = async (
       }
 
       case 'CIP30_IS_ENABLED_REQUEST': {
-        const { origin } = message.payload;
-        const permission = dappPermissions.get(origin);
+        const origin = getSenderOrigin(sender);
+        const connection = await dappConnectionsStorage.getConnection(origin);
 
         sendResponse({
           success: true,
-          enabled: permission?.approved || false,
+          enabled: !!connection,
         });
         return true;
       }
@@ -123,58 +434,26 @@ export const handleCip30Messages = async (
         console.log('CIP30_GET_UTXOS: Using wallet:', currentWallet.name);
 
         try {
-          console.log('CIP30_GET_UTXOS: Getting UTXOs for wallet:', currentWallet.id);
-          const unspentUTXOs = await transactionsStorage.getWalletUnspentUTXOs(currentWallet.id);
-          console.log('CIP30_GET_UTXOS: UTXOs retrieved successfully');
-
+          // Designated collateral is kept out of getUtxos so dApps do not spend it in regular transactions,
+          // and with pinned UTXOs only the wallet exposes nothing but the coin control selection
+          const unspentUTXOs = (await getSpendableUtxos(currentWallet.id)).filter(
+            utxo =>
+              !isDesignatedCollateral(currentWallet, utxo) &&
+              (!currentWallet.pinnedUtxosOnly || isSelectedUtxo(currentWallet, utxo)),
+          );
           console.log('CIP30_GET_UTXOS: Found UTXOs:', unspentUTXOs.length);
-          console.log('CIP30_GET_UTXOS: First UTXO sample:', unspentUTXOs[0]);
 
+          // amount arrives as a list of { unit, quantity }, decoded from the CBOR Value by the content script
           const { amount, paginate } = message.payload || {};
           console.log('CIP30_GET_UTXOS: Request params:', { amount, paginate });
 
-          // If amount is specified, implement coin selection
+          let resultUTXOs = unspentUTXOs;
           if (amount) {
-            const targetAmount = BigInt(amount); // CBOR-decoded amount in lovelace
-
-            // Filter out UTXOs containing NFTs (assets with quantity < 10)
-            const candidateUTXOs = unspentUTXOs.filter(utxo => {
-              // Check if any non-ADA assets have quantity < 10 (likely NFTs)
-              const hasNFTs = utxo.amount.some(asset => {
-                if (asset.unit === 'lovelace') return false; // Skip ADA
-                return BigInt(asset.quantity) < BigInt(10); // < 10 = likely NFT
-              });
-
-              return !hasNFTs; // Only include UTXOs without NFTs
-            });
-
-            console.log('CIP30_GET_UTXOS: After NFT filtering:', candidateUTXOs.length);
+            const selectedUTXOs = selectUtxos(unspentUTXOs, amount as AssetAmount[]);
 
-            // Sort by ADA value ascending (smallest first)
-            candidateUTXOs.sort((a, b) => {
-              const aAmount = BigInt(a.amount.find(amt => amt.unit === 'lovelace')?.quantity || '0');
-              const bAmount = BigInt(b.amount.find(amt => amt.unit === 'lovelace')?.quantity || '0');
-              return aAmount < bAmount ? -1 : aAmount > bAmount ? 1 : 0;
-            });
-
-            // Simple greedy coin selection algorithm
-            const selectedUTXOs = [];
-            let totalSelected = BigInt(0);
-
-            for (const utxo of candidateUTXOs) {
-              const adaAmount = BigInt(utxo.amount.find(amt => amt.unit === 'lovelace')?.quantity || '0');
-              selectedUTXOs.push(utxo);
-              totalSelected += adaAmount;
-
-              if (totalSelected >= targetAmount) {
-                break;
-              }
-            }
-
-            console.log('CIP30_GET_UTXOS: Selected UTXOs:', selectedUTXOs.length, 'Total:', totalSelected.toString());
-
-            // If we couldn't reach the target amount, return null
-            if (totalSelected < targetAmount) {
+            // The requested value cannot be covered by this wallet
+            if (!selectedUTXOs) {
+              console.log('CIP30_GET_UTXOS: Amount cannot be covered');
               sendResponse({
                 success: true,
                 utxos: null,
@@ -182,24 +461,25 @@ export const handleCip30Messages = async (
               return true;
             }
 
-            // Return selected UTXOs (need to convert to CBOR format)
-            sendResponse({
-              success: true,
-              utxos: selectedUTXOs,
-            });
-          } else {
-            // Return all unspent UTXOs (need to convert to CBOR format)
-            console.log('CIP30_GET_UTXOS: Returning all UTXOs:', unspentUTXOs.length);
-            sendResponse({
-              success: true,
-              utxos: unspentUTXOs,
-            });
+            console.log('CIP30_GET_UTXOS: Selected UTXOs:', selectedUTXOs.length);
+            resultUTXOs = selectedUTXOs;
           }
+
+          const page = paginateItems(resultUTXOs, paginate);
+          if ('error' in page) {
+            sendResponse({ success: false, error: page.error });
+            return true;
+          }
+
+          // Return the UTXOs (converted to CBOR format by the content script)
+          console.log('CIP30_GET_UTXOS: Returning UTXOs:', page.items.length, 'of', resultUTXOs.length);
+          sendResponse({
+            success: true,
+            utxos: await attachReferenceScripts(currentWallet, page.items),
+          });
         } catch (error) {
           console.error('CIP30_GET_UTXOS: Error retrieving UTXOs:', error);
           const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-          console.error('CIP30_GET_UTXOS: Error stack:', error instanceof Error ? error.stack : 'No stack');
-          console.error('CIP30_GET_UTXOS: Error message:', errorMsg);
           sendResponse({
             success: false,
             error: { code: -2, info: `Failed to retrieve UTXOs: ${errorMsg}` },
@@ -208,48 +488,84 @@ export const handleCip30Messages = async (
         return true;
       }
 
-      case 'CIP30_GET_BALANCE': {
-        // Get active wallet's balance
+      case 'CIP30_GET_COLLATERAL': {
         const currentWallet = await walletsStorage.getActiveWallet();
 
         if (!currentWallet) {
           sendResponse({
             success: false,
-            error: { code: -3, info: 'No wallet available' },
+            error: { code: APIErrorCode.InternalError, info: 'No wallet available' },
           });
           return true;
         }
 
-        console.log('CIP30_GET_BALANCE: Using wallet:', currentWallet.name);
-
         try {
-          // SIMPLIFIED: Use the wallet's stored balance directly instead of calling getWalletState
-          // This ensures we get the balance that was fetched when the wallet was spoofed/created
-          const storedBalance = currentWallet.balance;
+          // amount arrives in lovelace, decoded from the CBOR Coin by the content script
+          const amount = message.payload?.amount ? BigInt(message.payload.amount) : DEFAULT_COLLATERAL_LOVELACE;
+          const candidates = (await getSpendableUtxos(currentWallet.id)).filter(
+            utxo => isPureAda(utxo) && getLovelace(utxo) >= amount && hasWalletPaymentKey(currentWallet, utxo.address),
+          );
 
-          console.log('CIP30_GET_BALANCE: Wallet stored balance:', storedBalance);
+          // The designated collateral wins; otherwise pick the smallest pure-ADA UTXO that covers the amount
+          const designated = candidates.find(utxo => isDesignatedCollateral(currentWallet, utxo));
+          const collateral = designated || candidates.sort((a, b) => (getLovelace(a) < getLovelace(b) ? -1 : 1))[0];
 
-          // The stored balance is already in lovelaces from Blockfrost
-          // No need to multiply by 1,000,000 since it's not in ADA format
-          const balanceLovelace = parseInt(storedBalance);
+          console.log('CIP30_GET_COLLATERAL: Amount:', amount.toString(), 'designated:', !!designated);
 
-          if (isNaN(balanceLovelace)) {
-            console.error('Could not parse balance as lovelaces:', storedBalance);
-            sendResponse({
-              success: false,
-              error: { code: -4, info: 'Invalid balance format' },
-            });
-            return true;
-          }
+          sendResponse({
+            success: true,
+            utxos: collateral ? await attachReferenceScripts(currentWallet, [collateral]) : null,
+          });
+        } catch (error) {
+          console.error('CIP30_GET_COLLATERAL: Error selecting collateral:', error);
+          sendResponse({
+            success: false,
+            error: {
+              code: APIErrorCode.InternalError,
+              info: error instanceof Error ? error.message : 'Failed to get collateral',
+            },
+          });
+        }
+        return true;
+      }
 
-          console.log('Balance conversion:', {
-            original: storedBalance,
-            lovelace: balanceLovelace,
+      case 'CIP30_GET_BALANCE': {
+        // Get active wallet's balance
+        const currentWallet = await walletsStorage.getActiveWallet();
+
+        if (!currentWallet) {
+          sendResponse({
+            success: false,
+            error: { code: -3, info: 'No wallet available' },
           });
+          return true;
+        }
+
+        console.log('CIP30_GET_BALANCE: Using wallet:', currentWallet.name);
 
+        try {
+          // Prefer the synced UTXO set; wallets that were never synced (e.g. fresh spoofs)
+          // fall back to the balance and assets fetched when the wallet was added
+          const syncedUTXOs = await transactionsStorage.getWalletUTXOs(currentWallet.id);
+          const balance =
+            syncedUTXOs.length > 0
+              ? sumAmounts((await getSpendableUtxos(currentWallet.id)).flatMap(utxo => utxo.amount))
+              : sumAmounts([
+                  { unit: 'lovelace', quantity: currentWallet.balance || '0' },
+                  ...(currentWallet.assets || []).map(asset => ({ unit: asset.unit, quantity: asset.quantity })),
+                ]);
+
+          console.log(
+            'CIP30_GET_BALANCE: Balance assets:',
+            balance.length,
+            'from synced UTXOs:',
+            syncedUTXOs.length > 0,
+          );
+
+          // Converted to a CBOR Value by the content script
           sendResponse({
             success: true,
-            balance: balanceLovelace.toString(),
+            balance,
           });
         } catch (error) {
           console.error('Error getting balance:', error);
@@ -321,9 +637,15 @@ export const handleCip30Messages = async (
         console.log('CIP30_GET_USED_ADDRESSES: Using wallet:', currentWallet.name);
 
         // Return array containing the wallet's address
+        const usedPage = paginateItems([currentWallet.address], message.payload?.paginate);
+        if ('error' in usedPage) {
+          sendResponse({ success: false, error: usedPage.error });
+          return true;
+        }
+
         sendResponse({
           success: true,
-          addresses: [currentWallet.address],
+          addresses: usedPage.items,
         });
         return true;
       }
@@ -355,9 +677,15 @@ export const handleCip30Messages = async (
           unusedAddresses = [currentWallet.address];
         }
 
+        const unusedPage = paginateItems(unusedAddresses, message.payload?.paginate);
+        if ('error' in unusedPage) {
+          sendResponse({ success: false, error: unusedPage.error });
+          return true;
+        }
+
         sendResponse({
           success: true,
-          addresses: unusedAddresses,
+          addresses: unusedPage.items,
         });
         return true;
       }
@@ -384,6 +712,300 @@ export const handleCip30Messages = async (
         return true;
       }
 
+      case 'CIP30_SIGN_TX': {
+        const { tx, partialSign } = message.payload || {};
+        const currentWallet = await walletsStorage.getActiveWallet();
+
+        if (!currentWallet) {
+          sendResponse({
+            success: false,
+            error: { code: APIErrorCode.InternalError, info: 'No wallet available' },
+          });
+          return true;
+        }
+
+        if (typeof tx !== 'string' || !tx) {
+          sendResponse({
+            success: false,
+            error: { code: APIErrorCode.InvalidRequest, info: 'Transaction CBOR is required' },
+          });
+          return true;
+        }
+
+        // Spoofed wallets only know an address, there are no keys to sign with
+        if (currentWallet.type === 'SPOOFED') {
+          sendResponse({
+            success: false,
+            error: { code: TxSignErrorCode.ProofGeneration, info: 'Spoofed wallets cannot sign transactions' },
+          });
+          return true;
+        }
+
+        console.log('CIP30_SIGN_TX: Using wallet:', currentWallet.name, 'partialSign:', !!partialSign);
+
+        const requestId = `sign_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+        await openSignApproval(
+          requestId,
+          {
+            method: 'signTx',
+            origin: getSenderOrigin(sender),
+            walletId: currentWallet.id,
+            payload: { tx, partialSign: !!partialSign },
+            resolve: sendResponse,
+          },
+          'NAVIGATE_TO_SIGN_TX',
+        );
+        return true;
+      }
+
+      case 'CIP30_GET_SIGN_REQUEST': {
+        const { requestId } = message.payload;
+        const pending = pendingSignRequests.get(requestId);
+
+        if (!pending) {
+          sendResponse({ success: false, error: 'Signing request not found or already answered' });
+          return true;
+        }
+
+        sendResponse({
+          success: true,
+          request: {
+            method: pending.method,
+            origin: pending.origin,
+            walletId: pending.walletId,
+            payload: pending.payload,
+          },
+        });
+        return true;
+      }
+
+      case 'CIP30_GET_PENDING_SIGN_REQUEST': {
+        // The oldest request still waiting, for a popup that opened before it could be told where to go
+        const [entry] = Array.from(pendingSignRequests);
+        sendResponse({
+          success: true,
+          request: entry ? { requestId: entry[0], method: entry[1].method } : null,
+        });
+        return true;
+      }
+
+      case 'CIP30_SIGN_TX_RESPONSE': {
+        const { requestId, approved, witnessSet, error } = message.payload as {
+          requestId: string;
+          approved: boolean;
+          witnessSet?: string;
+          error?: Cip30Error;
+        };
+
+        answerSignRequest(requestId, {
+          approved,
+          error,
+          response: { witnessSet },
+        });
+        sendResponse({ success: true });
+        return true;
+      }
+
+      case 'CIP30_SIGN_DATA': {
+        const { address, payload } = message.payload || {};
+        const currentWallet = await walletsStorage.getActiveWallet();
+
+        if (!currentWallet) {
+          sendResponse({
+            success: false,
+            error: { code: APIErrorCode.InternalError, info: 'No wallet available' },
+          });
+          return true;
+        }
+
+        if (typeof address !== 'string' || typeof payload !== 'string' || !/^([0-9a-fA-F]{2})*$/.test(payload)) {
+          sendResponse({
+            success: false,
+            error: { code: APIErrorCode.InvalidRequest, info: 'Address and hex encoded payload are required' },
+          });
+          return true;
+        }
+
+        if (currentWallet.type === 'SPOOFED') {
+          sendResponse({
+            success: false,
+            error: { code: DataSignErrorCode.ProofGeneration, info: 'Spoofed wallets cannot sign data' },
+          });
+          return true;
+        }
+
+        // Addresses this wallet holds no key for are refused before an approval popup opens
+        let keyHash: string | undefined;
+        try {
+          keyHash = getAddressKeyHash(address);
+        } catch {
+          sendResponse({
+            success: false,
+            error: { code: APIErrorCode.InvalidRequest, info: `Invalid address: ${address}` },
+          });
+          return true;
+        }
+        if (!keyHash) {
+          sendResponse({
+            success: false,
+            error: { code: DataSignErrorCode.AddressNotPK, info: 'Address is not controlled by a public key' },
+          });
+          return true;
+        }
+        const walletKeyHashes = [currentWallet.address, currentWallet.stakeAddress].map(getAddressKeyHash);
+        if (!walletKeyHashes.includes(keyHash)) {
+          sendResponse({
+            success: false,
+            error: { code: DataSignErrorCode.ProofGeneration, info: 'Address does not belong to this wallet' },
+          });
+          return true;
+        }
+
+        console.log('CIP30_SIGN_DATA: Using wallet:', currentWallet.name, 'Address:', address);
+
+        const requestId = `sign_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+        await openSignApproval(
+          requestId,
+          {
+            method: 'signData',
+            origin: getSenderOrigin(sender),
+            walletId: currentWallet.id,
+            payload: { address, payload },
+            resolve: sendResponse,
+          },
+          'NAVIGATE_TO_SIGN_DATA',
+        );
+        return true;
+      }
+
+      case 'CIP30_SIGN_DATA_RESPONSE': {
+        const { requestId, approved, signature, error } = message.payload as {
+          requestId: string;
+          approved: boolean;
+          signature?: { signature: string; key: string };
+          error?: Cip30Error;
+        };
+
+        answerSignRequest(requestId, {
+          approved,
+          error,
+          response: { signature },
+        });
+        sendResponse({ success: true });
+        return true;
+      }
+
+      case 'CIP30_SUBMIT_TX': {
+        const { tx } = message.payload || {};
+        const currentWallet = await walletsStorage.getActiveWallet();
+
+        if (!currentWallet) {
+          sendResponse({
+            success: false,
+            error: { code: APIErrorCode.InternalError, info: 'No wallet available' },
+          });
+          return true;
+        }
+
+        if (typeof tx !== 'string' || !/^([0-9a-fA-F]{2})+$/.test(tx)) {
+          sendResponse({
+            success: false,
+            error: { code: APIErrorCode.InvalidRequest, info: 'Transaction CBOR is required' },
+          });
+          return true;
+        }
+
+        console.log('CIP30_SUBMIT_TX: Submitting via', currentWallet.network, 'for wallet:', currentWallet.name);
+
+        try {
+          const submitted = await submitTransaction(currentWallet, tx);
+          if ('txHash' in submitted) {
+            console.log('CIP30_SUBMIT_TX: Submitted transaction:', submitted.txHash);
+            sendResponse({ success: true, txHash: submitted.txHash });
+            return true;
+          }
+
+          console.error('CIP30_SUBMIT_TX: Submission rejected:', submitted.error);
+          sendResponse({
+            success: false,
+            error: {
+              code: submitted.refused ? TxSendErrorCode.Refused : TxSendErrorCode.Failure,
+              info: submitted.error,
+            },
+          });
+        } catch (error) {
+          console.error('CIP30_SUBMIT_TX: Error submitting transaction:', error);
+          sendResponse({
+            success: false,
+            error: {
+              code: TxSendErrorCode.Failure,
+              info: error instanceof Error ? error.message : 'Failed to submit transaction',
+            },
+          });
+        }
+        return true;
+      }
+
+      case 'CIP95_GET_PUB_DREP_KEY': {
+        const currentWallet = await walletsStorage.getActiveWallet();
+
+        if (!currentWallet?.publicKeys) {
+          sendResponse({
+            success: false,
+            error: {
+              code: APIErrorCode.InternalError,
+              info: currentWallet?.type === 'SPOOFED' ? 'Spoofed wallets have no DRep key' : PUBLIC_KEYS_MISSING,
+            },
+          });
+          return true;
+        }
+
+        sendResponse({ success: true, key: currentWallet.publicKeys.drep });
+        return true;
+      }
+
+      case 'CIP95_GET_REGISTERED_PUB_STAKE_KEYS':
+      case 'CIP95_GET_UNREGISTERED_PUB_STAKE_KEYS': {
+        const currentWallet = await walletsStorage.getActiveWallet();
+
+        if (!currentWallet) {
+          sendResponse({
+            success: false,
+            error: { code: APIErrorCode.InternalError, info: 'No wallet available' },
+          });
+          return true;
+        }
+
+        // Spoofed wallets only know the stake key hash, not the public key
+        if (currentWallet.type === 'SPOOFED') {
+          sendResponse({ success: true, keys: [] });
+          return true;
+        }
+        if (!currentWallet.publicKeys) {
+          sendResponse({ success: false, error: { code: APIErrorCode.InternalError, info: PUBLIC_KEYS_MISSING } });
+          return true;
+        }
+
+        try {
+          const registered = await isStakeKeyRegistered(currentWallet);
+          const wantRegistered = message.type === 'CIP95_GET_REGISTERED_PUB_STAKE_KEYS';
+          sendResponse({
+            success: true,
+            keys: registered === wantRegistered ? [currentWallet.publicKeys.stake] : [],
+          });
+        } catch (error) {
+          console.error(`${message.type}: Failed to check stake registration:`, error);
+          sendResponse({
+            success: false,
+            error: {
+              code: APIErrorCode.InternalError,
+              info: error instanceof Error ? error.message : 'Failed to check stake key registration',
+            },
+          });
+        }
+        return true;
+      }
+
       default:
         // Not a CIP-30 message, let other handlers deal with it
         return false;
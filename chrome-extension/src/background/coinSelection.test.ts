@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { selectUtxos } from './coinSelection';
+import type { AssetAmount } from './coinSelection';
+
+const TOKEN = `${'ab'.repeat(28)}746f6b656e`;
+const OTHER_TOKEN = `${'cd'.repeat(28)}6f74686572`;
+
+const utxo = (id: string, lovelace: number, tokens: AssetAmount[] = []) => ({
+  id,
+  amount: [{ unit: 'lovelace', quantity: lovelace.toString() }, ...tokens],
+});
+
+const ids = (selected: { id: string }[] | null) => selected?.map(u => u.id) ?? null;
+
+describe('selectUtxos', () => {
+  it('takes the largest UTXOs first until lovelace is covered', () => {
+    const utxos = [utxo('a', 1_000_000), utxo('b', 5_000_000), utxo('c', 3_000_000)];
+
+    expect(ids(selectUtxos(utxos, [{ unit: 'lovelace', quantity: '6000000' }]))).toEqual(['b', 'c']);
+    expect(ids(selectUtxos(utxos, [{ unit: 'lovelace', quantity: '5000000' }]))).toEqual(['b']);
+  });
+
+  it('covers tokens before lovelace and counts the lovelace they bring', () => {
+    const utxos = [
+      utxo('ada', 10_000_000),
+      utxo('token-small', 1_500_000, [{ unit: TOKEN, quantity: '5' }]),
+      utxo('token-large', 2_000_000, [{ unit: TOKEN, quantity: '20' }]),
+    ];
+
+    const target = [
+      { unit: 'lovelace', quantity: '2000000' },
+      { unit: TOKEN, quantity: '10' },
+    ];
+    expect(ids(selectUtxos(utxos, target))).toEqual(['token-large']);
+  });
+
+  it('adds UTXOs for every requested asset', () => {
+    const utxos = [
+      utxo('ada', 10_000_000),
+      utxo('token', 1_500_000, [{ unit: TOKEN, quantity: '1' }]),
+      utxo('other', 1_500_000, [{ unit: OTHER_TOKEN, quantity: '1' }]),
+    ];
+
+    const target = [
+      { unit: TOKEN, quantity: '1' },
+      { unit: OTHER_TOKEN, quantity: '1' },
+      { unit: 'lovelace', quantity: '5000000' },
+    ];
+    expect(ids(selectUtxos(utxos, target))).toEqual(['token', 'other', 'ada']);
+  });
+
+  it('returns null when the UTXOs cannot cover the target', () => {
+    const utxos = [utxo('a', 1_000_000, [{ unit: TOKEN, quantity: '2' }])];
+
+    expect(selectUtxos(utxos, [{ unit: 'lovelace', quantity: '1000001' }])).toBeNull();
+    expect(selectUtxos(utxos, [{ unit: TOKEN, quantity: '3' }])).toBeNull();
+    expect(selectUtxos(utxos, [{ unit: OTHER_TOKEN, quantity: '1' }])).toBeNull();
+  });
+
+  it('selects nothing for an empty or zero target', () => {
+    const utxos = [utxo('a', 1_000_000)];
+
+    expect(selectUtxos(utxos, [])).toEqual([]);
+    expect(selectUtxos(utxos, [{ unit: 'lovelace', quantity: '0' }])).toEqual([]);
+  });
+
+  it('handles quantities beyond the safe integer range', () => {
+    const utxos = [
+      utxo('a', 1, [{ unit: TOKEN, quantity: '9007199254740993' }]),
+      utxo('b', 1, [{ unit: TOKEN, quantity: '9007199254740992' }]),
+    ];
+
+    expect(ids(selectUtxos(utxos, [{ unit: TOKEN, quantity: '9007199254740993' }]))).toEqual(['a']);
+  });
+});
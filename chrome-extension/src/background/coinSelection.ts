@@ -0,0 +1,46 @@
+// Coin selection for CIP-30 getUtxos(amount)
+
+export interface AssetAmount {
+  unit: string; // 'lovelace' or policy id + asset name hex
+  quantity: string;
+}
+
+const quantityOf = (utxo: { amount: AssetAmount[] }, unit: string): bigint =>
+  BigInt(utxo.amount.find(a => a.unit === unit)?.quantity || '0');
+
+/**
+ * Multi-asset Largest-First selection (CIP-2). Requested tokens are covered first and lovelace last,
+ * each by repeatedly taking the remaining UTXO that holds the most of that asset.
+ * Returns null only when the UTXO set cannot cover the target at all.
+ */
+export function selectUtxos<T extends { amount: AssetAmount[] }>(utxos: T[], target: AssetAmount[]): T[] | null {
+  const requested = target
+    .filter(asset => BigInt(asset.quantity) > BigInt(0))
+    .sort((a, b) => (a.unit === 'lovelace' ? 1 : 0) - (b.unit === 'lovelace' ? 1 : 0));
+
+  const selected: T[] = [];
+  let remaining = [...utxos];
+
+  for (const { unit, quantity } of requested) {
+    const needed = BigInt(quantity);
+    let covered = selected.reduce((sum, utxo) => sum + quantityOf(utxo, unit), BigInt(0));
+
+    const candidates = remaining
+      .filter(utxo => quantityOf(utxo, unit) > BigInt(0))
+      .sort((a, b) => {
+        const diff = quantityOf(b, unit) - quantityOf(a, unit);
+        return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+      });
+
+    for (const utxo of candidates) {
+      if (covered >= needed) break;
+      selected.push(utxo);
+      covered += quantityOf(utxo, unit);
+    }
+
+    if (covered < needed) return null;
+    remaining = remaining.filter(utxo => !selected.includes(utxo));
+  }
+
+  return selected;
+}
@@ -0,0 +1,63 @@
+import { settingsStorage, walletsStorage, dappConnectionsStorage } from '@extension/storage';
+
+// Last account announced to dApps; kept in session storage so a restarted service worker still notices changes
+const LAST_ACCOUNT_KEY = 'cip30-last-account';
+
+interface AnnouncedAccount {
+  walletId: string;
+  network: 'Mainnet' | 'Preprod';
+}
+
+// Sends a CIP-30 event to every open tab whose origin is connected; the content script relays it to the page
+const broadcastToConnectedTabs = async (event: 'accountChange' | 'networkChange', data: unknown) => {
+  const { connections } = await dappConnectionsStorage.get();
+  const tabs = await chrome.tabs.query({});
+
+  for (const tab of tabs) {
+    if (!tab.id || !tab.url) continue;
+
+    let origin: string;
+    try {
+      origin = new URL(tab.url).origin;
+    } catch {
+      continue;
+    }
+    if (!connections[origin]) continue;
+
+    chrome.tabs.sendMessage(tab.id, { type: 'CIP30_EVENT', payload: { event, data } }).catch(() => {
+      // Tab has no content script (e.g. it was opened before the extension was installed)
+    });
+  }
+};
+
+const checkActiveAccount = async () => {
+  const wallet = await walletsStorage.getActiveWallet();
+  if (!wallet) return;
+
+  const stored = await chrome.storage.session.get(LAST_ACCOUNT_KEY);
+  const previous: AnnouncedAccount | undefined = stored[LAST_ACCOUNT_KEY];
+  const current: AnnouncedAccount = { walletId: wallet.id, network: wallet.network };
+  await chrome.storage.session.set({ [LAST_ACCOUNT_KEY]: current });
+
+  // Nothing to compare against on the very first run
+  if (!previous) return;
+
+  if (previous.network !== current.network) {
+    console.log('CIP30 events: network changed to', current.network);
+    await broadcastToConnectedTabs('networkChange', current.network === 'Mainnet' ? 1 : 0);
+  }
+  if (previous.walletId !== current.walletId) {
+    console.log('CIP30 events: account changed to', wallet.name);
+    await broadcastToConnectedTabs('accountChange', [wallet.address]);
+  }
+};
+
+/**
+ * Watches the active wallet and notifies connected dApps about account and network changes
+ */
+export const initCip30Events = () => {
+  checkActiveAccount();
+  settingsStorage.subscribe(() => {
+    checkActiveAccount();
+  });
+};
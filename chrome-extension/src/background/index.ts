@@ -1,12 +1,110 @@
-import { handleCip30Messages } from './cip30';
+import { APIErrorCode, CIP30_METHODS } from '@extension/shared';
+import { sessionRecordingStorage } from '@extension/storage';
+import {
+  applyFaults,
+  getSenderOrigin,
+  getWebPageRefusal,
+  handleCip30Messages,
+  handleSignApprovalPort,
+  isWebPageSender,
+} from './cip30';
 import { handleWalletMessages } from './wallet';
+import { initCip30Events } from './events';
+
+initCip30Events();
+chrome.runtime.onConnect.addListener(handleSignApprovalPort);
+
+// Position in each sequence of identical calls being replayed, so repeated calls get their responses in recorded order
+const replayCursors = new Map<string, number>();
+let replayingId: string | null = null;
+
+const callKey = (origin: string, method: string, args: unknown) =>
+  `${origin} ${method}:${JSON.stringify(args ?? null)}`;
+
+/**
+ * Recorded response for a call from a web page, or undefined when no recording is replayed or none matches.
+ * Only calls recorded on the same origin match, and only origins already connected get replayed responses.
+ */
+const findReplayResponse = async (message: any, origin: string): Promise<unknown> => {
+  const { recordings, replayId } = await sessionRecordingStorage.get();
+  if (replayId !== replayingId) {
+    replayCursors.clear();
+    replayingId = replayId;
+  }
+
+  const recording = recordings.find(r => r.id === replayId);
+  if (!recording || (await getWebPageRefusal(message, origin))) return undefined;
+
+  const key = callKey(origin, message.type, message.payload);
+  const matches = recording.calls.filter(call => callKey(call.origin, call.method, call.args) === key);
+  if (matches.length === 0) return undefined;
+
+  // Once a sequence runs out, its last response keeps being answered
+  const index = replayCursors.get(key) || 0;
+  replayCursors.set(key, index + 1);
+  return matches[Math.min(index, matches.length - 1)].response;
+};
+
+// Wraps sendResponse so the call is appended to the active recording once it is answered. Other messages
+// from web pages are refused anyway and stay out of recordings.
+const withRecording = async (
+  message: any,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response?: unknown) => void,
+) => {
+  if (!CIP30_METHODS.some(method => method.type === message?.type)) return sendResponse;
+  const { recordingId } = await sessionRecordingStorage.get();
+  if (!recordingId) return sendResponse;
+
+  return (response?: unknown) => {
+    sendResponse(response);
+    sessionRecordingStorage
+      .addCall(recordingId, {
+        method: message.type,
+        origin: getSenderOrigin(sender),
+        args: message.payload ?? null,
+        response,
+        recordedAt: Date.now(),
+      })
+      .catch(error => console.error('Failed to record CIP-30 call:', error));
+  };
+};
 
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  // Traffic entries from content scripts are meant for the DevTools inspector panel only
+  if (message?.type === 'CIP30_TRAFFIC_ENTRY') return false;
+
   (async () => {
+    let respond = sendResponse;
+
+    // Calls from web pages can be answered from a replayed session, or recorded along with their responses
+    if (isWebPageSender(sender)) {
+      const origin = getSenderOrigin(sender);
+      const replayed = await findReplayResponse(message, origin);
+      if (replayed !== undefined) {
+        // Injected faults apply to replayed answers just as to live ones
+        if (!(await applyFaults(origin, message.type, sendResponse))) {
+          sendResponse(replayed);
+        }
+        return;
+      }
+      respond = await withRecording(message, sender, sendResponse);
+    }
+
     // Try CIP-30 handlers first
-    const cip30Handled = await handleCip30Messages(message, sender, sendResponse);
+    const cip30Handled = await handleCip30Messages(message, sender, respond);
     if (cip30Handled) return;
 
+    // Web pages only ever reach the CIP-30 API; wallet management stays internal to the extension
+    if (isWebPageSender(sender)) {
+      console.warn(`Refused ${message.type} from web page:`, sender.tab?.url);
+      respond({
+        success: false,
+        error: { code: APIErrorCode.Refused, info: `Unknown message type: ${message.type}` },
+      });
+      return;
+    }
+
     // Try wallet handlers next
     const walletHandled = await handleWalletMessages(message, sender, sendResponse);
     if (walletHandled) return;
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { APIErrorCode } from '@extension/shared';
+import { paginateItems } from './pagination';
+
+const items = ['a', 'b', 'c', 'd', 'e'];
+
+describe('paginateItems', () => {
+  it('returns every item without a paginate', () => {
+    expect(paginateItems(items)).toEqual({ items });
+  });
+
+  it('slices the requested page', () => {
+    expect(paginateItems(items, { page: 0, limit: 2 })).toEqual({ items: ['a', 'b'] });
+    expect(paginateItems(items, { page: 1, limit: 2 })).toEqual({ items: ['c', 'd'] });
+  });
+
+  it('returns a partial last page', () => {
+    expect(paginateItems(items, { page: 2, limit: 2 })).toEqual({ items: ['e'] });
+  });
+
+  it('answers a page past the end with the number of pages', () => {
+    expect(paginateItems(items, { page: 3, limit: 2 })).toEqual({ error: { maxSize: 3 } });
+    expect(paginateItems(items, { page: 1, limit: 5 })).toEqual({ error: { maxSize: 1 } });
+  });
+
+  it('gives an empty list one empty first page', () => {
+    expect(paginateItems([], { page: 0, limit: 10 })).toEqual({ items: [] });
+    expect(paginateItems([], { page: 1, limit: 10 })).toEqual({ error: { maxSize: 1 } });
+  });
+
+  it('rejects an invalid page or limit', () => {
+    for (const paginate of [
+      { page: -1, limit: 2 },
+      { page: 0, limit: 0 },
+      { page: 0.5, limit: 2 },
+      { page: 0, limit: Number.NaN },
+    ]) {
+      const result = paginateItems(items, paginate);
+      expect(result).toHaveProperty('error.code', APIErrorCode.InvalidRequest);
+    }
+  });
+});
@@ -0,0 +1,26 @@
+// CIP-30 Paginate for the list endpoints (getUtxos, getUsedAddresses)
+import { APIErrorCode } from '@extension/shared';
+import type { Cip30Error, PaginateError } from '@extension/shared';
+
+/**
+ * Applies a CIP-30 Paginate ({ page, limit }) to a result list. Pages past the last one
+ * are answered with a PaginateError whose maxSize is the number of available pages.
+ */
+export const paginateItems = <T>(
+  items: T[],
+  paginate?: { page: number; limit: number },
+): { items: T[] } | { error: Cip30Error | PaginateError } => {
+  if (!paginate) return { items };
+
+  const { page, limit } = paginate;
+  if (!Number.isInteger(page) || !Number.isInteger(limit) || page < 0 || limit < 1) {
+    return { error: { code: APIErrorCode.InvalidRequest, info: 'Invalid paginate, expected { page, limit }' } };
+  }
+
+  // An empty list still has one (empty) first page
+  const maxSize = Math.max(1, Math.ceil(items.length / limit));
+  if (page >= maxSize) {
+    return { error: { maxSize } };
+  }
+  return { items: items.slice(page * limit, (page + 1) * limit) };
+};
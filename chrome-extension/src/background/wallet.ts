@@ -12,6 +12,9 @@ const BLOCKFROST_API_URLS = {
   Preprod: 'https://cardano-preprod.blockfrost.io/api/v0',
 };
 
+// Validity window the popup gives transactions it builds; a pending one not on chain after this never will be
+const PENDING_TX_TIMEOUT_SECONDS = 2 * 60 * 60;
+
 export const handleWalletMessages = async (
   message: any,
   sender: chrome.runtime.MessageSender,
@@ -24,9 +27,18 @@ export const handleWalletMessages = async (
     switch (message.type) {
       case 'CREATE_WALLET': {
         // Receive complete data from frontend - crypto operations already done in popup
-        const { name, network, password, seedPhrase, address, stakeAddress, rootKey } = message.payload;
-
-        const wallet = await createNewWallet(name, network, password, seedPhrase, address, stakeAddress, rootKey);
+        const { name, network, password, seedPhrase, address, stakeAddress, rootKey, publicKeys } = message.payload;
+
+        const wallet = await createNewWallet(
+          name,
+          network,
+          password,
+          seedPhrase,
+          address,
+          stakeAddress,
+          rootKey,
+          publicKeys,
+        );
         await walletsStorage.addWallet(wallet);
         sendResponse({ success: true, wallet });
         return true;
@@ -34,9 +46,18 @@ export const handleWalletMessages = async (
 
       case 'IMPORT_WALLET': {
         // Receive complete data from frontend - crypto operations already done in popup
-        const { name, network, seedPhrase, address, stakeAddress, password, rootKey } = message.payload;
-
-        const wallet = await importWallet(name, network, seedPhrase, password, address, stakeAddress, rootKey);
+        const { name, network, seedPhrase, address, stakeAddress, password, rootKey, publicKeys } = message.payload;
+
+        const wallet = await importWallet(
+          name,
+          network,
+          seedPhrase,
+          password,
+          address,
+          stakeAddress,
+          rootKey,
+          publicKeys,
+        );
         await walletsStorage.addWallet(wallet);
         sendResponse({ success: true, wallet });
         return true;
@@ -250,6 +271,264 @@ export const handleWalletMessages = async (
         return true;
       }
 
+      case 'RESOLVE_TX_INPUTS': {
+        // Look up the outputs spent by a transaction (used by signing approval pages).
+        // Unlike GET_UTXO_DETAILS nothing is stored, as the inputs may belong to someone else.
+        const { walletId, inputs } = message.payload as {
+          walletId: string;
+          inputs: { txHash: string; outputIndex: number }[];
+        };
+        const wallet = findWallet(walletId);
+        if (!wallet) {
+          sendResponse({ success: false, error: 'Wallet not found' });
+          return true;
+        }
+
+        const { apiUrl, apiKey } = await getApiConfig(wallet);
+        const fetchedTxs = new Map<string, Promise<any>>();
+        const fetchTxUtxos = (txHash: string) => {
+          if (!fetchedTxs.has(txHash)) {
+            fetchedTxs.set(
+              txHash,
+              fetch(`${apiUrl}/txs/${txHash}/utxos`, { headers: { project_id: apiKey } })
+                .then(response => (response.ok ? response.json() : null))
+                .catch(() => null),
+            );
+          }
+          return fetchedTxs.get(txHash)!;
+        };
+
+        const resolved = await Promise.all(
+          inputs.map(async ({ txHash, outputIndex }) => {
+            const known = await transactionsStorage.getUTXO(txHash, outputIndex);
+            if (known) {
+              return { tx_hash: txHash, output_index: outputIndex, address: known.address, amount: known.amount };
+            }
+            const utxoData = await fetchTxUtxos(txHash);
+            const output = utxoData?.outputs?.find((o: any) => o.output_index === outputIndex);
+            return output
+              ? { tx_hash: txHash, output_index: outputIndex, address: output.address, amount: output.amount }
+              : null;
+          }),
+        );
+
+        sendResponse({ success: true, outputs: resolved });
+        return true;
+      }
+
+      case 'GET_PROTOCOL_PARAMETERS': {
+        // Current protocol parameters and tip slot, for building transactions in the popup
+        const wallet = findWallet(message.payload.walletId);
+        if (!wallet) {
+          sendResponse({ success: false, error: 'Wallet not found' });
+          return true;
+        }
+
+        const { apiUrl, apiKey } = await getApiConfig(wallet);
+        const [parametersResponse, blockResponse] = await Promise.all([
+          fetch(`${apiUrl}/epochs/latest/parameters`, { headers: { project_id: apiKey } }),
+          fetch(`${apiUrl}/blocks/latest`, { headers: { project_id: apiKey } }),
+        ]);
+        if (!parametersResponse.ok || !blockResponse.ok) {
+          sendResponse({ success: false, error: 'Failed to fetch protocol parameters' });
+          return true;
+        }
+
+        const [parameters, block] = await Promise.all([parametersResponse.json(), blockResponse.json()]);
+        sendResponse({ success: true, parameters, slot: block.slot });
+        return true;
+      }
+
+      case 'GET_ACCOUNT_INFO': {
+        // Registration, delegation and rewards of the wallet's stake address, for the Staking screen. Callers
+        // that only need the account skip the extra lookups for the delegated pool's metadata.
+        const { walletId, includePool = true } = message.payload as { walletId: string; includePool?: boolean };
+        const wallet = findWallet(walletId);
+        if (!wallet) {
+          sendResponse({ success: false, error: 'Wallet not found' });
+          return true;
+        }
+
+        const { apiUrl, apiKey } = await getApiConfig(wallet);
+        const accountResponse = await fetch(`${apiUrl}/accounts/${wallet.stakeAddress}`, {
+          headers: { project_id: apiKey },
+        });
+        // Blockfrost only knows stake addresses that have been seen on chain
+        if (accountResponse.status === 404) {
+          sendResponse({ success: true, account: null, pool: null });
+          return true;
+        }
+        if (!accountResponse.ok) {
+          sendResponse({ success: false, error: 'Failed to fetch account information' });
+          return true;
+        }
+
+        const account = await accountResponse.json();
+        const pool = includePool && account.pool_id ? await fetchPoolMetadata(apiUrl, apiKey, account.pool_id) : null;
+        sendResponse({ success: true, account, pool });
+        return true;
+      }
+
+      case 'GET_POOL_INFO': {
+        // Look up a stake pool before delegating to it
+        const { walletId, poolId } = message.payload as { walletId: string; poolId: string };
+        const wallet = findWallet(walletId);
+        if (!wallet) {
+          sendResponse({ success: false, error: 'Wallet not found' });
+          return true;
+        }
+
+        const { apiUrl, apiKey } = await getApiConfig(wallet);
+        const pool = await fetchPoolMetadata(apiUrl, apiKey, poolId);
+        sendResponse(pool ? { success: true, pool } : { success: false, error: 'Pool not found' });
+        return true;
+      }
+
+      case 'GET_DREP_INFO': {
+        // Registration status and voting power of a DRep, null when Blockfrost does not know it
+        const { walletId, drepId } = message.payload as { walletId: string; drepId: string };
+        const wallet = findWallet(walletId);
+        if (!wallet) {
+          sendResponse({ success: false, error: 'Wallet not found' });
+          return true;
+        }
+
+        const { apiUrl, apiKey } = await getApiConfig(wallet);
+        const drepResponse = await fetch(`${apiUrl}/governance/dreps/${encodeURIComponent(drepId)}`, {
+          headers: { project_id: apiKey },
+        });
+        if (drepResponse.status === 404) {
+          sendResponse({ success: true, drep: null });
+          return true;
+        }
+        // Blockfrost answers malformed ids with 400
+        if (drepResponse.status === 400) {
+          sendResponse({ success: false, error: `Invalid DRep ID: ${drepId}` });
+          return true;
+        }
+        if (!drepResponse.ok) {
+          sendResponse({ success: false, error: 'Failed to fetch DRep information' });
+          return true;
+        }
+
+        sendResponse({ success: true, drep: await drepResponse.json() });
+        return true;
+      }
+
+      case 'GET_ADDRESS_UTXOS': {
+        // Unspent outputs at any address, e.g. a script address for the Contracts screen. Only the first
+        // page (100 outputs) is fetched; an address Blockfrost has never seen holds none.
+        const { walletId, address } = message.payload as { walletId: string; address: string };
+        const wallet = findWallet(walletId);
+        if (!wallet) {
+          sendResponse({ success: false, error: 'Wallet not found' });
+          return true;
+        }
+
+        const { apiUrl, apiKey } = await getApiConfig(wallet);
+        const utxosResponse = await fetch(`${apiUrl}/addresses/${address}/utxos`, {
+          headers: { project_id: apiKey },
+        });
+        if (utxosResponse.status === 404) {
+          sendResponse({ success: true, utxos: [] });
+          return true;
+        }
+        if (!utxosResponse.ok) {
+          sendResponse({ success: false, error: 'Failed to fetch UTXOs' });
+          return true;
+        }
+
+        sendResponse({ success: true, utxos: await utxosResponse.json() });
+        return true;
+      }
+
+      case 'GET_DATUM': {
+        // CBOR of a datum by its hash, for spending outputs that only carry a datum hash
+        const { walletId, datumHash } = message.payload as { walletId: string; datumHash: string };
+        const wallet = findWallet(walletId);
+        if (!wallet) {
+          sendResponse({ success: false, error: 'Wallet not found' });
+          return true;
+        }
+
+        const { apiUrl, apiKey } = await getApiConfig(wallet);
+        const datumResponse = await fetch(`${apiUrl}/scripts/datum/${datumHash}/cbor`, {
+          headers: { project_id: apiKey },
+        });
+        if (datumResponse.status === 404) {
+          sendResponse({ success: true, datum: null });
+          return true;
+        }
+        if (!datumResponse.ok) {
+          sendResponse({ success: false, error: 'Failed to fetch datum' });
+          return true;
+        }
+
+        const { cbor } = await datumResponse.json();
+        sendResponse({ success: true, datum: cbor });
+        return true;
+      }
+
+      case 'EVALUATE_TRANSACTION': {
+        // Execution units of the scripts a transaction runs, evaluated by Blockfrost's Ogmios
+        const { walletId, tx } = message.payload as { walletId: string; tx: string };
+        const wallet = findWallet(walletId);
+        if (!wallet) {
+          sendResponse({ success: false, error: 'Wallet not found' });
+          return true;
+        }
+
+        const { apiUrl, apiKey } = await getApiConfig(wallet);
+        const evaluateResponse = await fetch(`${apiUrl}/utils/txs/evaluate`, {
+          method: 'POST',
+          headers: { project_id: apiKey, 'Content-Type': 'application/cbor' },
+          body: tx,
+        });
+        if (!evaluateResponse.ok) {
+          const errorBody = await evaluateResponse.json().catch(() => null);
+          sendResponse({ success: false, error: errorBody?.message || 'Failed to evaluate transaction' });
+          return true;
+        }
+
+        // Ogmios answers with units per redeemer ("spend:0") or with the reason the scripts failed
+        const { result } = await evaluateResponse.json();
+        if (!result?.EvaluationResult) {
+          sendResponse({
+            success: false,
+            error: `Script evaluation failed: ${JSON.stringify(result?.EvaluationFailure ?? result)}`,
+          });
+          return true;
+        }
+
+        sendResponse({ success: true, units: result.EvaluationResult });
+        return true;
+      }
+
+      case 'SUBMIT_TRANSACTION': {
+        // Submit a transaction signed in the popup and keep it as pending until sync sees it on chain
+        const { walletId, tx, pendingTransaction } = message.payload as {
+          walletId: string;
+          tx: string;
+          pendingTransaction: Transaction;
+        };
+        const wallet = findWallet(walletId);
+        if (!wallet) {
+          sendResponse({ success: false, error: 'Wallet not found' });
+          return true;
+        }
+
+        const submitted = await submitTransaction(wallet, tx);
+        if ('error' in submitted) {
+          sendResponse({ success: false, error: submitted.error });
+          return true;
+        }
+
+        const { txHash } = submitted;
+        await transactionsStorage.storePendingTransaction(wallet.id, { ...pendingTransaction, hash: txHash });
+        sendResponse({ success: true, txHash });
+        return true;
+      }
+
       case 'REFRESH_WALLET_BALANCE': {
         const { walletId } = message.payload;
         const wallet = findWallet(walletId);
@@ -306,7 +585,7 @@ export const handleWalletMessages = async (
 };
 
 // Helper function to get API config for a wallet
-async function getApiConfig(wallet: Wallet) {
+export async function getApiConfig(wallet: Wallet) {
   const settings = await settingsStorage.get();
   const apiUrl = BLOCKFROST_API_URLS[wallet.network];
   const apiKey = wallet.network === 'Mainnet' ? settings.mainnetApiKey : settings.preprodApiKey;
@@ -320,6 +599,45 @@ async function getApiConfig(wallet: Wallet) {
   return { apiUrl, apiKey };
 }
 
+/**
+ * Submits a signed transaction (CBOR hex) through the wallet's Blockfrost endpoint. A transaction the node
+ * rejects comes back with refused set and the ledger error; network failures throw.
+ */
+export async function submitTransaction(
+  wallet: Wallet,
+  tx: string,
+): Promise<{ txHash: string } | { error: string; refused: boolean }> {
+  const { apiUrl, apiKey } = await getApiConfig(wallet);
+  const submitResponse = await fetch(`${apiUrl}/tx/submit`, {
+    method: 'POST',
+    headers: { project_id: apiKey, 'Content-Type': 'application/cbor' },
+    body: new Uint8Array((tx.match(/.{1,2}/g) || []).map(byte => parseInt(byte, 16))),
+  });
+
+  if (!submitResponse.ok) {
+    // Blockfrost answers 400 when the node rejects the transaction, with the ledger error as message
+    const errorBody = await submitResponse.json().catch(() => null);
+    const ledgerError = errorBody?.message || submitResponse.statusText;
+    return {
+      error: typeof ledgerError === 'string' ? ledgerError : JSON.stringify(ledgerError),
+      refused: submitResponse.status === 400,
+    };
+  }
+  return { txHash: await submitResponse.json() };
+}
+
+// Ticker and name of a stake pool, null when the pool does not exist
+async function fetchPoolMetadata(
+  apiUrl: string,
+  apiKey: string,
+  poolId: string,
+): Promise<{ pool_id: string; ticker: string | null; name: string | null } | null> {
+  const response = await fetch(`${apiUrl}/pools/${poolId}/metadata`, { headers: { project_id: apiKey } });
+  if (!response.ok) return null;
+  const metadata = await response.json();
+  return { pool_id: metadata.pool_id, ticker: metadata.ticker ?? null, name: metadata.name ?? null };
+}
+
 // Get payment addresses for a stake address
 async function getPaymentAddresses(apiUrl: string, apiKey: string, stakeAddress: string): Promise<string[]> {
   const response = await fetch(`${apiUrl}/accounts/${stakeAddress}/addresses`, {
@@ -349,7 +667,8 @@ async function performTransactionSync(
 
   // Get existing transactions to identify what's new
   const existingTransactions = await transactionsStorage.getWalletTransactions(wallet.id);
-  const existingTxHashes = new Set(existingTransactions.map(tx => tx.hash));
+  // Pending transactions count as new, so the on-chain version replaces them once confirmed
+  const existingTxHashes = new Set(existingTransactions.filter(tx => !tx.pending).map(tx => tx.hash));
   console.log(`Found ${existingTransactions.length} existing transactions`);
 
   // Start with checking phase
@@ -414,6 +733,15 @@ async function performTransactionSync(
 
   console.log(`Total transaction hashes collected: ${allTransactionHashes.size}`);
 
+  // Pending transactions still missing on chain past their validity window were dropped by the network
+  const nowSeconds = Date.now() / 1000;
+  for (const tx of existingTransactions) {
+    if (tx.pending && !allTransactionHashes.has(tx.hash) && nowSeconds - tx.block_time > PENDING_TX_TIMEOUT_SECONDS) {
+      console.log(`Dropping expired pending transaction ${tx.hash}`);
+      await transactionsStorage.removePendingTransaction(tx.hash);
+    }
+  }
+
   // Identify new transactions
   const newTransactionHashes = Array.from(allTransactionHashes).filter(hash => !existingTxHashes.has(hash));
   console.log(`Found ${newTransactionHashes.length} new transactions out of ${allTransactionHashes.size} total`);
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the background's pure helpers; the extension build config stays out of it
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});
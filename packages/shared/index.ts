@@ -2,3 +2,4 @@ export * from './lib/hoc';
 export * from './lib/utils';
 export * from './lib/messaging';
 export * from './lib/types';
+export * from './lib/cip30';
@@ -0,0 +1,35 @@
+/**
+ * Error codes defined by CIP-30 (https://cips.cardano.org/cip/CIP-30).
+ * Shared between the background handlers and the popup approval pages.
+ */
+export enum APIErrorCode {
+  InvalidRequest = -1,
+  InternalError = -2,
+  Refused = -3,
+  AccountChange = -4,
+}
+
+export enum TxSignErrorCode {
+  ProofGeneration = 1,
+  UserDeclined = 2,
+}
+
+export enum DataSignErrorCode {
+  ProofGeneration = 1,
+  AddressNotPK = 2,
+  UserDeclined = 3,
+}
+
+export enum TxSendErrorCode {
+  Refused = 1,
+  Failure = 2,
+}
+
+export interface Cip30Error {
+  code: number;
+  info: string;
+}
+
+export interface PaginateError {
+  maxSize: number;
+}
@@ -0,0 +1,26 @@
+/**
+ * CIP-30 (and CIP-95) API methods with the bridge message type that carries each of them from the
+ * injected provider to the background.
+ */
+export const CIP30_METHODS: { method: string; type: string }[] = [
+  { method: 'enable', type: 'CIP30_ENABLE_REQUEST' },
+  { method: 'isEnabled', type: 'CIP30_IS_ENABLED_REQUEST' },
+  { method: 'getNetworkId', type: 'CIP30_GET_NETWORK_ID' },
+  { method: 'getUtxos', type: 'CIP30_GET_UTXOS' },
+  { method: 'getCollateral', type: 'CIP30_GET_COLLATERAL' },
+  { method: 'getBalance', type: 'CIP30_GET_BALANCE' },
+  { method: 'getUsedAddresses', type: 'CIP30_GET_USED_ADDRESSES' },
+  { method: 'getUnusedAddresses', type: 'CIP30_GET_UNUSED_ADDRESSES' },
+  { method: 'getChangeAddress', type: 'CIP30_GET_CHANGE_ADDRESS' },
+  { method: 'getRewardAddresses', type: 'CIP30_GET_REWARD_ADDRESSES' },
+  { method: 'signTx', type: 'CIP30_SIGN_TX' },
+  { method: 'signData', type: 'CIP30_SIGN_DATA' },
+  { method: 'submitTx', type: 'CIP30_SUBMIT_TX' },
+  { method: 'cip95.getPubDRepKey', type: 'CIP95_GET_PUB_DREP_KEY' },
+  { method: 'cip95.getRegisteredPubStakeKeys', type: 'CIP95_GET_REGISTERED_PUB_STAKE_KEYS' },
+  { method: 'cip95.getUnregisteredPubStakeKeys', type: 'CIP95_GET_UNREGISTERED_PUB_STAKE_KEYS' },
+];
+
+/** The API method name of a bridge message type, or the type itself when it is not a CIP-30 call. */
+export const getCip30MethodName = (type: string): string =>
+  CIP30_METHODS.find(method => method.type === type)?.method || type;
@@ -0,0 +1,16 @@
+/**
+ * One CIP-30 call recorded by the content script bridge of a tab, as shown in the DevTools inspector.
+ * CBOR arguments and results are kept as sent and additionally decoded into CSL's JSON form.
+ */
+export interface TrafficEntry {
+  id: string;
+  method: string;
+  origin: string;
+  args: unknown;
+  response: unknown;
+  error: unknown;
+  decoded: { args?: unknown; result?: unknown };
+  wallet: { id: string; name: string } | null;
+  startedAt: number;
+  durationMs: number;
+}
@@ -12,6 +12,14 @@ export type Wallet = {
   seedPhrase: string | null;
   // Encrypted root key for HD, null for SPOOFED (encrypted if password is provided)
   rootKey: string | null;
+  // Hex public keys of the stake (m/1852'/1815'/0'/2/0) and DRep (m/1852'/1815'/0'/3/0) keys for HD wallets
+  publicKeys?: { stake: string; drep: string } | null;
+  // Pure-ADA UTXO the user designated as CIP-30 collateral; kept out of getUtxos coin selection
+  collateral?: { txHash: string; outputIndex: number } | null;
+  // UTXOs picked by hand in the UTXO list, spent as exact inputs by coin-controlled sends and consolidations
+  selectedUtxos?: { txHash: string; outputIndex: number }[];
+  // When set, CIP-30 getUtxos only returns the selected UTXOs
+  pinnedUtxosOnly?: boolean;
 };
 
 export type Asset = {
@@ -0,0 +1,107 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// The JSON schema subset CIP-57 describes datums, redeemers and parameters with
+export interface BlueprintSchema {
+  title?: string;
+  description?: string;
+  dataType?: string; // integer, bytes, list, map, constructor, or a #-prefixed builtin type
+  index?: number; // Constructor index
+  fields?: BlueprintSchema[]; // Constructor fields
+  items?: BlueprintSchema | BlueprintSchema[]; // List items, or the fields of a tuple
+  keys?: BlueprintSchema;
+  values?: BlueprintSchema;
+  anyOf?: BlueprintSchema[]; // Constructors of a sum type
+  $ref?: string; // Pointer into the blueprint's definitions
+}
+
+export interface BlueprintArgument {
+  title?: string;
+  description?: string;
+  schema: BlueprintSchema;
+}
+
+export interface BlueprintValidator {
+  title: string; // module.validator, with a .purpose suffix since Aiken 1.1
+  datum?: BlueprintArgument;
+  redeemer?: BlueprintArgument;
+  parameters?: BlueprintArgument[]; // Set when the compiled code still needs parameters applied
+  compiledCode?: string; // CBOR hex
+  hash?: string; // Script hash
+}
+
+// A CIP-57 Plutus blueprint (plutus.json) imported into the Contracts tool
+export interface Blueprint {
+  id: string;
+  title: string;
+  version: string;
+  plutusVersion: 'v1' | 'v2' | 'v3';
+  validators: BlueprintValidator[];
+  definitions: Record<string, BlueprintSchema>;
+  importedAt: number;
+}
+
+export interface BlueprintsState {
+  blueprints: Blueprint[];
+}
+
+const defaultState: BlueprintsState = {
+  blueprints: [],
+};
+
+export interface BlueprintsStorage extends BaseStorage<BlueprintsState> {
+  importBlueprint: (data: unknown) => Promise<Blueprint>;
+  removeBlueprint: (id: string) => Promise<void>;
+}
+
+const storage = createStorage<BlueprintsState>('blueprints-key', defaultState, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const blueprintsStorage: BlueprintsStorage = {
+  ...storage,
+
+  /** Validates and stores a parsed plutus.json. A blueprint with the same title and version is replaced. */
+  importBlueprint: async (data: unknown): Promise<Blueprint> => {
+    const imported = data as {
+      preamble?: { title?: unknown; version?: unknown; plutusVersion?: unknown };
+      validators?: BlueprintValidator[];
+      definitions?: Record<string, BlueprintSchema>;
+    };
+    const preamble = imported?.preamble;
+    if (
+      !preamble ||
+      typeof preamble.title !== 'string' ||
+      !Array.isArray(imported.validators) ||
+      imported.validators.some(validator => typeof validator?.title !== 'string')
+    ) {
+      throw new Error('File is not a CIP-57 blueprint');
+    }
+    if (preamble.plutusVersion !== 'v1' && preamble.plutusVersion !== 'v2' && preamble.plutusVersion !== 'v3') {
+      throw new Error('The blueprint does not declare a supported Plutus version');
+    }
+
+    const version = typeof preamble.version === 'string' ? preamble.version : '';
+    const blueprint: Blueprint = {
+      id: `${preamble.title}@${version}`,
+      title: preamble.title,
+      version,
+      plutusVersion: preamble.plutusVersion,
+      validators: imported.validators,
+      definitions: imported.definitions || {},
+      importedAt: Date.now(),
+    };
+    await storage.set(state => ({
+      ...state,
+      blueprints: [...state.blueprints.filter(b => b.id !== blueprint.id), blueprint],
+    }));
+    return blueprint;
+  },
+
+  /** Removes an imported blueprint. */
+  removeBlueprint: async (id: string) => {
+    await storage.set(state => ({ ...state, blueprints: state.blueprints.filter(b => b.id !== id) }));
+  },
+};
@@ -0,0 +1,74 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// A dApp origin the user approved through the CIP-30 enable() prompt
+export interface DappConnection {
+  origin: string;
+  walletId: string;
+  network: 'Mainnet' | 'Preprod';
+  timestamp: number;
+  extensions?: number[]; // CIP numbers enabled for the origin, e.g. 95
+}
+
+export interface DappConnectionsState {
+  connections: Record<string, DappConnection>; // origin -> connection
+}
+
+const defaultState: DappConnectionsState = {
+  connections: {},
+};
+
+export interface DappConnectionsStorage extends BaseStorage<DappConnectionsState> {
+  grantConnection: (connection: DappConnection) => Promise<void>;
+  revokeConnection: (origin: string) => Promise<void>;
+  revokeAllConnections: () => Promise<void>;
+  getConnection: (origin: string) => Promise<DappConnection | null>;
+  getConnections: () => Promise<DappConnection[]>;
+}
+
+const storage = createStorage<DappConnectionsState>('dapp-connections-key', defaultState, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const dappConnectionsStorage: DappConnectionsStorage = {
+  ...storage,
+
+  /** Stores (or refreshes) the grant for an origin. */
+  grantConnection: async (connection: DappConnection) => {
+    await storage.set(state => ({
+      ...state,
+      connections: { ...state.connections, [connection.origin]: connection },
+    }));
+  },
+
+  /** Removes the grant for a single origin. */
+  revokeConnection: async (origin: string) => {
+    await storage.set(state => {
+      const connections = { ...state.connections };
+      delete connections[origin];
+      return { ...state, connections };
+    });
+  },
+
+  /** Removes all grants. */
+  revokeAllConnections: async () => {
+    await storage.set(state => ({
+      ...state,
+      connections: {},
+    }));
+  },
+
+  /** Gets the grant for an origin, if any. */
+  getConnection: async (origin: string): Promise<DappConnection | null> => {
+    const state = await storage.get();
+    return state.connections[origin] || null;
+  },
+
+  /** Gets all grants, most recent first. */
+  getConnections: async (): Promise<DappConnection[]> => {
+    const state = await storage.get();
+    return Object.values(state.connections).sort((a, b) => b.timestamp - a.timestamp);
+  },
+};
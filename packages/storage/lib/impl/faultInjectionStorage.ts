@@ -0,0 +1,75 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// 'error' answers with the configured CIP-30 error, 'timeout' never answers
+export type FaultType = 'none' | 'error' | 'timeout';
+
+export interface FaultRule {
+  id: string;
+  origin: string; // '*' matches every origin
+  method: string; // Bridge message type from CIP30_METHODS, or '*' for every method
+  latencyMs: number; // Added before the call is answered
+  fault: FaultType;
+  error?: { code: number; info: string };
+  enabled: boolean;
+}
+
+export interface FaultInjectionState {
+  rules: FaultRule[];
+}
+
+const defaultState: FaultInjectionState = {
+  rules: [],
+};
+
+export interface FaultInjectionStorage extends BaseStorage<FaultInjectionState> {
+  addRule: (rule: FaultRule) => Promise<void>;
+  updateRule: (id: string, fields: Partial<FaultRule>) => Promise<void>;
+  removeRule: (id: string) => Promise<void>;
+  clearRules: () => Promise<void>;
+  getMatchingRules: (origin: string, method: string) => Promise<FaultRule[]>;
+}
+
+const storage = createStorage<FaultInjectionState>('fault-injection-key', defaultState, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const faultInjectionStorage: FaultInjectionStorage = {
+  ...storage,
+
+  /** Adds a fault rule. */
+  addRule: async (rule: FaultRule) => {
+    await storage.set(state => ({ ...state, rules: [...state.rules, rule] }));
+  },
+
+  /** Updates a fault rule, e.g. to switch it on or off. */
+  updateRule: async (id: string, fields: Partial<FaultRule>) => {
+    await storage.set(state => ({
+      ...state,
+      rules: state.rules.map(rule => (rule.id === id ? { ...rule, ...fields } : rule)),
+    }));
+  },
+
+  /** Removes a fault rule. */
+  removeRule: async (id: string) => {
+    await storage.set(state => ({ ...state, rules: state.rules.filter(rule => rule.id !== id) }));
+  },
+
+  /** Removes all fault rules. */
+  clearRules: async () => {
+    await storage.set(state => ({ ...state, rules: [] }));
+  },
+
+  /** Gets the enabled rules that apply to a call of a method from an origin. */
+  getMatchingRules: async (origin: string, method: string): Promise<FaultRule[]> => {
+    const state = await storage.get();
+    return state.rules.filter(
+      rule =>
+        rule.enabled &&
+        (rule.origin === '*' || rule.origin === origin) &&
+        (rule.method === '*' || rule.method === method),
+    );
+  },
+};
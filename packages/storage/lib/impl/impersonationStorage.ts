@@ -0,0 +1,67 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+import { BEGIN_ICON, ETERNL_ICON, FLINT_ICON, LACE_ICON, NUFI_ICON, VESPR_ICON, YOROI_ICON } from './walletIcons';
+
+// window.cardano keys DevX can register under, with the provider name and icon the real wallet reports
+export const IMPERSONATABLE_WALLETS: { key: string; name: string; icon: string }[] = [
+  { key: 'nami', name: 'Nami', icon: LACE_ICON }, // Nami is part of Lace now
+  { key: 'eternl', name: 'eternl', icon: ETERNL_ICON },
+  { key: 'lace', name: 'lace', icon: LACE_ICON },
+  { key: 'flint', name: 'Flint Wallet', icon: FLINT_ICON },
+  { key: 'yoroi', name: 'yoroi', icon: YOROI_ICON },
+  { key: 'nufi', name: 'NuFi', icon: NUFI_ICON },
+  { key: 'vespr', name: 'VESPR', icon: VESPR_ICON },
+  { key: 'begin', name: 'Begin Wallet', icon: BEGIN_ICON },
+];
+
+export interface ImpersonationState {
+  origins: Record<string, string[]>; // origin -> window.cardano keys to register under
+}
+
+const defaultState: ImpersonationState = {
+  origins: {},
+};
+
+export interface ImpersonationStorage extends BaseStorage<ImpersonationState> {
+  setWalletKeys: (origin: string, keys: string[]) => Promise<void>;
+  removeOrigin: (origin: string) => Promise<void>;
+  getWalletKeys: (origin: string) => Promise<string[]>;
+}
+
+const storage = createStorage<ImpersonationState>('impersonation-key', defaultState, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const impersonationStorage: ImpersonationStorage = {
+  ...storage,
+
+  /** Sets the wallet keys to impersonate on an origin; an empty list removes the origin. */
+  setWalletKeys: async (origin: string, keys: string[]) => {
+    await storage.set(state => {
+      const origins = { ...state.origins };
+      if (keys.length > 0) {
+        origins[origin] = keys;
+      } else {
+        delete origins[origin];
+      }
+      return { ...state, origins };
+    });
+  },
+
+  /** Stops impersonating on an origin. */
+  removeOrigin: async (origin: string) => {
+    await storage.set(state => {
+      const origins = { ...state.origins };
+      delete origins[origin];
+      return { ...state, origins };
+    });
+  },
+
+  /** Gets the wallet keys to impersonate on an origin, if any. */
+  getWalletKeys: async (origin: string): Promise<string[]> => {
+    const state = await storage.get();
+    return state.origins[origin] || [];
+  },
+};
@@ -2,3 +2,9 @@ export * from './settingsStorage';
 export * from './walletsStorage';
 export * from './transactionsStorage';
 export * from './onboardingStorage';
+export * from './dappConnectionsStorage';
+export * from './impersonationStorage';
+export * from './faultInjectionStorage';
+export * from './sessionRecordingStorage';
+export * from './mintingPoliciesStorage';
+export * from './blueprintsStorage';
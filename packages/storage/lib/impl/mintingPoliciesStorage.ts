@@ -0,0 +1,61 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// Native script policy generated by the Mint tool from a wallet's payment key
+export interface MintingPolicy {
+  policyId: string;
+  walletId: string;
+  name: string;
+  script: string; // Native script CBOR hex
+  expirySlot: number | null; // Minting and burning are only possible before this slot
+  createdAt: number;
+}
+
+export interface MintingPoliciesState {
+  policies: MintingPolicy[];
+}
+
+const defaultState: MintingPoliciesState = {
+  policies: [],
+};
+
+export interface MintingPoliciesStorage extends BaseStorage<MintingPoliciesState> {
+  addPolicy: (policy: MintingPolicy) => Promise<void>;
+  removePolicy: (walletId: string, policyId: string) => Promise<void>;
+  getWalletPolicies: (walletId: string) => Promise<MintingPolicy[]>;
+}
+
+const storage = createStorage<MintingPoliciesState>('minting-policies-key', defaultState, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const mintingPoliciesStorage: MintingPoliciesStorage = {
+  ...storage,
+
+  /** Saves a policy; the same script generated again replaces the earlier entry. */
+  addPolicy: async (policy: MintingPolicy) => {
+    await storage.set(state => ({
+      ...state,
+      policies: [
+        ...state.policies.filter(p => p.walletId !== policy.walletId || p.policyId !== policy.policyId),
+        policy,
+      ],
+    }));
+  },
+
+  /** Forgets a policy. Tokens already minted under it are not affected. */
+  removePolicy: async (walletId: string, policyId: string) => {
+    await storage.set(state => ({
+      ...state,
+      policies: state.policies.filter(p => p.walletId !== walletId || p.policyId !== policyId),
+    }));
+  },
+
+  /** Gets the policies generated for a wallet. */
+  getWalletPolicies: async (walletId: string): Promise<MintingPolicy[]> => {
+    const state = await storage.get();
+    return state.policies.filter(p => p.walletId === walletId);
+  },
+};
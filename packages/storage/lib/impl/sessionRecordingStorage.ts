@@ -0,0 +1,115 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// A CIP-30 call as seen by the background: the bridge message payload and the response it got
+export interface RecordedCall {
+  method: string; // Bridge message type, e.g. CIP30_GET_UTXOS
+  origin: string;
+  args: unknown;
+  response: unknown;
+  recordedAt: number;
+}
+
+export interface SessionRecording {
+  id: string;
+  name: string;
+  createdAt: number;
+  calls: RecordedCall[];
+}
+
+export interface SessionRecordingState {
+  recordings: SessionRecording[];
+  recordingId: string | null; // Recording new calls are appended to
+  replayId: string | null; // Recording matching calls are answered from
+}
+
+const defaultState: SessionRecordingState = {
+  recordings: [],
+  recordingId: null,
+  replayId: null,
+};
+
+export interface SessionRecordingStorage extends BaseStorage<SessionRecordingState> {
+  startRecording: (name: string) => Promise<SessionRecording>;
+  stopRecording: () => Promise<void>;
+  addCall: (recordingId: string, call: RecordedCall) => Promise<void>;
+  importRecording: (data: unknown) => Promise<SessionRecording>;
+  removeRecording: (id: string) => Promise<void>;
+  setReplay: (id: string | null) => Promise<void>;
+}
+
+const storage = createStorage<SessionRecordingState>('session-recording-key', defaultState, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const sessionRecordingStorage: SessionRecordingStorage = {
+  ...storage,
+
+  /** Creates an empty recording and records calls into it. Stops any replay, so live responses get recorded. */
+  startRecording: async (name: string): Promise<SessionRecording> => {
+    const recording: SessionRecording = { id: crypto.randomUUID(), name, createdAt: Date.now(), calls: [] };
+    await storage.set(state => ({
+      ...state,
+      recordings: [...state.recordings, recording],
+      recordingId: recording.id,
+      replayId: null,
+    }));
+    return recording;
+  },
+
+  /** Stops recording calls. */
+  stopRecording: async () => {
+    await storage.set(state => ({ ...state, recordingId: null }));
+  },
+
+  /** Appends a call to a recording. */
+  addCall: async (recordingId: string, call: RecordedCall) => {
+    await storage.set(state => ({
+      ...state,
+      recordings: state.recordings.map(recording =>
+        recording.id === recordingId ? { ...recording, calls: [...recording.calls, call] } : recording,
+      ),
+    }));
+  },
+
+  /** Adds a recording from an exported file under a new id. Throws if it is not a recording or a call has no origin. */
+  importRecording: async (data: unknown): Promise<SessionRecording> => {
+    const imported = data as Partial<SessionRecording>;
+    if (
+      !imported ||
+      !Array.isArray(imported.calls) ||
+      imported.calls.some(call => typeof call?.method !== 'string' || !('response' in call))
+    ) {
+      throw new Error('File is not a CIP-30 session recording');
+    }
+    // Calls are only replayed to the origin they were recorded on
+    if (imported.calls.some(call => typeof call.origin !== 'string' || !call.origin)) {
+      throw new Error('Every recorded call needs the origin it was recorded on');
+    }
+
+    const recording: SessionRecording = {
+      id: crypto.randomUUID(),
+      name: typeof imported.name === 'string' ? imported.name : 'Imported recording',
+      createdAt: typeof imported.createdAt === 'number' ? imported.createdAt : Date.now(),
+      calls: imported.calls,
+    };
+    await storage.set(state => ({ ...state, recordings: [...state.recordings, recording] }));
+    return recording;
+  },
+
+  /** Removes a recording, stopping it first if it is being recorded or replayed. */
+  removeRecording: async (id: string) => {
+    await storage.set(state => ({
+      recordings: state.recordings.filter(recording => recording.id !== id),
+      recordingId: state.recordingId === id ? null : state.recordingId,
+      replayId: state.replayId === id ? null : state.replayId,
+    }));
+  },
+
+  /** Answers matching calls from a recording, or serves everything live again with null. Stops recording. */
+  setReplay: async (id: string | null) => {
+    await storage.set(state => ({ ...state, replayId: id, recordingId: id ? null : state.recordingId }));
+  },
+};
@@ -50,6 +50,13 @@ export interface Transaction {
   outputs?: TransactionOutput[];
 }
 
+// Script referenced by an output, as returned by the provider's scripts endpoint
+export interface ReferenceScript {
+  type: 'timelock' | 'plutusV1' | 'plutusV2' | 'plutusV3';
+  cbor: string | null; // Plutus scripts
+  json: unknown | null; // Native (timelock) scripts, in cardano-cli JSON form
+}
+
 export interface UTXO {
   address: string;
   tx_hash: string;
@@ -59,6 +66,7 @@ export interface UTXO {
   data_hash?: string | null;
   inline_datum?: string | null;
   reference_script_hash?: string | null;
+  reference_script?: ReferenceScript | null;
   isSpent: boolean;
   spentInTx?: string | null;
   isExternal?: boolean;
@@ -72,6 +80,7 @@ export interface TransactionRecord extends Transaction {
   walletId: string;
   lastSynced: number;
   isExternal?: boolean; // Mark transactions not directly related to wallet
+  pending?: boolean; // Submitted from the wallet but not yet seen on chain
 }
 
 export interface UTXORecord extends UTXO {
@@ -155,7 +164,7 @@ export const transactionsStorage = {
     });
   },
 
-  // Store multiple UTXOs
+  // Store multiple UTXOs, merged into the stored records so fields fetched separately (reference scripts) survive a resync
   async storeUTXOs(walletId: string, utxos: UTXO[]): Promise<void> {
     const now = Date.now();
 
@@ -164,6 +173,7 @@ export const transactionsStorage = {
         const key = `${utxo.tx_hash}:${utxo.output_index}`;
 
         data.utxos[key] = {
+          ...data.utxos[key],
           ...utxo,
           walletId,
           lastSynced: now,
@@ -173,6 +183,51 @@ export const transactionsStorage = {
     });
   },
 
+  // Attach a fetched reference script to every UTXO carrying its hash
+  async storeReferenceScript(scriptHash: string, script: ReferenceScript): Promise<void> {
+    await storage.set(data => {
+      Object.values(data.utxos).forEach(utxo => {
+        if (utxo.reference_script_hash === scriptHash) {
+          utxo.reference_script = script;
+        }
+      });
+      return data;
+    });
+  },
+
+  // Store a transaction submitted from the wallet until sync finds it on chain; its inputs count as spent meanwhile
+  async storePendingTransaction(walletId: string, transaction: Transaction): Promise<void> {
+    const now = Date.now();
+
+    await storage.set(data => {
+      data.transactions[transaction.hash] = { ...transaction, walletId, lastSynced: now, pending: true };
+      for (const input of transaction.inputs || []) {
+        const utxo = data.utxos[`${input.tx_hash}:${input.output_index}`];
+        if (utxo) {
+          utxo.isSpent = true;
+          utxo.spentInTx = transaction.hash;
+        }
+      }
+      return data;
+    });
+  },
+
+  // Drop a pending transaction that never made it on chain, making its inputs spendable again
+  async removePendingTransaction(txHash: string): Promise<void> {
+    await storage.set(data => {
+      if (!data.transactions[txHash]?.pending) return data;
+
+      delete data.transactions[txHash];
+      Object.values(data.utxos).forEach(utxo => {
+        if (utxo.spentInTx === txHash) {
+          utxo.isSpent = false;
+          utxo.spentInTx = null;
+        }
+      });
+      return data;
+    });
+  },
+
   // Mark UTXOs as spent
   async markUTXOsAsSpent(utxoKeys: string[], spentInTx: string): Promise<void> {
     await storage.set(data => {
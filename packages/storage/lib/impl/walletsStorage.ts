@@ -15,6 +15,7 @@ type WalletsStorage = BaseStorage<WalletsData> & {
   addWallet: (newWallet: Wallet) => Promise<void>;
   removeWallet: (walletId: string) => Promise<void>;
   updateWallet: (walletId: string, updatedFields: Partial<Wallet>) => Promise<void>;
+  toggleSelectedUtxo: (walletId: string, utxo: { txHash: string; outputIndex: number }) => Promise<void>;
   getActiveWallet: () => Promise<Wallet | null>;
   setActiveWallet: (walletId: string | null) => Promise<void>;
   getWallets: () => Promise<Wallet[]>; // Helper to get just the wallets array
@@ -87,6 +88,25 @@ export const walletsStorage: WalletsStorage = {
     }));
   },
 
+  /**
+   * Adds a UTXO to the wallet's coin control selection, or removes it if it is already selected.
+   */
+  toggleSelectedUtxo: async (walletId: string, utxo: { txHash: string; outputIndex: number }) => {
+    await storage.set(data => ({
+      wallets: data.wallets.map(w => {
+        if (w.id !== walletId) return w;
+        const selected = w.selectedUtxos || [];
+        const isSelected = selected.some(s => s.txHash === utxo.txHash && s.outputIndex === utxo.outputIndex);
+        return {
+          ...w,
+          selectedUtxos: isSelected
+            ? selected.filter(s => s.txHash !== utxo.txHash || s.outputIndex !== utxo.outputIndex)
+            : [...selected, utxo],
+        };
+      }),
+    }));
+  },
+
   /**
    * Gets the currently active wallet.
    * Returns null if no wallet is set as active or if the active wallet no longer exists.
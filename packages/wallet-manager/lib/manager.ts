@@ -11,6 +11,7 @@ export async function createNewWallet(
   address?: string,
   stakeAddress?: string,
   rootKey?: string,
+  publicKeys?: { stake: string; drep: string },
 ): Promise<Wallet> {
   // Seed phrase, address and stakeAddress should be provided by the background script
   if (!seedPhrase || !address || !stakeAddress) {
@@ -29,6 +30,7 @@ export async function createNewWallet(
     hasPassword: !!password,
     seedPhrase: password ? await encrypt(seedPhrase, password) : seedPhrase,
     rootKey: rootKey ? (password ? await encrypt(rootKey, password) : rootKey) : null,
+    publicKeys: publicKeys || null,
   };
   return wallet;
 }
@@ -41,6 +43,7 @@ export async function importWallet(
   derivedAddress?: string,
   stakeAddress?: string,
   rootKey?: string,
+  publicKeys?: { stake: string; drep: string },
 ): Promise<Wallet> {
   // Address and stake address should be provided by the background script after validation
   if (!derivedAddress || !stakeAddress) {
@@ -59,6 +62,7 @@ export async function importWallet(
     hasPassword: !!password,
     seedPhrase: password ? await encrypt(seedPhrase, password) : seedPhrase,
     rootKey: rootKey ? (password ? await encrypt(rootKey, password) : rootKey) : null,
+    publicKeys: publicKeys || null,
   };
   return wallet;
 }
@@ -16,6 +16,8 @@ const bytesToHex = (bytes: Uint8Array): string => {
     .join('');
 };
 
+export type CborKind = 'utxo' | 'value' | 'transaction' | 'witnessSet';
+
 export class CBORConverter {
   private initialized = false;
 
@@ -33,6 +35,184 @@ export class CBORConverter {
     }
   }
 
+  /**
+   * Build a WASM Value from Blockfrost-style amounts (lovelace plus policy id + asset name units)
+   */
+  private buildValue(amounts: { unit: string; quantity: string }[]) {
+    const wasm = CardanoLoader.Cardano;
+
+    const adaAmount = amounts.find(a => a.unit === 'lovelace');
+    const value = wasm.Value.new(wasm.BigNum.from_str(adaAmount?.quantity || '0'));
+
+    // Add multi-assets if any
+    const nonAdaAssets = amounts.filter(a => a.unit !== 'lovelace');
+    if (nonAdaAssets.length > 0) {
+      const multiAsset = wasm.MultiAsset.new();
+
+      // Group assets by policy ID
+      const assetsByPolicy = new Map<string, Array<{ name: string; quantity: string }>>();
+
+      nonAdaAssets.forEach(asset => {
+        if (asset.unit.length >= 56) {
+          // Valid policy ID + asset name
+          const policyId = asset.unit.slice(0, 56);
+          const assetName = asset.unit.slice(56);
+
+          if (!assetsByPolicy.has(policyId)) {
+            assetsByPolicy.set(policyId, []);
+          }
+          assetsByPolicy.get(policyId)!.push({
+            name: assetName,
+            quantity: asset.quantity,
+          });
+        }
+      });
+
+      // Add each policy and its assets
+      assetsByPolicy.forEach((assets, policyId) => {
+        const scriptHash = wasm.ScriptHash.from_hex(policyId);
+        const assetsMap = wasm.Assets.new();
+
+        assets.forEach(asset => {
+          const assetName = wasm.AssetName.new(hexToBytes(asset.name));
+          const assetValue = wasm.BigNum.from_str(asset.quantity);
+          assetsMap.insert(assetName, assetValue);
+        });
+
+        multiAsset.insert(scriptHash, assetsMap);
+      });
+
+      value.set_multiasset(multiAsset);
+    }
+
+    return value;
+  }
+
+  /**
+   * Build a native script from its cardano-cli JSON form (sig, all, any, atLeast, before, after)
+   */
+  private buildNativeScript(json: any): any {
+    const wasm = CardanoLoader.Cardano;
+
+    const buildScripts = (scripts: any[]) => {
+      const nativeScripts = wasm.NativeScripts.new();
+      scripts.forEach(script => nativeScripts.add(this.buildNativeScript(script)));
+      return nativeScripts;
+    };
+
+    switch (json.type) {
+      case 'sig':
+        return wasm.NativeScript.new_script_pubkey(wasm.ScriptPubkey.new(wasm.Ed25519KeyHash.from_hex(json.keyHash)));
+      case 'all':
+        return wasm.NativeScript.new_script_all(wasm.ScriptAll.new(buildScripts(json.scripts)));
+      case 'any':
+        return wasm.NativeScript.new_script_any(wasm.ScriptAny.new(buildScripts(json.scripts)));
+      case 'atLeast':
+        return wasm.NativeScript.new_script_n_of_k(wasm.ScriptNOfK.new(json.required, buildScripts(json.scripts)));
+      case 'before':
+        return wasm.NativeScript.new_timelock_expiry(
+          wasm.TimelockExpiry.new_timelockexpiry(wasm.BigNum.from_str(String(json.slot))),
+        );
+      case 'after':
+        return wasm.NativeScript.new_timelock_start(
+          wasm.TimelockStart.new_timelockstart(wasm.BigNum.from_str(String(json.slot))),
+        );
+      default:
+        throw new Error(`Unsupported native script type: ${json.type}`);
+    }
+  }
+
+  /**
+   * Build the ScriptRef of an output from the stored reference script, checking it against the output's script hash
+   */
+  private buildScriptRef(script: { type: string; cbor: string | null; json: unknown }, scriptHash?: string | null) {
+    const wasm = CardanoLoader.Cardano;
+
+    let scriptRef;
+    let hash: string;
+    if (script.type === 'timelock') {
+      const nativeScript = this.buildNativeScript(script.json);
+      scriptRef = wasm.ScriptRef.new_native_script(nativeScript);
+      hash = nativeScript.hash().to_hex();
+    } else {
+      const language =
+        script.type === 'plutusV1'
+          ? wasm.Language.new_plutus_v1()
+          : script.type === 'plutusV2'
+            ? wasm.Language.new_plutus_v2()
+            : wasm.Language.new_plutus_v3();
+      const plutusScript = wasm.PlutusScript.from_hex_with_version(script.cbor!, language);
+      scriptRef = wasm.ScriptRef.new_plutus_script(plutusScript);
+      hash = plutusScript.hash().to_hex();
+    }
+
+    if (scriptHash && hash !== scriptHash) {
+      throw new Error(`Reference script hash mismatch: expected ${scriptHash}, got ${hash}`);
+    }
+    return scriptRef;
+  }
+
+  /**
+   * Encode Blockfrost-style amounts as a CBOR Value (coin, or [coin, multiasset] when tokens are present)
+   */
+  encodeValue(amounts: { unit: string; quantity: string }[]): string {
+    if (!this.initialized) {
+      throw new Error('CBOR Converter not initialized');
+    }
+
+    return bytesToHex(this.buildValue(amounts).to_bytes());
+  }
+
+  /**
+   * Decode a CBOR Value (a bare coin or [coin, multiasset]) into Blockfrost-style amounts
+   */
+  decodeValue(cborHex: string): { unit: string; quantity: string }[] {
+    if (!this.initialized) {
+      throw new Error('CBOR Converter not initialized');
+    }
+
+    const wasm = CardanoLoader.Cardano;
+    const value = wasm.Value.from_hex(cborHex);
+    const amounts = [{ unit: 'lovelace', quantity: value.coin().to_str() }];
+
+    const multiAsset = value.multiasset();
+    if (multiAsset) {
+      const policies = multiAsset.keys();
+      for (let i = 0; i < policies.len(); i++) {
+        const policyId = policies.get(i);
+        const assets = multiAsset.get(policyId);
+        const assetNames = assets.keys();
+        for (let j = 0; j < assetNames.len(); j++) {
+          const assetName = assetNames.get(j);
+          amounts.push({
+            unit: policyId.to_hex() + bytesToHex(assetName.name()),
+            quantity: assets.get(assetName).to_str(),
+          });
+        }
+      }
+    }
+
+    return amounts;
+  }
+
+  /**
+   * Decode CBOR into CSL's JSON form so it can be read in the DevTools inspector
+   */
+  decodeToJson(kind: CborKind, cborHex: string): unknown {
+    if (!this.initialized) {
+      throw new Error('CBOR Converter not initialized');
+    }
+
+    const wasm = CardanoLoader.Cardano;
+    const decoders = {
+      utxo: wasm.TransactionUnspentOutput,
+      value: wasm.Value,
+      transaction: wasm.Transaction,
+      witnessSet: wasm.TransactionWitnessSet,
+    };
+    return JSON.parse(decoders[kind].from_hex(cborHex).to_json());
+  }
+
   /**
    * Convert UTXORecord to TransactionUnspentOutput CBOR
    * TransactionUnspentOutput = [input, output]
@@ -55,50 +235,7 @@ export class CBORConverter {
         const address = wasm.Address.from_bech32(utxo.address);
 
         // Build the value (ADA + assets)
-        const adaAmount = utxo.amount.find((a: any) => a.unit === 'lovelace');
-        const lovelaceValue = wasm.BigNum.from_str(adaAmount?.quantity || '0');
-        const value = wasm.Value.new(lovelaceValue);
-
-        // Add multi-assets if any
-        const nonAdaAssets = utxo.amount.filter((a: any) => a.unit !== 'lovelace');
-        if (nonAdaAssets.length > 0) {
-          const multiAsset = wasm.MultiAsset.new();
-
-          // Group assets by policy ID
-          const assetsByPolicy = new Map<string, Array<{ name: string; quantity: string }>>();
-
-          nonAdaAssets.forEach((asset: any) => {
-            if (asset.unit.length >= 56) {
-              // Valid policy ID + asset name
-              const policyId = asset.unit.slice(0, 56);
-              const assetName = asset.unit.slice(56);
-
-              if (!assetsByPolicy.has(policyId)) {
-                assetsByPolicy.set(policyId, []);
-              }
-              assetsByPolicy.get(policyId)!.push({
-                name: assetName,
-                quantity: asset.quantity,
-              });
-            }
-          });
-
-          // Add each policy and its assets
-          assetsByPolicy.forEach((assets, policyId) => {
-            const scriptHash = wasm.ScriptHash.from_hex(policyId);
-            const assetsMap = wasm.Assets.new();
-
-            assets.forEach(asset => {
-              const assetName = wasm.AssetName.new(hexToBytes(asset.name));
-              const assetValue = wasm.BigNum.from_str(asset.quantity);
-              assetsMap.insert(assetName, assetValue);
-            });
-
-            multiAsset.insert(scriptHash, assetsMap);
-          });
-
-          value.set_multiasset(multiAsset);
-        }
+        const value = this.buildValue(utxo.amount);
 
         // Create the transaction output
         const output = wasm.TransactionOutput.new(address, value);
@@ -112,11 +249,11 @@ export class CBORConverter {
           output.set_data_hash(dataHash);
         }
 
-        // Handle reference script if present
-        if (utxo.reference_script_hash) {
-          // Note: We would need the full script, not just the hash
-          // For now, we'll skip this as Blockfrost doesn't provide the full script
-          console.warn('Reference script present but cannot be included without full script data');
+        // Handle reference script if present (fetched by the background from the provider)
+        if (utxo.reference_script) {
+          output.set_script_ref(this.buildScriptRef(utxo.reference_script, utxo.reference_script_hash));
+        } else if (utxo.reference_script_hash) {
+          console.warn('Reference script present but its script data is missing:', utxo.reference_script_hash);
         }
 
         // Create TransactionUnspentOutput [input, output]
@@ -1,17 +1,57 @@
 import { Messaging } from '@extension/shared';
+import { impersonationStorage, IMPERSONATABLE_WALLETS } from '@extension/storage';
 import { cborConverter } from './cbor-converter';
+import { clearTraffic, getTraffic, getTrafficWallet, recordTraffic } from './traffic';
 
-// CIP30 Injection
-const injectScript = () => {
+// Impersonation keys for this origin, mirrored into the page's localStorage: chrome.storage cannot be read
+// synchronously, and the inject script has to register every provider before the dApp looks for wallets
+const IMPERSONATION_CACHE_KEY = 'devx-wallet-impersonation';
+
+const readCachedImpersonation = (): string[] => {
+  try {
+    const keys = JSON.parse(localStorage.getItem(IMPERSONATION_CACHE_KEY) || '[]');
+    return Array.isArray(keys) ? keys : [];
+  } catch {
+    // Storage is blocked on this page (sandboxed frame, opaque origin)
+    return [];
+  }
+};
+
+const cacheImpersonation = (keys: string[]) => {
+  try {
+    if (keys.length > 0) {
+      localStorage.setItem(IMPERSONATION_CACHE_KEY, JSON.stringify(keys));
+    } else {
+      localStorage.removeItem(IMPERSONATION_CACHE_KEY);
+    }
+  } catch {
+    // Storage is blocked on this page; impersonation is unavailable there
+  }
+};
+
+// CIP30 Injection; wallets to impersonate on this origin are handed over through the script's dataset
+const injectScript = (impersonate: string[]) => {
   const script = document.createElement('script');
   script.async = false;
   script.src = chrome.runtime.getURL('inject/index.iife.js');
+  script.dataset.impersonate = JSON.stringify(
+    IMPERSONATABLE_WALLETS.filter(wallet => impersonate.includes(wallet.key)),
+  );
   script.onload = script.remove;
   (document.head || document.documentElement).appendChild(script);
 };
 
 console.log('Injecting CIP30 connector');
-injectScript();
+injectScript(readCachedImpersonation());
+
+// Keep the mirror current, so settings saved in the popup apply from the next page load
+const refreshImpersonationCache = () =>
+  impersonationStorage
+    .getWalletKeys(window.location.origin)
+    .then(cacheImpersonation)
+    .catch(error => console.error('Failed to read impersonation settings:', error));
+refreshImpersonationCache();
+impersonationStorage.subscribe(refreshImpersonationCache);
 
 console.log('Creating CIP30 listener');
 const app = Messaging.createBackgroundController();
@@ -31,13 +71,42 @@ window.addEventListener('message', async event => {
   if (event.data.type !== 'DEVX_CIP30_REQUEST') return;
 
   const { messageId, message } = event.data;
+  // Kept as the dApp sent them for the DevTools inspector, since CBOR arguments are decoded in place below
+  const args = structuredClone(message.payload);
+  const startedAt = Date.now();
+  const wallet = await getTrafficWallet();
 
   try {
+    // getUtxos(amount) sends a CBOR Value; the background works with decoded amounts
+    if (message.type === 'CIP30_GET_UTXOS' && message.payload?.amount) {
+      await cborConverter.initialize();
+      try {
+        message.payload.amount = cborConverter.decodeValue(message.payload.amount);
+      } catch {
+        throw new Error(`Invalid CBOR Value for amount: ${message.payload.amount}`);
+      }
+    }
+
+    // getCollateral({ amount }) sends a CBOR Coin, which is also a valid coin-only Value
+    if (message.type === 'CIP30_GET_COLLATERAL' && message.payload?.amount) {
+      await cborConverter.initialize();
+      try {
+        message.payload.amount = cborConverter.decodeValue(message.payload.amount)[0].quantity;
+      } catch {
+        throw new Error(`Invalid CBOR Coin for amount: ${message.payload.amount}`);
+      }
+    }
+
     // Forward message to background script
     const response = await chrome.runtime.sendMessage(message);
 
     // Handle UTXO responses with CBOR encoding
-    if (message.type === 'CIP30_GET_UTXOS' && response.success && response.utxos && Array.isArray(response.utxos)) {
+    if (
+      (message.type === 'CIP30_GET_UTXOS' || message.type === 'CIP30_GET_COLLATERAL') &&
+      response.success &&
+      response.utxos &&
+      Array.isArray(response.utxos)
+    ) {
       try {
         console.log('Content Script: Converting UTXOs to CBOR');
         const cborUtxos = cborConverter.convertUtxosToCbor(response.utxos);
@@ -49,6 +118,12 @@ window.addEventListener('message', async event => {
       }
     }
 
+    // Balance is returned as a CBOR Value
+    if (message.type === 'CIP30_GET_BALANCE' && response.success && Array.isArray(response.balance)) {
+      await cborConverter.initialize();
+      response.balance = cborConverter.encodeValue(response.balance);
+    }
+
     // Send response back to inject script
     window.postMessage(
       {
@@ -58,22 +133,50 @@ window.addEventListener('message', async event => {
       },
       '*',
     );
+    recordTraffic(message.type, args, response, startedAt, wallet);
   } catch (error) {
+    const response = {
+      success: false,
+      error: {
+        code: -1,
+        info: error instanceof Error ? error.message : 'Communication failed',
+      },
+    };
+
     // Send error response back to inject script
     window.postMessage(
       {
         type: 'DEVX_CIP30_RESPONSE',
         messageId: messageId,
-        response: {
-          success: false,
-          error: {
-            code: -1,
-            info: error instanceof Error ? error.message : 'Communication failed',
-          },
-        },
+        response: response,
       },
       '*',
     );
+    recordTraffic(message.type, args, response, startedAt, wallet);
+  }
+});
+
+// Relay CIP-30 events (account/network changes) from the background to the inject script
+chrome.runtime.onMessage.addListener(message => {
+  if (message?.type !== 'CIP30_EVENT') return;
+
+  window.postMessage(
+    {
+      type: 'DEVX_CIP30_EVENT',
+      event: message.payload.event,
+      data: message.payload.data,
+    },
+    '*',
+  );
+});
+
+// The DevTools inspector reads calls made before it was opened and can clear them
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (message?.type === 'CIP30_TRAFFIC_GET') {
+    sendResponse(getTraffic());
+  } else if (message?.type === 'CIP30_TRAFFIC_CLEAR') {
+    clearTraffic();
+    sendResponse(true);
   }
 });
 
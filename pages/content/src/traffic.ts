@@ -0,0 +1,100 @@
+// Log of the CIP-30 calls this tab made through the bridge, read by the DevTools inspector panel
+import { walletsStorage } from '@extension/storage';
+import type { TrafficEntry } from '@extension/shared';
+import { cborConverter } from './cbor-converter';
+import type { CborKind } from './cbor-converter';
+
+const MAX_ENTRIES = 500;
+
+const entries: TrafficEntry[] = [];
+
+// CBOR carried by each method, by argument and by response field
+const CBOR_ARGS: Record<string, { field: string; kind: CborKind }> = {
+  CIP30_GET_UTXOS: { field: 'amount', kind: 'value' },
+  CIP30_GET_COLLATERAL: { field: 'amount', kind: 'value' },
+  CIP30_SIGN_TX: { field: 'tx', kind: 'transaction' },
+  CIP30_SUBMIT_TX: { field: 'tx', kind: 'transaction' },
+};
+
+const CBOR_RESULTS: Record<string, { field: string; kind: CborKind }> = {
+  CIP30_GET_UTXOS: { field: 'utxos', kind: 'utxo' },
+  CIP30_GET_COLLATERAL: { field: 'utxos', kind: 'utxo' },
+  CIP30_GET_BALANCE: { field: 'balance', kind: 'value' },
+  CIP30_SIGN_TX: { field: 'witnessSet', kind: 'witnessSet' },
+};
+
+// Falls back to the raw value when it cannot be decoded, so a malformed argument still shows up
+const decodeField = (source: any, cbor: { field: string; kind: CborKind } | undefined) => {
+  const value = source?.[cbor?.field || ''];
+  if (!cbor || value === undefined || value === null) return undefined;
+
+  try {
+    return Array.isArray(value)
+      ? value.map(item => cborConverter.decodeToJson(cbor.kind, item))
+      : cborConverter.decodeToJson(cbor.kind, value);
+  } catch (error) {
+    return { undecodable: value, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * The wallet the background answers a call with, read before the call is forwarded: the user may switch
+ * wallets while a signing request waits for approval.
+ */
+export const getTrafficWallet = async (): Promise<TrafficEntry['wallet']> => {
+  try {
+    const wallet = await walletsStorage.getActiveWallet();
+    return wallet ? { id: wallet.id, name: wallet.name } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Records a finished CIP-30 call. Arguments must be the ones the dApp sent, before the bridge decodes them.
+ */
+export async function recordTraffic(
+  method: string,
+  args: unknown,
+  response: any,
+  startedAt: number,
+  wallet: TrafficEntry['wallet'],
+): Promise<TrafficEntry> {
+  const durationMs = Date.now() - startedAt;
+
+  await cborConverter.initialize().catch(() => undefined);
+  const entry: TrafficEntry = {
+    id: crypto.randomUUID(),
+    method,
+    origin: window.location.origin,
+    args,
+    response,
+    error: response?.success ? null : response?.error,
+    decoded: {
+      args: decodeField(args, CBOR_ARGS[method]),
+      result: response?.success ? decodeField(response, CBOR_RESULTS[method]) : undefined,
+    },
+    wallet,
+    startedAt,
+    durationMs,
+  };
+
+  entries.push(entry);
+  if (entries.length > MAX_ENTRIES) entries.shift();
+
+  // Open inspector panels pick up new calls live; nobody listening is not an error
+  chrome.runtime.sendMessage({ type: 'CIP30_TRAFFIC_ENTRY', payload: entry }).catch(() => undefined);
+  return entry;
+}
+
+/**
+ * Calls recorded since this page loaded, oldest first
+ */
+export const getTraffic = (): TrafficEntry[] => [...entries];
+
+/**
+ * Forgets all recorded calls
+ */
+export const clearTraffic = () => {
+  entries.length = 0;
+};
@@ -1,44 +1,164 @@
-import '@src/Panel.css';
-import { withErrorBoundary, withSuspense } from '@extension/shared';
+import { useEffect, useState } from 'react';
+import { getCip30MethodName, withErrorBoundary, withSuspense } from '@extension/shared';
+import type { TrafficEntry } from '@extension/shared';
 import { useStorage, settingsStorage } from '@extension/storage';
-import type { ComponentPropsWithoutRef } from 'react';
 
-const Panel = () => {
-  const settings = useStorage(settingsStorage);
-  const isLight = settings?.theme === 'light';
-  const logo = isLight ? 'devtools-panel/logo_horizontal.svg' : 'devtools-panel/logo_horizontal_dark.svg';
+const tabId = chrome.devtools.inspectedWindow.tabId;
 
-  const goGithubSite = () =>
-    chrome.tabs.create({ url: 'https://github.com/Jonghakseo/chrome-extension-boilerplate-react-vite' });
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour12: false });
 
+const JsonBlock = ({ title, value }: { title: string; value: unknown }) => {
+  if (value === undefined) return null;
   return (
-    <div className={`App ${isLight ? 'bg-slate-50' : 'bg-gray-800'}`}>
-      <header className={`App-header ${isLight ? 'text-gray-900' : 'text-gray-100'}`}>
-        <button onClick={goGithubSite}>
-          <img src={chrome.runtime.getURL(logo)} className="App-logo" alt="logo" />
-        </button>
-        <p>
-          Edit <code>pages/devtools-panel/src/Panel.tsx</code>
-        </p>
-        <ToggleButton>Toggle theme</ToggleButton>
-      </header>
+    <div className="mb-3">
+      <h3 className="mb-1 text-xs font-semibold uppercase text-gray-500">{title}</h3>
+      <pre className="overflow-x-auto whitespace-pre-wrap break-all rounded bg-black/5 p-2 text-xs dark:bg-white/5">
+        {JSON.stringify(value, null, 2)}
+      </pre>
     </div>
   );
 };
 
-const ToggleButton = (props: ComponentPropsWithoutRef<'button'>) => {
+const Panel = () => {
   const settings = useStorage(settingsStorage);
+  const isLight = settings?.theme === 'light';
+
+  const [entries, setEntries] = useState<TrafficEntry[]>([]);
+  const [methodFilter, setMethodFilter] = useState('*');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Calls made before the panel opened come from the tab's bridge, new ones arrive as they finish
+  useEffect(() => {
+    chrome.tabs
+      .sendMessage(tabId, { type: 'CIP30_TRAFFIC_GET' })
+      // A call finishing while the panel opens arrives both ways
+      .then((recorded: TrafficEntry[]) =>
+        setEntries(current => [
+          ...(recorded || []).filter(entry => !current.some(live => live.id === entry.id)),
+          ...current,
+        ]),
+      )
+      .catch(() => undefined);
+
+    const handleMessage = (message: any, sender: chrome.runtime.MessageSender) => {
+      if (message?.type !== 'CIP30_TRAFFIC_ENTRY' || sender.tab?.id !== tabId) return;
+      setEntries(current => [...current, message.payload]);
+    };
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
+  }, []);
+
+  const methods = Array.from(new Set(entries.map(entry => entry.method)));
+  const visibleEntries = entries.filter(entry => methodFilter === '*' || entry.method === methodFilter);
+  const selected = entries.find(entry => entry.id === selectedId);
+
+  const handleClear = () => {
+    chrome.tabs.sendMessage(tabId, { type: 'CIP30_TRAFFIC_CLEAR' }).catch(() => undefined);
+    setEntries([]);
+    setSelectedId(null);
+  };
+
+  const handleExport = () => {
+    const session = { exportedAt: new Date().toISOString(), tabId, entries };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `devx-cip30-session-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const buttonClassName =
+    'rounded border border-gray-300 px-2 py-0.5 hover:bg-gray-200 disabled:opacity-50 dark:border-gray-600 dark:hover:bg-gray-700';
+
   return (
-    <button
-      className={
-        props.className +
-        ' ' +
-        'font-bold mt-4 py-1 px-4 rounded shadow hover:scale-105 ' +
-        (settings?.theme === 'light' ? 'bg-white text-black' : 'bg-black text-white')
-      }
-      onClick={settingsStorage.toggleTheme}>
-      {props.children}
-    </button>
+    <div
+      className={`flex h-screen flex-col text-xs ${isLight ? 'bg-slate-50 text-gray-900' : 'dark bg-gray-800 text-gray-100'}`}>
+      <div className="flex items-center space-x-2 border-b border-gray-300 p-2 dark:border-gray-600">
+        <select
+          className="rounded border border-gray-300 bg-transparent px-1 py-0.5 dark:border-gray-600"
+          value={methodFilter}
+          onChange={e => setMethodFilter(e.target.value)}>
+          <option value="*">All methods</option>
+          {methods.map(method => (
+            <option key={method} value={method}>
+              {getCip30MethodName(method)}
+            </option>
+          ))}
+        </select>
+        <span className="grow text-gray-500">
+          {visibleEntries.length} of {entries.length} calls
+        </span>
+        <button type="button" className={buttonClassName} onClick={handleClear} disabled={entries.length === 0}>
+          Clear
+        </button>
+        <button type="button" className={buttonClassName} onClick={handleExport} disabled={entries.length === 0}>
+          Export JSON
+        </button>
+      </div>
+
+      <div className="flex min-h-0 grow">
+        <div className="w-1/2 overflow-y-auto border-r border-gray-300 dark:border-gray-600">
+          {visibleEntries.length === 0 ? (
+            <p className="p-4 text-center text-gray-500">No CIP-30 calls recorded for this tab yet.</p>
+          ) : (
+            <table className="w-full table-fixed">
+              <thead className="sticky top-0 bg-slate-50 text-left dark:bg-gray-800 text-gray-500">
+                <tr>
+                  <th className="w-20 p-1">Time</th>
+                  <th className="p-1">Method</th>
+                  <th className="w-16 p-1">Status</th>
+                  <th className="w-16 p-1 text-right">Duration</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEntries.map(entry => (
+                  <tr
+                    key={entry.id}
+                    onClick={() => setSelectedId(entry.id)}
+                    className={`cursor-pointer border-t border-gray-200 dark:border-gray-700 ${
+                      entry.id === selectedId
+                        ? 'bg-blue-100 dark:bg-blue-900'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}>
+                    <td className="p-1 font-mono">{formatTime(entry.startedAt)}</td>
+                    <td className="truncate p-1 font-mono">{getCip30MethodName(entry.method)}</td>
+                    <td className={`p-1 ${entry.error ? 'text-red-500' : 'text-green-600'}`}>
+                      {entry.error ? 'error' : 'ok'}
+                    </td>
+                    <td className="p-1 text-right font-mono">{entry.durationMs} ms</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="w-1/2 overflow-y-auto p-2">
+          {selected ? (
+            <>
+              <h2 className="mb-1 font-mono text-sm font-semibold">{getCip30MethodName(selected.method)}</h2>
+              <p className="mb-3 text-gray-500">
+                {selected.origin} · {new Date(selected.startedAt).toLocaleString()} · {selected.durationMs} ms ·{' '}
+                {selected.wallet?.name || 'No wallet'}
+              </p>
+              <JsonBlock title="Arguments" value={selected.args ?? null} />
+              <JsonBlock title="Decoded arguments" value={selected.decoded.args} />
+              {selected.error ? (
+                <JsonBlock title="Error" value={selected.error} />
+              ) : (
+                <>
+                  <JsonBlock title="Response" value={selected.response} />
+                  <JsonBlock title="Decoded result" value={selected.decoded.result} />
+                </>
+              )}
+            </>
+          ) : (
+            <p className="p-4 text-center text-gray-500">Select a call to see its details.</p>
+          )}
+        </div>
+      </div>
+    </div>
   );
 };
 
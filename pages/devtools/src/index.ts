@@ -1,6 +1,6 @@
 try {
-  console.log("Edit 'pages/devtools/src/index.ts' and save to reload.");
-  chrome.devtools.panels.create('Dev Tools', '/icon-34.png', '/devtools-panel/index.html');
+  // CIP-30 inspector for the inspected tab
+  chrome.devtools.panels.create('DevX CIP-30', '/icon-34.png', '/devtools-panel/index.html');
 } catch (e) {
   console.error(e);
 }
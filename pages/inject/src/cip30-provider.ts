@@ -1,24 +1,58 @@
 // CIP-30 Provider Implementation for DevX Wallet
 
-type Paginate = {} | undefined;
+type Paginate = { page: number; limit: number } | undefined;
+
+type Extension = { cip: number };
+
+type WalletEvent = 'accountChange' | 'networkChange';
+type WalletEventCallback = (data: any) => void;
+
+// Requests that wait for the user in an approval popup get more time than plain queries
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
 
 interface CIP30API {
-  enable(): Promise<WalletAPI>;
+  enable(options?: { extensions?: Extension[] }): Promise<WalletAPI>;
   isEnabled(): Promise<boolean>;
   name: string;
   icon: string;
   apiVersion: string;
+  supportedExtensions: Extension[];
 }
 
 interface WalletAPI {
+  getExtensions(): Promise<Extension[]>;
   getNetworkId(): Promise<number>;
   getUtxos(amount?: string, paginate?: Paginate): Promise<string[] | null>;
+  getCollateral(params?: { amount?: string }): Promise<string[] | null>;
   getBalance(): Promise<string>;
   getName(): Promise<string>;
   getUsedAddresses(paginate?: Paginate): Promise<string[]>;
   getUnusedAddresses(paginate?: Paginate): Promise<string[]>;
   getRewardAddresses(): Promise<string[]>;
   getChangeAddress(): Promise<string>;
+  signTx(tx: string, partialSign?: boolean): Promise<string>;
+  signData(addr: string, payload: string): Promise<DataSignature>;
+  submitTx(tx: string): Promise<string>;
+  experimental: {
+    on(event: WalletEvent, callback: WalletEventCallback): void;
+    off(event: WalletEvent, callback: WalletEventCallback): void;
+    getCollateral(params?: { amount?: string }): Promise<string[] | null>;
+  };
+  cip95?: CIP95API;
+}
+
+// CIP-95 governance namespace, present when the dApp enabled { cip: 95 }
+interface CIP95API {
+  signTx(tx: string, partialSign?: boolean): Promise<string>;
+  signData(addr: string, payload: string): Promise<DataSignature>;
+  getPubDRepKey(): Promise<string>;
+  getRegisteredPubStakeKeys(): Promise<string[]>;
+  getUnregisteredPubStakeKeys(): Promise<string[]>;
+}
+
+interface DataSignature {
+  signature: string; // cbor<COSE_Sign1>
+  key: string; // cbor<COSE_Key>
 }
 
 interface APIError {
@@ -26,15 +60,51 @@ interface APIError {
   info: string;
 }
 
+// Errors reported by the wallet are passed on as thrown; bridge failures (timeouts etc.) get the fallback
+const toAPIError = (error: unknown, fallback: { code: number; info: string }): APIError | PaginateError =>
+  error instanceof APIError || error instanceof PaginateError ? error : new APIError(fallback.code, fallback.info);
+
+// List endpoints answer out-of-range pages with { maxSize } instead of { code, info }
+const toResponseError = (error: any): APIError | PaginateError =>
+  typeof error?.maxSize === 'number' ? new PaginateError(error.maxSize) : new APIError(error.code, error.info);
+
+// dApp callbacks for wallet events, fed by DEVX_CIP30_EVENT messages from the content script
+const eventListeners: Record<WalletEvent, Set<WalletEventCallback>> = {
+  accountChange: new Set(),
+  networkChange: new Set(),
+};
+
+window.addEventListener('message', event => {
+  if (event.source !== window || event.data?.type !== 'DEVX_CIP30_EVENT') return;
+
+  const listeners = eventListeners[event.data.event as WalletEvent];
+  listeners?.forEach(callback => {
+    try {
+      callback(event.data.data);
+    } catch (error) {
+      console.error(`DevX CIP-30: ${event.data.event} listener failed:`, error);
+    }
+  });
+});
+
+const DEVX_ICON =
+  'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIiIGhlaWdodD0iMzIiIHZpZXdCb3g9IjAgMCAzMiAzMiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3Qgd2lkdGg9IjMyIiBoZWlnaHQ9IjMyIiByeD0iOCIgZmlsbD0iIzM5OTZGRiIvPgo8cGF0aCBkPSJNOCAxNkMxMSAxMyAxNSAxMyAxOCAxNkMyMSAxOSAyMSAyMyAxOCAyNkMxNSAyOSAxMSAyOSA4IDI2QzUgMjMgNSAxOSA4IDE2WiIgZmlsbD0id2hpdGUiLz4KPC9zdmc+'; // DevX logo
+
 class DevXCIP30Provider implements CIP30API {
-  public readonly name = 'DevX';
-  public readonly icon =
-    'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIiIGhlaWdodD0iMzIiIHZpZXdCb3g9IjAgMCAzMiAzMiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3Qgd2lkdGg9IjMyIiBoZWlnaHQ9IjMyIiByeD0iOCIgZmlsbD0iIzM5OTZGRiIvPgo8cGF0aCBkPSJNOCAxNkMxMSAxMyAxNSAxMyAxOCAxNkMyMSAxOSAyMSAyMyAxOCAyNkMxNSAyOSAxMSAyOSA4IDI2QzUgMjMgNSAxOSA4IDE2WiIgZmlsbD0id2hpdGUiLz4KPC9zdmc+'; // DevX logo
+  public readonly name: string;
+  public readonly icon: string;
   public readonly apiVersion = '0.1.0';
+  public readonly supportedExtensions: Extension[] = [{ cip: 95 }];
 
   private walletAPI: WalletAPI | null = null;
 
-  async enable(): Promise<WalletAPI> {
+  // Impersonating providers report another wallet's name (and icon, when known)
+  constructor(identity?: { name: string; icon?: string }) {
+    this.name = identity?.name || 'DevX';
+    this.icon = identity?.icon || DEVX_ICON;
+  }
+
+  async enable(options?: { extensions?: Extension[] }): Promise<WalletAPI> {
     try {
       // Send message to background script to show permission popup
       const response = await this.sendMessage({
@@ -42,22 +112,23 @@ class DevXCIP30Provider implements CIP30API {
         payload: {
           origin: window.location.origin,
           walletName: this.name,
+          extensions: options?.extensions || [],
         },
       });
 
-      if (response.success) {
-        // Create and return the wallet API instance
-        this.walletAPI = new DevXWalletAPI();
+      if (response.success && response.approved) {
+        // Create and return the wallet API instance with the extensions the wallet enabled
+        const extensions: Extension[] = (response.extensions || []).map((cip: number) => ({ cip }));
+        this.walletAPI = new DevXWalletAPI(extensions);
         return this.walletAPI;
+      } else if (response.success) {
+        throw new APIError(-3, 'User rejected the connection request');
       } else {
         throw new APIError(response.error.code, response.error.info);
       }
     } catch (error) {
       console.error('DevX CIP-30: Enable failed:', error);
-      throw {
-        code: -1,
-        info: 'Failed to enable wallet connection',
-      } as APIError;
+      throw toAPIError(error, { code: -1, info: 'Failed to enable wallet connection' });
     }
   }
 
@@ -113,6 +184,36 @@ class DevXCIP30Provider implements CIP30API {
 }
 
 class DevXWalletAPI implements WalletAPI {
+  public readonly cip95?: CIP95API;
+
+  constructor(private readonly extensions: Extension[] = []) {
+    if (extensions.some(extension => extension.cip === 95)) {
+      this.cip95 = {
+        signTx: (tx, partialSign) => this.signTx(tx, partialSign),
+        signData: (addr, payload) => this.signData(addr, payload),
+        getPubDRepKey: () => this.getPubDRepKey(),
+        getRegisteredPubStakeKeys: () => this.getPubStakeKeys('CIP95_GET_REGISTERED_PUB_STAKE_KEYS'),
+        getUnregisteredPubStakeKeys: () => this.getPubStakeKeys('CIP95_GET_UNREGISTERED_PUB_STAKE_KEYS'),
+      };
+    }
+  }
+
+  async getExtensions(): Promise<Extension[]> {
+    return [...this.extensions];
+  }
+
+  // api.experimental.on/off('accountChange' | 'networkChange', callback) and getCollateral
+  public readonly experimental = {
+    on: (event: WalletEvent, callback: WalletEventCallback) => {
+      eventListeners[event]?.add(callback);
+    },
+    off: (event: WalletEvent, callback: WalletEventCallback) => {
+      eventListeners[event]?.delete(callback);
+    },
+    // Older dApps look for getCollateral under experimental
+    getCollateral: (params?: { amount?: string }) => this.getCollateral(params),
+  };
+
   async getNetworkId(): Promise<number> {
     try {
       const response = await this.sendMessage({
@@ -128,27 +229,16 @@ class DevXWalletAPI implements WalletAPI {
       }
     } catch (error) {
       console.error('DevX CIP-30: getNetworkId failed:', error);
-      throw {
-        code: -2,
-        info: 'Failed to get network ID',
-      } as APIError;
+      throw toAPIError(error, { code: -2, info: 'Failed to get network ID' });
     }
   }
 
   async getUtxos(amount?: string, paginate?: Paginate): Promise<string[] | null> {
     try {
-      // Decode CBOR amount if provided
-      let decodedAmount: string | undefined;
-      if (amount) {
-        // Simple CBOR decoding for integer values (reverse of our encoding in getBalance)
-        // This is a simplified decoder - in a real implementation you'd use a proper CBOR library
-        decodedAmount = this.decodeCborAmount(amount);
-      }
-
       const response = await this.sendMessage({
         type: 'CIP30_GET_UTXOS',
         payload: {
-          amount: decodedAmount,
+          amount, // cbor<value>, decoded by the content script
           paginate,
         },
       });
@@ -162,39 +252,35 @@ class DevXWalletAPI implements WalletAPI {
         // UTXOs are already converted to CBOR by the content script
         return response.utxos || [];
       } else {
-        throw new APIError(response.error.code, response.error.info);
+        throw toResponseError(response.error);
       }
     } catch (error) {
       console.error('DevX CIP-30: getUtxos failed:', error);
       console.error('DevX CIP-30: getUtxos error details:', error instanceof Error ? error.message : error);
-      throw {
-        code: -3,
-        info: 'Failed to get UTXOs',
-      } as APIError;
+      throw toAPIError(error, { code: -3, info: 'Failed to get UTXOs' });
     }
   }
 
-  // Simple CBOR amount decoder (reverse of encoding in getBalance)
-  private decodeCborAmount(cborHex: string): string {
-    // This is a simplified decoder for demonstration
-    // In practice, you'd use a proper CBOR library
-    if (cborHex === '00') return '0';
-
-    const firstByte = parseInt(cborHex.slice(0, 2), 16);
-
-    if (firstByte <= 23) {
-      return firstByte.toString();
-    } else if (firstByte === 0x18) {
-      return parseInt(cborHex.slice(2, 4), 16).toString();
-    } else if (firstByte === 0x19) {
-      return parseInt(cborHex.slice(2, 6), 16).toString();
-    } else if (firstByte === 0x1a) {
-      return parseInt(cborHex.slice(2, 10), 16).toString();
-    } else if (firstByte === 0x1b) {
-      return BigInt('0x' + cborHex.slice(2, 18)).toString();
-    }
+  // api.getCollateral(params: { amount: cbor<Coin> }): Promise<TransactionUnspentOutput[] | null>
+  async getCollateral(params?: { amount?: string }): Promise<string[] | null> {
+    try {
+      const response = await this.sendMessage({
+        type: 'CIP30_GET_COLLATERAL',
+        payload: {
+          amount: params?.amount, // cbor<Coin>, decoded by the content script
+        },
+      });
 
-    throw new Error('Unsupported CBOR encoding');
+      if (response.success) {
+        // null when no pure-ADA UTXO covers the amount
+        return response.utxos;
+      } else {
+        throw new APIError(response.error.code, response.error.info);
+      }
+    } catch (error) {
+      console.error('DevX CIP-30: getCollateral failed:', error);
+      throw toAPIError(error, { code: -2, info: 'Failed to get collateral' });
+    }
   }
 
   async getBalance(): Promise<string> {
@@ -204,38 +290,14 @@ class DevXWalletAPI implements WalletAPI {
       });
 
       if (response.success) {
-        // Convert balance from lovelace string to CBOR
-        const balanceLovelace = response.balance; // This is a string of lovelaces
-
-        // Simple CBOR encoding for integer without WASM
-        // CBOR major type 0 (unsigned integer)
-        const balance = BigInt(balanceLovelace);
-
-        if (balance === BigInt(0)) {
-          return '00'; // CBOR encoding of 0
-        } else if (balance <= BigInt(23)) {
-          return balance.toString(16).padStart(2, '0'); // Direct encoding
-        } else if (balance <= BigInt(255)) {
-          return '18' + balance.toString(16).padStart(2, '0'); // 1-byte integer
-        } else if (balance <= BigInt(65535)) {
-          const hex = balance.toString(16).padStart(4, '0');
-          return '19' + hex; // 2-byte integer
-        } else if (balance <= BigInt(4294967295)) {
-          const hex = balance.toString(16).padStart(8, '0');
-          return '1a' + hex; // 4-byte integer
-        } else {
-          const hex = balance.toString(16).padStart(16, '0');
-          return '1b' + hex; // 8-byte integer
-        }
+        // cbor<value>, encoded by the content script
+        return response.balance;
       } else {
         throw new APIError(response.error.code, response.error.info);
       }
     } catch (error) {
       console.error('DevX CIP-30: getBalance failed:', error);
-      throw {
-        code: -4,
-        info: 'Failed to get balance',
-      } as APIError;
+      throw toAPIError(error, { code: -4, info: 'Failed to get balance' });
     }
   }
 
@@ -252,64 +314,45 @@ class DevXWalletAPI implements WalletAPI {
       }
     } catch (error) {
       console.error('DevX CIP-30: getName failed:', error);
-      throw {
-        code: -5,
-        info: 'Failed to get wallet name',
-      } as APIError;
+      throw toAPIError(error, { code: -5, info: 'Failed to get wallet name' });
     }
   }
 
   // api.getUsedAddresses(paginate: Paginate = undefined): Promise<Address[]>
-  // ignore Paginate
   async getUsedAddresses(paginate: Paginate = undefined): Promise<string[]> {
-    // handle Paginate not undefined
-    if (paginate) {
-      console.warn('DevX CIP-30: getUsedAddresses called without pagination, returning all addresses');
-    }
-
     try {
       const response = await this.sendMessage({
         type: 'CIP30_GET_USED_ADDRESSES',
+        payload: { paginate },
       });
 
       if (response.success) {
         return response.addresses || [];
       } else {
-        throw new APIError(response.error.code, response.error.info);
+        throw toResponseError(response.error);
       }
     } catch (error) {
       console.error('DevX CIP-30: getUsedAddresses failed:', error);
-      throw {
-        code: -7,
-        info: 'Failed to get used addresses',
-      } as APIError;
+      throw toAPIError(error, { code: -7, info: 'Failed to get used addresses' });
     }
   }
 
   // api.getUnusedAddresses(paginate: Paginate = undefined): Promise<Address[]>
-  // ignore Paginate
   async getUnusedAddresses(paginate: Paginate = undefined): Promise<string[]> {
-    // handle Paginate not undefined
-    if (paginate) {
-      console.warn('DevX CIP-30: getUnusedAddresses called with pagination, returning all addresses');
-    }
-
     try {
       const response = await this.sendMessage({
         type: 'CIP30_GET_UNUSED_ADDRESSES',
+        payload: { paginate },
       });
 
       if (response.success) {
         return response.addresses || [];
       } else {
-        throw new APIError(response.error.code, response.error.info);
+        throw toResponseError(response.error);
       }
     } catch (error) {
       console.error('DevX CIP-30: getUnusedAddresses failed:', error);
-      throw {
-        code: -7,
-        info: 'Failed to get unused addresses',
-      } as APIError;
+      throw toAPIError(error, { code: -7, info: 'Failed to get unused addresses' });
     }
   }
 
@@ -326,10 +369,7 @@ class DevXWalletAPI implements WalletAPI {
       }
     } catch (error) {
       console.error('DevX CIP-30: getRewardAddresses failed:', error);
-      throw {
-        code: -6,
-        info: 'Failed to get reward addresses',
-      } as APIError;
+      throw toAPIError(error, { code: -6, info: 'Failed to get reward addresses' });
     }
   }
 
@@ -346,14 +386,111 @@ class DevXWalletAPI implements WalletAPI {
       }
     } catch (error) {
       console.error('DevX CIP-30: getChangeAddress failed:', error);
-      throw {
-        code: -8,
-        info: 'Failed to get change address',
-      } as APIError;
+      throw toAPIError(error, { code: -8, info: 'Failed to get change address' });
     }
   }
 
-  private async sendMessage(message: any): Promise<any> {
+  // api.signTx(tx: cbor<transaction>, partialSign: bool = false): Promise<cbor<transaction_witness_set>>
+  async signTx(tx: string, partialSign: boolean = false): Promise<string> {
+    let response: any;
+    try {
+      response = await this.sendMessage(
+        {
+          type: 'CIP30_SIGN_TX',
+          payload: { tx, partialSign },
+        },
+        APPROVAL_TIMEOUT_MS,
+      );
+    } catch (error) {
+      console.error('DevX CIP-30: signTx failed:', error);
+      throw toAPIError(error, { code: -2, info: 'Failed to sign transaction' });
+    }
+
+    if (!response.success) {
+      // TxSignError (declined, missing keys) keeps its code and info
+      throw toResponseError(response.error);
+    }
+    return response.witnessSet;
+  }
+
+  // api.signData(addr: Address, payload: Bytes): Promise<DataSignature>
+  async signData(addr: string, payload: string): Promise<DataSignature> {
+    let response: any;
+    try {
+      response = await this.sendMessage(
+        {
+          type: 'CIP30_SIGN_DATA',
+          payload: { address: addr, payload },
+        },
+        APPROVAL_TIMEOUT_MS,
+      );
+    } catch (error) {
+      console.error('DevX CIP-30: signData failed:', error);
+      throw toAPIError(error, { code: -2, info: 'Failed to sign data' });
+    }
+
+    if (!response.success) {
+      // DataSignError (declined, address not owned or not a key address) keeps its code and info
+      throw toResponseError(response.error);
+    }
+    return response.signature;
+  }
+
+  // api.submitTx(tx: cbor<transaction>): Promise<hash32>
+  async submitTx(tx: string): Promise<string> {
+    let response: any;
+    try {
+      response = await this.sendMessage({
+        type: 'CIP30_SUBMIT_TX',
+        payload: { tx },
+      });
+    } catch (error) {
+      console.error('DevX CIP-30: submitTx failed:', error);
+      throw toAPIError(error, { code: 2, info: 'Failed to submit transaction' });
+    }
+
+    if (!response.success) {
+      // TxSendError keeps the ledger's rejection reason in info
+      throw toResponseError(response.error);
+    }
+    return response.txHash;
+  }
+
+  // cip95.getPubDRepKey(): Promise<PublicKey>
+  private async getPubDRepKey(): Promise<string> {
+    try {
+      const response = await this.sendMessage({
+        type: 'CIP95_GET_PUB_DREP_KEY',
+      });
+
+      if (response.success) {
+        return response.key;
+      } else {
+        throw new APIError(response.error.code, response.error.info);
+      }
+    } catch (error) {
+      console.error('DevX CIP-95: getPubDRepKey failed:', error);
+      throw toAPIError(error, { code: -2, info: 'Failed to get DRep key' });
+    }
+  }
+
+  // cip95.getRegisteredPubStakeKeys() / getUnregisteredPubStakeKeys(): Promise<PublicKey[]>
+  private async getPubStakeKeys(type: string): Promise<string[]> {
+    try {
+      const response = await this.sendMessage({ type });
+
+      if (response.success) {
+        return response.keys || [];
+      } else {
+        throw new APIError(response.error.code, response.error.info);
+      }
+    } catch (error) {
+      console.error('DevX CIP-95: getting stake keys failed:', error);
+      throw toAPIError(error, { code: -2, info: 'Failed to get stake keys' });
+    }
+  }
+
+  private async sendMessage(message: any, timeout: number = 30000): Promise<any> {
     return new Promise((resolve, reject) => {
       // Generate unique ID for this message
       const messageId = `devx_${Date.now()}_${Math.random()}`;
@@ -379,17 +516,17 @@ class DevXWalletAPI implements WalletAPI {
         '*',
       );
 
-      // Timeout after 30 seconds
+      // Timeout after 30 seconds unless the caller waits for an approval
       setTimeout(() => {
         window.removeEventListener('message', handleResponse);
         reject(new Error('CIP-30 request timeout'));
-      }, 30000);
+      }, timeout);
     });
   }
 }
 
-export function createDevXCIP30Provider(): CIP30API {
-  return new DevXCIP30Provider();
+export function createDevXCIP30Provider(identity?: { name: string; icon?: string }): CIP30API {
+  return new DevXCIP30Provider(identity);
 }
 
 // Type definitions for error handling
@@ -402,3 +539,10 @@ class APIError extends Error {
     this.name = 'APIError';
   }
 }
+
+class PaginateError extends Error {
+  constructor(public maxSize: number) {
+    super(`Page out of range, maxSize is ${maxSize}`);
+    this.name = 'PaginateError';
+  }
+}
@@ -10,10 +10,24 @@ declare global {
 
 console.log('DevX Wallet: Injecting CIP-30 provider...');
 console.log('runtime exists:', !!chrome.runtime);
+
+// Wallets to pose as on this origin, configured in the extension and passed in by the content script
+const impersonate: { key: string; name: string; icon: string }[] = JSON.parse(
+  (document.currentScript as HTMLScriptElement | null)?.dataset.impersonate || '[]',
+);
+
+const providers: Record<string, ReturnType<typeof createDevXCIP30Provider>> = {
+  devx: createDevXCIP30Provider(),
+};
+impersonate.forEach(({ key, name, icon }) => {
+  providers[key] = createDevXCIP30Provider({ name, icon });
+  console.log(`DevX Wallet: Impersonating window.cardano.${key}`);
+});
+
 // Inject DevX CIP-30 compliant wallet provider
 window.cardano = {
   ...(window.cardano || {}),
-  devx: createDevXCIP30Provider(),
+  ...providers,
 };
 
 console.log('DevX Wallet: CIP-30 provider injected successfully');
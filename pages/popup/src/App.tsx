@@ -14,10 +14,24 @@ import AssetsView from './wallet/AssetsView';
 import TransactionsView from './wallet/TransactionsView';
 import UTXOsViewWrapper from './wallet/UTXOsViewWrapper';
 import UTXODetail from './wallet/UTXODetail';
+import Send from './wallet/Send';
+import Split from './wallet/Split';
+import Consolidate from './wallet/Consolidate';
+import Staking from './wallet/Staking';
+import Governance from './wallet/Governance';
+import Mint from './wallet/Mint';
+import Contracts from './wallet/Contracts';
 import Settings from './Settings';
 import SpoofedWalletInfo from './info/SpoofedWalletInfo';
 import DAppPermission from './cip30/DAppPermission';
+import SignTx from './cip30/SignTx';
+import SignData from './cip30/SignData';
+import ConnectedSites from './cip30/ConnectedSites';
+import Impersonation from './cip30/Impersonation';
+import FaultInjection from './cip30/FaultInjection';
+import SessionRecordings from './cip30/SessionRecordings';
 import NoWallets from './components/NoWallets';
+import { migratePublicKeys } from './utils/walletOperations';
 
 // Onboarding Pages
 import Welcome from './onboarding/Welcome';
@@ -47,8 +61,14 @@ function NavigationHandler() {
   useEffect(() => {
     const handleMessage = (message: any) => {
       if (message.type === 'NAVIGATE_TO_PERMISSION') {
-        const { origin, tabId } = message.payload;
-        navigate(`/dapp-permission?origin=${encodeURIComponent(origin)}&tabId=${tabId}`);
+        const { origin, tabId, extensions = [] } = message.payload;
+        navigate(
+          `/dapp-permission?origin=${encodeURIComponent(origin)}&tabId=${tabId}&extensions=${extensions.join(',')}`,
+        );
+      } else if (message.type === 'NAVIGATE_TO_SIGN_TX') {
+        navigate(`/sign-tx?requestId=${encodeURIComponent(message.payload.requestId)}`);
+      } else if (message.type === 'NAVIGATE_TO_SIGN_DATA') {
+        navigate(`/sign-data?requestId=${encodeURIComponent(message.payload.requestId)}`);
       }
     };
 
@@ -56,6 +76,17 @@ function NavigationHandler() {
     return () => chrome.runtime.onMessage.removeListener(handleMessage);
   }, [navigate]);
 
+  // The navigation message can go out before this popup is listening, so a waiting signing request is also asked for
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'CIP30_GET_PENDING_SIGN_REQUEST' }).then(response => {
+      const pending: { requestId: string; method: 'signTx' | 'signData' } | null = response?.request;
+      if (pending) {
+        const route = pending.method === 'signTx' ? '/sign-tx' : '/sign-data';
+        navigate(`${route}?requestId=${encodeURIComponent(pending.requestId)}`);
+      }
+    });
+  }, []);
+
   return null;
 }
 
@@ -132,6 +163,11 @@ function App() {
     }
   }, [hasWallets, settings?.activeWalletId, wallets]);
 
+  // Derive the CIP-95 public keys of wallets created before they were stored
+  useEffect(() => {
+    migratePublicKeys(wallets).catch(error => console.error('Failed to derive wallet public keys:', error));
+  }, [wallets.length]);
+
   // Use the active wallet from settings, or fall back to the first wallet
   const activeWalletId = settings?.activeWalletId;
   const defaultWalletId = (() => {
@@ -184,17 +220,30 @@ function App() {
             {/* Sub-Pages (Settings) */}
             <Route element={<SubPageLayout />}>
               <Route path="/settings" element={<Settings />} />
+              <Route path="/connected-sites" element={<ConnectedSites />} />
+              <Route path="/impersonation" element={<Impersonation />} />
+              <Route path="/fault-injection" element={<FaultInjection />} />
+              <Route path="/session-recordings" element={<SessionRecordings />} />
               <Route path="/wallet-settings/:walletId" element={<WalletSettings />} />
               <Route path="/spoofed-info" element={<SpoofedWalletInfo />} />
               <Route path="/no-wallets" element={<NoWallets />} />
             </Route>
 
-            {/* CIP-30 Permission Popup (no layout) */}
+            {/* CIP-30 Approval Popups (no layout) */}
             <Route path="/dapp-permission" element={<DAppPermission />} />
+            <Route path="/sign-tx" element={<SignTx />} />
+            <Route path="/sign-data" element={<SignData />} />
 
             {/* UTXO Detail Page (without MainLayout) */}
             <Route element={<SubPageLayout />}>
               <Route path="/wallet/:walletId/utxo/:txHash/:outputIndex" element={<UTXODetail />} />
+              <Route path="/wallet/:walletId/send" element={<Send />} />
+              <Route path="/wallet/:walletId/split" element={<Split />} />
+              <Route path="/wallet/:walletId/consolidate" element={<Consolidate />} />
+              <Route path="/wallet/:walletId/staking" element={<Staking />} />
+              <Route path="/wallet/:walletId/governance" element={<Governance />} />
+              <Route path="/wallet/:walletId/mint" element={<Mint />} />
+              <Route path="/wallet/:walletId/contracts" element={<Contracts />} />
             </Route>
 
             {/* Main Application */}
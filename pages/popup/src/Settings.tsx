@@ -4,7 +4,8 @@ import ThemeToggle from './components/themeToggle';
 import { settingsStorage, useStorage, walletsStorage, onboardingStorage } from '@extension/storage';
 import { CancelButton } from '@src/components/buttons';
 import FloatingLabelInput from './components/FloatingLabelInput';
-import { ChevronUpIcon, ChevronDownIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { ChevronUpIcon, ChevronDownIcon, ChevronRightIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Link } from 'react-router-dom';
 
 // --- Helper Functions (unchanged) ---
 const maskApiKey = (key: string): string => {
@@ -173,6 +174,35 @@ function Settings() {
         </div>
       </div>
 
+      {/* DApp Connections */}
+      <div>
+        <h2 className="mb-2 text-lg font-medium">DApps</h2>
+        <Link
+          to="/connected-sites"
+          className="flex items-center justify-between rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+          <span className="font-medium">Connected Sites</span>
+          <ChevronRightIcon className="size-5 text-gray-400" />
+        </Link>
+        <Link
+          to="/impersonation"
+          className="mt-2 flex items-center justify-between rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+          <span className="font-medium">Wallet Impersonation</span>
+          <ChevronRightIcon className="size-5 text-gray-400" />
+        </Link>
+        <Link
+          to="/fault-injection"
+          className="mt-2 flex items-center justify-between rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+          <span className="font-medium">Fault Injection</span>
+          <ChevronRightIcon className="size-5 text-gray-400" />
+        </Link>
+        <Link
+          to="/session-recordings"
+          className="mt-2 flex items-center justify-between rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+          <span className="font-medium">Session Recordings</span>
+          <ChevronRightIcon className="size-5 text-gray-400" />
+        </Link>
+      </div>
+
       {/* Blockfrost API Keys Section */}
       <div>
         <h2 className="mb-1 text-lg font-medium">Blockfrost API Keys</h2>
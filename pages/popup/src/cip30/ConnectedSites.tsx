@@ -0,0 +1,68 @@
+import { useStorage, dappConnectionsStorage, walletsStorage } from '@extension/storage';
+import { CancelButton } from '@src/components/buttons';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+const ConnectedSites = () => {
+  const connectionsState = useStorage(dappConnectionsStorage);
+  const walletsData = useStorage(walletsStorage);
+
+  const connections = Object.values(connectionsState?.connections || {}).sort((a, b) => b.timestamp - a.timestamp);
+  const getWalletName = (walletId: string) =>
+    walletsData?.wallets?.find(w => w.id === walletId)?.name || 'Deleted wallet';
+
+  const handleRevoke = async (origin: string) => {
+    await dappConnectionsStorage.revokeConnection(origin);
+  };
+
+  const handleRevokeAll = async () => {
+    if (confirm('Are you sure you want to disconnect all sites?')) {
+      await dappConnectionsStorage.revokeAllConnections();
+    }
+  };
+
+  if (connections.length === 0) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center text-center">
+        <p className="text-gray-500 dark:text-gray-400">No sites are connected.</p>
+        <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
+          Sites appear here once you approve their connection request.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex flex-col space-y-2">
+        {connections.map(connection => (
+          <div
+            key={connection.origin}
+            className="flex items-center justify-between rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+            <div className="min-w-0 grow">
+              <p className="truncate font-medium">{new URL(connection.origin).hostname}</p>
+              <p className="truncate text-xs text-gray-500 dark:text-gray-400">{connection.origin}</p>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {getWalletName(connection.walletId)} · {connection.network} ·{' '}
+                {new Date(connection.timestamp).toLocaleDateString()}
+                {connection.extensions?.length ? ` · ${connection.extensions.map(cip => `CIP-${cip}`).join(', ')}` : ''}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRevoke(connection.origin)}
+              className="ml-2 p-1"
+              title="Disconnect">
+              <TrashIcon className="size-5 text-gray-400 hover:text-red-500" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-center pt-2">
+        <CancelButton onClick={handleRevokeAll}>Disconnect All</CancelButton>
+      </div>
+    </div>
+  );
+};
+
+export default ConnectedSites;
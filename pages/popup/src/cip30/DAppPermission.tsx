@@ -11,6 +11,7 @@ const DAppPermission = () => {
   const origin = searchParams.get('origin');
   const walletName = searchParams.get('walletName') || 'DevX';
   const tabId = searchParams.get('tabId');
+  const extensions = (searchParams.get('extensions') || '').split(',').filter(Boolean).map(Number);
 
   const walletsData = useStorage(walletsStorage);
   const settings = useStorage(settingsStorage);
@@ -120,6 +121,7 @@ const DAppPermission = () => {
             <li>View wallet balance and addresses</li>
             <li>View transaction history</li>
             <li>Request transaction signatures</li>
+            {extensions.includes(95) && <li>Read your DRep and stake keys and request governance signatures</li>}
             {currentWallet.type === 'SPOOFED' && (
               <li className="font-medium text-red-600 dark:text-red-400">Note: Read-only wallet - no signing</li>
             )}
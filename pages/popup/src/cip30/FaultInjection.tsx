@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { useStorage, faultInjectionStorage } from '@extension/storage';
+import type { FaultRule, FaultType } from '@extension/storage';
+import {
+  APIErrorCode,
+  CIP30_METHODS,
+  DataSignErrorCode,
+  getCip30MethodName,
+  TxSendErrorCode,
+  TxSignErrorCode,
+} from '@extension/shared';
+import { CancelButton, PrimaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+interface ErrorPreset {
+  label: string;
+  code: number;
+}
+
+const API_ERRORS: ErrorPreset[] = [
+  { label: 'APIError: InvalidRequest', code: APIErrorCode.InvalidRequest },
+  { label: 'APIError: InternalError', code: APIErrorCode.InternalError },
+  { label: 'APIError: Refused', code: APIErrorCode.Refused },
+  { label: 'APIError: AccountChange', code: APIErrorCode.AccountChange },
+];
+
+// Methods with their own CIP-30 error types list those first
+const METHOD_ERRORS: Record<string, ErrorPreset[]> = {
+  CIP30_SIGN_TX: [
+    { label: 'TxSignError: ProofGeneration', code: TxSignErrorCode.ProofGeneration },
+    { label: 'TxSignError: UserDeclined', code: TxSignErrorCode.UserDeclined },
+  ],
+  CIP30_SIGN_DATA: [
+    { label: 'DataSignError: ProofGeneration', code: DataSignErrorCode.ProofGeneration },
+    { label: 'DataSignError: AddressNotPK', code: DataSignErrorCode.AddressNotPK },
+    { label: 'DataSignError: UserDeclined', code: DataSignErrorCode.UserDeclined },
+  ],
+  CIP30_SUBMIT_TX: [
+    { label: 'TxSendError: Refused', code: TxSendErrorCode.Refused },
+    { label: 'TxSendError: Failure', code: TxSendErrorCode.Failure },
+  ],
+};
+
+const getErrorPresets = (method: string) => [...(METHOD_ERRORS[method] || []), ...API_ERRORS];
+
+const getMethodName = (type: string) => (type === '*' ? 'All methods' : getCip30MethodName(type));
+
+const describeRule = (rule: FaultRule) => {
+  const parts: string[] = [];
+  if (rule.latencyMs > 0) parts.push(`+${rule.latencyMs} ms`);
+  if (rule.fault === 'timeout') parts.push('never answers');
+  if (rule.fault === 'error' && rule.error) parts.push(`error ${rule.error.code}: ${rule.error.info}`);
+  return parts.join(' · ') || 'No effect';
+};
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100';
+
+const FaultInjection = () => {
+  const faultState = useStorage(faultInjectionStorage);
+  const rules = faultState?.rules || [];
+
+  const [origin, setOrigin] = useState('*');
+  const [method, setMethod] = useState(CIP30_METHODS[0].type);
+  const [fault, setFault] = useState<FaultType>('error');
+  const [presetIndex, setPresetIndex] = useState(0);
+  const [info, setInfo] = useState('');
+  const [latencyMs, setLatencyMs] = useState('0');
+
+  const presets = getErrorPresets(method);
+
+  // Each method starts from its first error type
+  useEffect(() => {
+    setPresetIndex(0);
+  }, [method]);
+
+  const handleAdd = async () => {
+    const preset = presets[presetIndex];
+    await faultInjectionStorage.addRule({
+      id: crypto.randomUUID(),
+      origin: origin.trim() || '*',
+      method,
+      latencyMs: Math.max(0, parseInt(latencyMs) || 0),
+      fault,
+      error: fault === 'error' ? { code: preset.code, info: info.trim() || `Injected ${preset.label}` } : undefined,
+      enabled: true,
+    });
+    setInfo('');
+  };
+
+  const handleClearAll = async () => {
+    if (confirm('Remove all fault rules?')) {
+      await faultInjectionStorage.clearRules();
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Makes CIP-30 calls from dApps slow or fail on purpose. Use <code>*</code> as origin to match every site.
+      </p>
+
+      <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+        <FloatingLabelInput
+          name="faultOrigin"
+          label="Origin"
+          value={origin}
+          onChange={e => setOrigin(e.target.value)}
+        />
+
+        <select className={selectClassName} value={method} onChange={e => setMethod(e.target.value)}>
+          <option value="*">All methods</option>
+          {CIP30_METHODS.map(({ method: name, type }) => (
+            <option key={type} value={type}>
+              {name}
+            </option>
+          ))}
+        </select>
+
+        <select className={selectClassName} value={fault} onChange={e => setFault(e.target.value as FaultType)}>
+          <option value="none">Latency only</option>
+          <option value="error">Answer with an error</option>
+          <option value="timeout">Never answer (time out)</option>
+        </select>
+
+        {fault === 'error' && (
+          <>
+            <select
+              className={selectClassName}
+              value={presetIndex}
+              onChange={e => setPresetIndex(parseInt(e.target.value))}>
+              {presets.map((preset, index) => (
+                <option key={preset.label} value={index}>
+                  {preset.label} ({preset.code})
+                </option>
+              ))}
+            </select>
+            <FloatingLabelInput
+              name="faultInfo"
+              label="Error info (optional)"
+              value={info}
+              onChange={e => setInfo(e.target.value)}
+            />
+          </>
+        )}
+
+        <FloatingLabelInput
+          name="faultLatency"
+          label="Latency (ms)"
+          type="number"
+          value={latencyMs}
+          onChange={e => setLatencyMs(e.target.value)}
+        />
+
+        <PrimaryButton onClick={handleAdd}>Add Fault</PrimaryButton>
+      </div>
+
+      {rules.length > 0 && (
+        <div className="flex flex-col space-y-2">
+          {rules.map(rule => (
+            <div
+              key={rule.id}
+              className={`flex items-center justify-between rounded-lg bg-white p-4 shadow dark:bg-gray-700 ${
+                rule.enabled ? '' : 'opacity-50'
+              }`}>
+              <input
+                type="checkbox"
+                className="mr-3 size-4"
+                checked={rule.enabled}
+                onChange={() => faultInjectionStorage.updateRule(rule.id, { enabled: !rule.enabled })}
+                title={rule.enabled ? 'Disable' : 'Enable'}
+              />
+              <div className="min-w-0 grow">
+                <p className="truncate font-medium">{getMethodName(rule.method)}</p>
+                <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+                  {rule.origin === '*' ? 'All sites' : rule.origin}
+                </p>
+                <p className="truncate text-xs text-gray-500 dark:text-gray-400">{describeRule(rule)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => faultInjectionStorage.removeRule(rule.id)}
+                className="ml-2 p-1"
+                title="Remove">
+                <TrashIcon className="size-5 text-gray-400 hover:text-red-500" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex justify-center pt-2">
+            <CancelButton onClick={handleClearAll}>Remove All</CancelButton>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FaultInjection;
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { useStorage, impersonationStorage, IMPERSONATABLE_WALLETS } from '@extension/storage';
+import { PrimaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+const getWalletName = (key: string) => IMPERSONATABLE_WALLETS.find(wallet => wallet.key === key)?.name || key;
+
+const Impersonation = () => {
+  const impersonationState = useStorage(impersonationStorage);
+  const [origin, setOrigin] = useState('');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const rules = Object.entries(impersonationState?.origins || {});
+
+  // Start from the site open in the current tab
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => {
+      if (tab?.url?.startsWith('http')) {
+        setOrigin(new URL(tab.url).origin);
+      }
+    });
+  }, []);
+
+  // Editing an origin shows its current selection
+  useEffect(() => {
+    setSelectedKeys(impersonationState?.origins?.[origin] || []);
+  }, [origin, impersonationState]);
+
+  const toggleKey = (key: string) => {
+    setSelectedKeys(keys => (keys.includes(key) ? keys.filter(k => k !== key) : [...keys, key]));
+  };
+
+  const handleSave = async () => {
+    let normalizedOrigin: string;
+    try {
+      normalizedOrigin = new URL(origin).origin;
+    } catch {
+      setError('Enter a full origin, e.g. https://app.example.com');
+      return;
+    }
+    setError(null);
+    await impersonationStorage.setWalletKeys(normalizedOrigin, selectedKeys);
+    setOrigin(normalizedOrigin);
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Registers DevX under other wallets&apos; <code>window.cardano</code> keys on the chosen site, so dApps that only
+        list known wallets can be tested. Reload the site after saving; a site that was not open in a tab picks the
+        change up from its second load.
+      </p>
+
+      <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+        <FloatingLabelInput
+          name="impersonationOrigin"
+          label="Site origin"
+          value={origin}
+          onChange={e => setOrigin(e.target.value)}
+          error={error || undefined}
+        />
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        <div className="grid grid-cols-2 gap-2">
+          {IMPERSONATABLE_WALLETS.map(wallet => (
+            <label key={wallet.key} className="flex cursor-pointer items-center space-x-2">
+              <input
+                type="checkbox"
+                className="size-4"
+                checked={selectedKeys.includes(wallet.key)}
+                onChange={() => toggleKey(wallet.key)}
+              />
+              <img src={wallet.icon} alt="" className="size-4" />
+              <span className="text-sm">{wallet.name}</span>
+            </label>
+          ))}
+        </div>
+
+        <PrimaryButton onClick={handleSave} disabled={!origin}>
+          Save
+        </PrimaryButton>
+      </div>
+
+      {rules.length > 0 && (
+        <div className="flex flex-col space-y-2">
+          {rules.map(([ruleOrigin, keys]) => (
+            <div
+              key={ruleOrigin}
+              className="flex items-center justify-between rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+              <button type="button" className="min-w-0 grow text-left" onClick={() => setOrigin(ruleOrigin)}>
+                <p className="truncate font-medium">{new URL(ruleOrigin).hostname}</p>
+                <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+                  {keys.map(getWalletName).join(', ')}
+                </p>
+              </button>
+              <button
+                type="button"
+                onClick={() => impersonationStorage.removeOrigin(ruleOrigin)}
+                className="ml-2 p-1"
+                title="Stop impersonating">
+                <TrashIcon className="size-5 text-gray-400 hover:text-red-500" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Impersonation;
@@ -0,0 +1,123 @@
+import { useRef, useState } from 'react';
+import { useStorage, sessionRecordingStorage } from '@extension/storage';
+import type { SessionRecording } from '@extension/storage';
+import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { ArrowDownTrayIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+const exportRecording = (recording: SessionRecording) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${recording.name.replace(/[^a-z0-9-_]+/gi, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const SessionRecordings = () => {
+  const recordingState = useStorage(sessionRecordingStorage);
+  const recordings = recordingState?.recordings || [];
+  const recordingId = recordingState?.recordingId || null;
+  const replayId = recordingState?.replayId || null;
+
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleStart = async () => {
+    await sessionRecordingStorage.startRecording(name.trim() || `Session ${new Date().toLocaleString()}`);
+    setName('');
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      await sessionRecordingStorage.importRecording(JSON.parse(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof SyntaxError ? 'File is not valid JSON' : (err as Error).message);
+    }
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Records the wallet&apos;s answers to dApp CIP-30 calls. Replaying a recording answers the same calls from the
+        same site with the recorded responses instead of live wallet data, once the site is connected; calls it does not
+        contain are answered live. Fault injection rules apply to replayed answers too. Recording and replaying exclude
+        each other, so replayed answers are never recorded.
+      </p>
+
+      <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+        {recordingId ? (
+          <>
+            <p className="flex items-center text-sm font-medium">
+              <span className="mr-2 size-2 animate-pulse rounded-full bg-red-500" />
+              Recording {recordings.find(r => r.id === recordingId)?.name}
+            </p>
+            <PrimaryButton onClick={() => sessionRecordingStorage.stopRecording()}>Stop Recording</PrimaryButton>
+          </>
+        ) : (
+          <>
+            <FloatingLabelInput
+              name="recordingName"
+              label="Recording name (optional)"
+              value={name}
+              onChange={e => setName(e.target.value)}
+            />
+            <PrimaryButton onClick={handleStart}>Start Recording</PrimaryButton>
+          </>
+        )}
+        <SecondaryButton onClick={() => fileInput.current?.click()}>Import Recording</SecondaryButton>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => handleImport(e.target.files?.[0])}
+        />
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+
+      {recordings.length > 0 && (
+        <div className="flex flex-col space-y-2">
+          {recordings.map(recording => (
+            <div
+              key={recording.id}
+              className="flex items-center justify-between rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+              <input
+                type="checkbox"
+                className="mr-3 size-4"
+                checked={recording.id === replayId}
+                onChange={() => sessionRecordingStorage.setReplay(recording.id === replayId ? null : recording.id)}
+                title={recording.id === replayId ? 'Stop replaying' : 'Replay'}
+              />
+              <div className="min-w-0 grow">
+                <p className="truncate font-medium">{recording.name}</p>
+                <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+                  {recording.calls.length} call{recording.calls.length === 1 ? '' : 's'} ·{' '}
+                  {new Date(recording.createdAt).toLocaleString()}
+                  {recording.id === replayId ? ' · replaying' : ''}
+                  {recording.id === recordingId ? ' · recording' : ''}
+                </p>
+              </div>
+              <button type="button" onClick={() => exportRecording(recording)} className="ml-2 p-1" title="Export">
+                <ArrowDownTrayIcon className="size-5 text-gray-400 hover:text-blue-500" />
+              </button>
+              <button
+                type="button"
+                onClick={() => sessionRecordingStorage.removeRecording(recording.id)}
+                className="p-1"
+                title="Remove">
+                <TrashIcon className="size-5 text-gray-400 hover:text-red-500" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionRecordings;
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useStorage, walletsStorage } from '@extension/storage';
+import { APIErrorCode, DataSignErrorCode } from '@extension/shared';
+import type { Cip30Error } from '@extension/shared';
+import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { deriveSigningKeysFromMnemonic } from '@src/utils/crypto';
+import { hexToBytes } from '@src/utils/cose';
+import { getDataSigningRole, signData } from '@src/utils/signing';
+
+interface SignDataRequest {
+  origin: string;
+  walletId: string;
+  payload: { address: string; payload: string };
+}
+
+// Shows the payload as text when it is valid UTF-8
+const decodeUtf8 = (hex: string): string | null => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(hexToBytes(hex));
+  } catch {
+    return null;
+  }
+};
+
+const SignData = () => {
+  const [searchParams] = useSearchParams();
+  const requestId = searchParams.get('requestId');
+
+  const walletsData = useStorage(walletsStorage);
+  const [request, setRequest] = useState<SignDataRequest | null>(null);
+  const [role, setRole] = useState<'payment' | 'stake' | null>(null);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const wallet = walletsData?.wallets?.find(w => w.id === request?.walletId);
+
+  const respond = async (payload: Record<string, unknown>) => {
+    await chrome.runtime.sendMessage({
+      type: 'CIP30_SIGN_DATA_RESPONSE',
+      payload: { requestId, ...payload },
+    });
+    window.close();
+  };
+
+  useEffect(() => {
+    if (!requestId) {
+      window.close();
+      return;
+    }
+
+    // The background declines the request if this port closes before it is answered
+    const approvalPort = chrome.runtime.connect({ name: `CIP30_SIGN_APPROVAL:${requestId}` });
+
+    chrome.runtime.sendMessage({ type: 'CIP30_GET_SIGN_REQUEST', payload: { requestId } }).then(response => {
+      if (response?.success) {
+        setRequest(response.request);
+      } else {
+        setError(response?.error || 'Signing request not found');
+      }
+    });
+
+    return () => approvalPort.disconnect();
+  }, [requestId]);
+
+  // Requests for addresses this wallet cannot sign for are answered without asking the user
+  useEffect(() => {
+    if (!request || !wallet) return;
+
+    getDataSigningRole(request.payload.address, wallet)
+      .then(setRole)
+      .catch(roleError => {
+        console.error('Cannot sign data for address:', roleError);
+        const cip30Error: Cip30Error =
+          typeof roleError?.code === 'number'
+            ? roleError
+            : { code: APIErrorCode.InvalidRequest, info: 'Invalid address' };
+        respond({ approved: false, error: cip30Error });
+      });
+  }, [request, wallet]);
+
+  const handleApprove = async () => {
+    if (!request || !wallet || !role) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const secret = await chrome.runtime.sendMessage({
+        type: 'GET_DECRYPTED_SECRET',
+        payload: { id: wallet.id, password: wallet.hasPassword ? password : undefined },
+      });
+      if (!secret?.success) {
+        setError('Incorrect password');
+        return;
+      }
+
+      const keys = await deriveSigningKeysFromMnemonic(secret.secret);
+      const signature = await signData(request.payload.address, request.payload.payload, keys, role);
+      await respond({ approved: true, signature });
+    } catch (signError) {
+      console.error('Failed to sign data:', signError);
+      await respond({
+        approved: false,
+        error: {
+          code: DataSignErrorCode.ProofGeneration,
+          info: signError instanceof Error ? signError.message : 'Failed to sign data',
+        },
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReject = async () => {
+    setIsProcessing(true);
+    try {
+      await respond({ approved: false });
+    } catch (rejectError) {
+      console.error('Failed to reject signing request:', rejectError);
+      setIsProcessing(false);
+    }
+  };
+
+  if (!request || !wallet) {
+    return (
+      <div className="p-6 text-center">
+        <p className="text-gray-500">{error || 'Loading signing request...'}</p>
+      </div>
+    );
+  }
+
+  const utf8Payload = decodeUtf8(request.payload.payload);
+
+  return (
+    <div className="flex h-screen w-full flex-col bg-slate-50 text-black dark:bg-gray-800 dark:text-white">
+      <div className="flex-1 overflow-y-auto p-4">
+        <div className="mb-4 text-center">
+          <h1 className="mb-2 text-lg font-bold">Sign Data</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            <span className="font-semibold">{request.origin ? new URL(request.origin).hostname : 'A DApp'}</span>{' '}
+            requests your signature
+          </p>
+        </div>
+
+        <div className="mb-4 rounded-lg bg-gray-50 p-3 dark:bg-gray-700">
+          <h2 className="mb-2 text-sm font-semibold">Signing Details</h2>
+          <div className="space-y-1 text-xs">
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Wallet:</span>
+              <span className="ml-2 truncate font-medium">{wallet.name}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Key:</span>
+              <span className="font-medium">{role === 'stake' ? 'Stake key' : 'Payment key'}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-4 rounded-lg bg-gray-50 p-3 dark:bg-gray-700">
+          <h2 className="mb-2 text-sm font-semibold">Message</h2>
+          <p className="mb-2 whitespace-pre-wrap break-all text-xs">
+            {utf8Payload ?? <span className="italic text-gray-500">Payload is not valid UTF-8</span>}
+          </p>
+          <h2 className="mb-1 text-sm font-semibold">Hex</h2>
+          <p className="break-all font-mono text-xs text-gray-600 dark:text-gray-400">{request.payload.payload}</p>
+        </div>
+
+        {wallet.hasPassword && (
+          <div className="mb-4">
+            <FloatingLabelInput
+              name="signDataPassword"
+              label="Password"
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              error={!!error}
+            />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+
+      <div className="border-t border-gray-300 p-4 dark:border-gray-600">
+        <div className="flex space-x-3">
+          <SecondaryButton onClick={handleReject} disabled={isProcessing} className="flex-1">
+            Reject
+          </SecondaryButton>
+          <PrimaryButton
+            onClick={handleApprove}
+            disabled={isProcessing || !role || (wallet.hasPassword && !password)}
+            className="flex-1">
+            {isProcessing ? 'Signing...' : 'Sign'}
+          </PrimaryButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignData;
@@ -0,0 +1,409 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useStorage, walletsStorage } from '@extension/storage';
+import { TxSignErrorCode } from '@extension/shared';
+import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { deriveSigningKeysFromMnemonic } from '@src/utils/crypto';
+import { getTransactionInputs, signTransaction } from '@src/utils/signing';
+import type { ResolvedInput } from '@src/utils/signing';
+import { describeTransaction } from '@src/utils/txPreview';
+import type { AssetAmount, PreviewInput, PreviewOutput, TxPreview } from '@src/utils/txPreview';
+
+interface SignTxRequest {
+  origin: string;
+  walletId: string;
+  payload: { tx: string; partialSign: boolean };
+}
+
+const formatAda = (lovelace: string) => (Number(lovelace) / 1_000_000).toFixed(6);
+
+const shorten = (text: string, chars = 12) =>
+  text.length > chars * 2 + 3 ? `${text.slice(0, chars)}...${text.slice(-chars)}` : text;
+
+const decodeAssetName = (unit: string): string | null => {
+  const nameHex = unit.slice(56);
+  if (!nameHex) return null;
+  try {
+    const bytes = new Uint8Array(nameHex.match(/.{2}/g)!.map(byte => parseInt(byte, 16)));
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes).trim() || null;
+  } catch {
+    return null;
+  }
+};
+
+const formatAmount = ({ unit, quantity }: AssetAmount, signed = false) => {
+  const sign = signed && !quantity.startsWith('-') ? '+' : '';
+  if (unit === 'lovelace') return `${sign}${formatAda(quantity)} ADA`;
+  const name = decodeAssetName(unit) || shorten(unit.slice(56), 6) || 'token';
+  return `${sign}${quantity} ${name} (${shorten(unit.slice(0, 56), 6)})`;
+};
+
+// Collapsed by default, so the balance change stays the first thing to read
+const Section = ({ title, count, children }: { title: string; count: number; children: React.ReactNode }) => (
+  <details className="mb-2 rounded-lg bg-gray-50 p-3 dark:bg-gray-700">
+    <summary className="cursor-pointer text-sm font-semibold">
+      {title} <span className="font-normal text-gray-500 dark:text-gray-400">({count})</span>
+    </summary>
+    <div className="mt-2 space-y-2 text-xs">{children}</div>
+  </details>
+);
+
+const InputRow = ({ input }: { input: PreviewInput }) => (
+  <div className="border-t border-gray-200 pt-2 first:border-0 first:pt-0 dark:border-gray-600">
+    <div className="flex justify-between">
+      <span className="font-mono">
+        {shorten(input.txHash, 8)}#{input.outputIndex}
+      </span>
+      {!input.resolved ? (
+        <span className="rounded bg-gray-400 px-1 text-white">Unknown</span>
+      ) : input.own ? (
+        <span className="rounded bg-blue-500 px-1 text-white">Yours</span>
+      ) : (
+        <span className="rounded bg-amber-500 px-1 text-white">Not yours</span>
+      )}
+    </div>
+    {input.resolved && (
+      <>
+        <p className="truncate font-mono text-gray-500 dark:text-gray-400">{input.resolved.address}</p>
+        {input.resolved.amount.map(amount => (
+          <p key={amount.unit}>{formatAmount(amount)}</p>
+        ))}
+      </>
+    )}
+  </div>
+);
+
+const OutputRow = ({ output }: { output: PreviewOutput }) => (
+  <div className="border-t border-gray-200 pt-2 first:border-0 first:pt-0 dark:border-gray-600">
+    <div className="flex justify-between">
+      <span className="truncate font-mono" title={output.address}>
+        {shorten(output.address)}
+      </span>
+      {output.own && <span className="ml-2 rounded bg-blue-500 px-1 text-white">Yours</span>}
+    </div>
+    {output.amount.map(amount => (
+      <p key={amount.unit}>{formatAmount(amount)}</p>
+    ))}
+    {output.datum && (
+      <p className="truncate text-gray-500 dark:text-gray-400" title={output.datum.value}>
+        {output.datum.type === 'inline' ? 'Inline datum' : 'Datum hash'}: {shorten(output.datum.value, 8)}
+      </p>
+    )}
+    {output.hasReferenceScript && <p className="text-gray-500 dark:text-gray-400">Carries a reference script</p>}
+  </div>
+);
+
+const JsonView = ({ value }: { value: unknown }) => (
+  <pre className="overflow-x-auto whitespace-pre-wrap break-all rounded bg-white p-2 dark:bg-gray-800">
+    {JSON.stringify(value, null, 2)}
+  </pre>
+);
+
+const SignTx = () => {
+  const [searchParams] = useSearchParams();
+  const requestId = searchParams.get('requestId');
+
+  const walletsData = useStorage(walletsStorage);
+  const [request, setRequest] = useState<SignTxRequest | null>(null);
+  const [preview, setPreview] = useState<TxPreview | null>(null);
+  const [resolvedInputs, setResolvedInputs] = useState<(ResolvedInput | null)[]>([]);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const wallet = walletsData?.wallets?.find(w => w.id === request?.walletId);
+
+  useEffect(() => {
+    if (!requestId) {
+      window.close();
+      return;
+    }
+
+    // Open while this page shows the request; closing the popup drops it, which declines the request
+    const approvalPort = chrome.runtime.connect({ name: `CIP30_SIGN_APPROVAL:${requestId}` });
+
+    const loadRequest = async () => {
+      const response = await chrome.runtime.sendMessage({ type: 'CIP30_GET_SIGN_REQUEST', payload: { requestId } });
+      if (!response?.success) {
+        setError(response?.error || 'Signing request not found');
+        return;
+      }
+      const signRequest: SignTxRequest = response.request;
+      setRequest(signRequest);
+
+      try {
+        // Spent outputs tell us which payment keys are needed, and what the transaction takes from the wallet
+        const inputs = await getTransactionInputs(signRequest.payload.tx);
+        const resolved = await chrome.runtime.sendMessage({
+          type: 'RESOLVE_TX_INPUTS',
+          payload: { walletId: signRequest.walletId, inputs },
+        });
+        const outputs: (ResolvedInput | null)[] = resolved?.success ? resolved.outputs : [];
+        setResolvedInputs(outputs);
+
+        const signingWallet = (await walletsStorage.get()).wallets.find(w => w.id === signRequest.walletId);
+        if (signingWallet) {
+          setPreview(await describeTransaction(signRequest.payload.tx, inputs, outputs, signingWallet.address));
+        }
+      } catch (decodeError) {
+        console.error('Failed to decode transaction:', decodeError);
+        setError('Could not decode the transaction');
+      }
+    };
+
+    loadRequest();
+
+    return () => approvalPort.disconnect();
+  }, [requestId]);
+
+  const respond = async (payload: Record<string, unknown>) => {
+    await chrome.runtime.sendMessage({
+      type: 'CIP30_SIGN_TX_RESPONSE',
+      payload: { requestId, ...payload },
+    });
+    window.close();
+  };
+
+  const handleApprove = async () => {
+    if (!request || !wallet) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const secret = await chrome.runtime.sendMessage({
+        type: 'GET_DECRYPTED_SECRET',
+        payload: { id: wallet.id, password: wallet.hasPassword ? password : undefined },
+      });
+      if (!secret?.success) {
+        setError('Incorrect password');
+        return;
+      }
+
+      const keys = await deriveSigningKeysFromMnemonic(secret.secret);
+      const witnessSet = await signTransaction(request.payload.tx, keys, resolvedInputs, request.payload.partialSign);
+      await respond({ approved: true, witnessSet });
+    } catch (signError) {
+      console.error('Failed to sign transaction:', signError);
+      await respond({
+        approved: false,
+        error: {
+          code: TxSignErrorCode.ProofGeneration,
+          info: signError instanceof Error ? signError.message : 'Failed to sign transaction',
+        },
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReject = async () => {
+    setIsProcessing(true);
+    try {
+      await respond({ approved: false });
+    } catch (rejectError) {
+      console.error('Failed to reject signing request:', rejectError);
+      setIsProcessing(false);
+    }
+  };
+
+  if (!request || !wallet) {
+    return (
+      <div className="p-6 text-center">
+        <p className="text-gray-500">{error || 'Loading signing request...'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen w-full flex-col bg-slate-50 text-black dark:bg-gray-800 dark:text-white">
+      <div className="flex-1 overflow-y-auto p-4">
+        <div className="mb-4 text-center">
+          <h1 className="mb-2 text-lg font-bold">Sign Transaction</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            <span className="font-semibold">{request.origin ? new URL(request.origin).hostname : 'A DApp'}</span>{' '}
+            requests your signature
+          </p>
+        </div>
+
+        <div className="mb-4 rounded-lg bg-gray-50 p-3 dark:bg-gray-700">
+          <h2 className="mb-2 text-sm font-semibold">Transaction Details</h2>
+          <div className="space-y-1 text-xs">
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Wallet:</span>
+              <span className="ml-2 truncate font-medium">{wallet.name}</span>
+            </div>
+            {preview && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Fee:</span>
+                  <span className="font-medium">{formatAda(preview.fee)} ADA</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Size:</span>
+                  <span className="font-medium">{preview.size} bytes</span>
+                </div>
+                {(preview.validityStart || preview.ttl) && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Valid slots:</span>
+                    <span className="font-medium">
+                      {preview.validityStart || '-'} to {preview.ttl || '-'}
+                    </span>
+                  </div>
+                )}
+              </>
+            )}
+            {request.payload.partialSign && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Mode:</span>
+                <span className="font-medium">Partial signature</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {preview && (
+          <>
+            {(preview.foreignInputs > 0 || preview.unresolvedInputs > 0) && (
+              <div className="mb-4 rounded-lg border border-amber-400 bg-amber-50 p-3 text-xs text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                {preview.foreignInputs > 0 && (
+                  <p>Spends {preview.foreignInputs} input(s) that do not belong to this wallet.</p>
+                )}
+                {preview.unresolvedInputs > 0 && (
+                  <p>
+                    {preview.unresolvedInputs} input(s) could not be looked up, so the change below may be incomplete.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="mb-4 rounded-lg bg-gray-50 p-3 dark:bg-gray-700">
+              <h2 className="mb-2 text-sm font-semibold">Wallet Balance Change</h2>
+              <div className="space-y-1 text-xs">
+                {preview.netChange.length === 0 ? (
+                  <p className="text-gray-500 dark:text-gray-400">No change</p>
+                ) : (
+                  preview.netChange.map(amount => (
+                    <p
+                      key={amount.unit}
+                      className={`font-medium ${amount.quantity.startsWith('-') ? 'text-red-500' : 'text-green-600'}`}>
+                      {formatAmount(amount, true)}
+                    </p>
+                  ))
+                )}
+              </div>
+            </div>
+
+            <Section title="Inputs" count={preview.inputs.length}>
+              {preview.inputs.map(input => (
+                <InputRow key={`${input.txHash}#${input.outputIndex}`} input={input} />
+              ))}
+            </Section>
+            <Section title="Outputs" count={preview.outputs.length}>
+              {preview.outputs.map((output, index) => (
+                <OutputRow key={index} output={output} />
+              ))}
+            </Section>
+            {preview.mint.length > 0 && (
+              <Section title="Mint / Burn" count={preview.mint.length}>
+                {preview.mint.map(amount => (
+                  <p key={amount.unit}>{formatAmount(amount, true)}</p>
+                ))}
+              </Section>
+            )}
+            {preview.certificates.length > 0 && (
+              <Section title="Certificates" count={preview.certificates.length}>
+                {preview.certificates.map((certificate, index) => (
+                  <div key={index}>
+                    <p className="font-medium">{certificate.kind}</p>
+                    <JsonView value={certificate.details} />
+                  </div>
+                ))}
+              </Section>
+            )}
+            {preview.withdrawals.length > 0 && (
+              <Section title="Withdrawals" count={preview.withdrawals.length}>
+                {preview.withdrawals.map(withdrawal => (
+                  <div key={withdrawal.address} className="flex justify-between">
+                    <span className="truncate font-mono" title={withdrawal.address}>
+                      {shorten(withdrawal.address)}
+                    </span>
+                    <span className="ml-2 font-medium">{formatAda(withdrawal.amount)} ADA</span>
+                  </div>
+                ))}
+              </Section>
+            )}
+            {preview.requiredSigners.length > 0 && (
+              <Section title="Required Signers" count={preview.requiredSigners.length}>
+                {preview.requiredSigners.map(keyHash => (
+                  <p key={keyHash} className="truncate font-mono">
+                    {keyHash}
+                  </p>
+                ))}
+              </Section>
+            )}
+            {preview.metadata !== null && (
+              <Section title="Metadata" count={Object.keys(preview.metadata as object).length}>
+                <JsonView value={preview.metadata} />
+              </Section>
+            )}
+            {preview.collateral.length > 0 && (
+              <Section title="Collateral" count={preview.collateral.length}>
+                {preview.collateral.map(input => (
+                  <InputRow key={`${input.txHash}#${input.outputIndex}`} input={input} />
+                ))}
+                {preview.totalCollateral && <p>Total collateral: {formatAda(preview.totalCollateral)} ADA</p>}
+                {preview.collateralReturn && (
+                  <>
+                    <p className="font-medium">Collateral return</p>
+                    <OutputRow output={preview.collateralReturn} />
+                  </>
+                )}
+              </Section>
+            )}
+            {preview.referenceInputs.length > 0 && (
+              <Section title="Reference Inputs" count={preview.referenceInputs.length}>
+                {preview.referenceInputs.map(input => (
+                  <p key={`${input.txHash}#${input.outputIndex}`} className="font-mono">
+                    {shorten(input.txHash, 8)}#{input.outputIndex}
+                  </p>
+                ))}
+              </Section>
+            )}
+          </>
+        )}
+
+        {wallet.hasPassword && (
+          <div className="mb-4">
+            <FloatingLabelInput
+              name="signPassword"
+              label="Password"
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              error={!!error}
+            />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+
+      <div className="border-t border-gray-300 p-4 dark:border-gray-600">
+        <div className="flex space-x-3">
+          <SecondaryButton onClick={handleReject} disabled={isProcessing} className="flex-1">
+            Reject
+          </SecondaryButton>
+          <PrimaryButton
+            onClick={handleApprove}
+            disabled={isProcessing || !preview || (wallet.hasPassword && !password)}
+            className="flex-1">
+            {isProcessing ? 'Signing...' : 'Sign'}
+          </PrimaryButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignTx;
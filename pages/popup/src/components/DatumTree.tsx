@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import type { DatumNode } from '@src/utils/datum';
+
+// Levels expanded when the tree is first shown
+const EXPANDED_DEPTH = 2;
+
+const truncate = (text: string, maxChars: number) => (text.length > maxChars ? `${text.slice(0, maxChars)}…` : text);
+
+const summary = (node: DatumNode) => {
+  switch (node.kind) {
+    case 'constructor':
+      return `${node.typeName || 'Constr'} #${node.index}`;
+    case 'list':
+      return `List [${node.children?.length}]`;
+    case 'map':
+      return `Map {${node.entries?.length}}`;
+    case 'integer':
+      return node.value;
+    default:
+      return node.value ? `0x${truncate(node.value, 16)}` : 'Empty bytes';
+  }
+};
+
+const DatumTreeNode = ({ node, depth, prefix }: { node: DatumNode; depth: number; prefix?: string }) => {
+  const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH);
+  const label = prefix ?? node.name;
+  const hasChildren = (node.children?.length || 0) + (node.entries?.length || 0) > 0;
+
+  return (
+    <div>
+      <div className="flex items-start gap-1">
+        {hasChildren ? (
+          <button type="button" onClick={() => setExpanded(!expanded)} className="mt-0.5 text-gray-400">
+            {expanded ? <ChevronDownIcon className="size-3" /> : <ChevronRightIcon className="size-3" />}
+          </button>
+        ) : (
+          <span className="w-3 shrink-0" />
+        )}
+        <div className="min-w-0 break-all">
+          {label && <span className="text-gray-500 dark:text-gray-400">{label}: </span>}
+          <span className={node.kind === 'constructor' ? 'font-medium' : 'font-mono'} title={node.value}>
+            {summary(node)}
+          </span>
+          {node.text !== undefined && (
+            <span className="ml-1 text-green-700 dark:text-green-400">&quot;{truncate(node.text, 40)}&quot;</span>
+          )}
+          {node.address && (
+            <span className="block font-mono text-blue-600 dark:text-blue-400" title={node.address}>
+              {truncate(node.address, 28)}
+            </span>
+          )}
+        </div>
+      </div>
+      {expanded && hasChildren && (
+        <div className="ml-1.5 border-l border-gray-200 pl-2 dark:border-gray-600">
+          {node.children?.map((child, i) => (
+            <DatumTreeNode key={i} node={child} depth={depth + 1} prefix={child.name ? undefined : `${i}`} />
+          ))}
+          {node.entries?.map((entry, i) => (
+            <div key={i}>
+              <DatumTreeNode node={entry.key} depth={depth + 1} prefix="key" />
+              <DatumTreeNode node={entry.value} depth={depth + 1} prefix="value" />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Collapsible view of a decoded datum
+const DatumTree = ({ root }: { root: DatumNode }) => (
+  <div className="text-xs">
+    <DatumTreeNode node={root} depth={0} />
+  </div>
+);
+
+export default DatumTree;
@@ -0,0 +1,211 @@
+import type { ReactNode } from 'react';
+import type { BlueprintSchema } from '@extension/storage';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { defaultSchemaValue, resolveSchema, schemaConstructors, schemaKind, schemaLabel } from '@src/utils/plutus';
+import type { SchemaValue } from '@src/utils/plutus';
+
+interface SchemaFormProps {
+  name: string; // Prefix for input ids, unique on the page
+  schema: BlueprintSchema;
+  definitions: Record<string, BlueprintSchema>;
+  value: SchemaValue;
+  onChange: (value: SchemaValue) => void;
+}
+
+const selectClassName =
+  'rounded-md border border-gray-300 bg-white px-2 py-1 text-xs text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100';
+
+const Group = ({ label, action, children }: { label: ReactNode; action?: ReactNode; children?: ReactNode }) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+      {label}
+      {action}
+    </div>
+    {children && <div className="space-y-2 border-l-2 border-gray-200 pl-3 dark:border-gray-600">{children}</div>}
+  </div>
+);
+
+const AddButton = ({ label, onClick }: { label: string; onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="flex items-center text-blue-600 hover:underline dark:text-blue-400">
+    <PlusIcon className="mr-1 size-3" />
+    {label}
+  </button>
+);
+
+const RemoveButton = ({ onClick }: { onClick: () => void }) => (
+  <button type="button" onClick={onClick} className="p-1" title="Remove">
+    <XMarkIcon className="size-4 text-gray-400 hover:text-red-500" />
+  </button>
+);
+
+// Inputs for a datum or redeemer, generated from the schema the blueprint gives for it
+const SchemaForm = ({ name, schema, definitions, value, onChange }: SchemaFormProps) => {
+  let resolved: BlueprintSchema;
+  let kind: ReturnType<typeof schemaKind>;
+  try {
+    resolved = resolveSchema(schema, definitions);
+    kind = schemaKind(resolved);
+  } catch (schemaError) {
+    return <p className="text-xs text-red-500">{(schemaError as Error).message}</p>;
+  }
+  const label = schemaLabel(schema, definitions);
+  const replaceAt = <T,>(items: T[], index: number, item: T) =>
+    items.map((existing, i) => (i === index ? item : existing));
+
+  switch (kind) {
+    case 'integer':
+    case 'bytes':
+    case 'data':
+      return (
+        <FloatingLabelInput
+          name={name}
+          label={kind === 'bytes' ? `${label} (hex)` : kind === 'data' ? `${label} (CBOR hex)` : label}
+          value={value as string}
+          onChange={e => onChange(e.target.value)}
+        />
+      );
+
+    case 'constructor': {
+      const constructors = schemaConstructors(resolved, definitions);
+      const { variant, fields } = value as { variant: number; fields: SchemaValue[] };
+      const selected = constructors[variant];
+      return (
+        <Group
+          label={label}
+          action={
+            constructors.length > 1 && (
+              <select
+                className={selectClassName}
+                value={variant}
+                onChange={e => {
+                  const next = Number(e.target.value);
+                  onChange({
+                    variant: next,
+                    fields: (constructors[next].fields || []).map(field => defaultSchemaValue(field, definitions)),
+                  });
+                }}>
+                {constructors.map((constructor, i) => (
+                  <option key={i} value={i}>
+                    {constructor.title || `Constructor ${constructor.index ?? i}`}
+                  </option>
+                ))}
+              </select>
+            )
+          }>
+          {(selected.fields || []).length > 0 &&
+            (selected.fields || []).map((field, i) => (
+              <SchemaForm
+                key={`${variant}-${i}`}
+                name={`${name}.${i}`}
+                schema={field}
+                definitions={definitions}
+                value={fields[i]}
+                onChange={fieldValue => onChange({ variant, fields: replaceAt(fields, i, fieldValue) })}
+              />
+            ))}
+        </Group>
+      );
+    }
+
+    case 'tuple': {
+      const items = value as SchemaValue[];
+      return (
+        <Group label={label}>
+          {(resolved.items as BlueprintSchema[]).map((item, i) => (
+            <SchemaForm
+              key={i}
+              name={`${name}.${i}`}
+              schema={item}
+              definitions={definitions}
+              value={items[i]}
+              onChange={itemValue => onChange(replaceAt(items, i, itemValue))}
+            />
+          ))}
+        </Group>
+      );
+    }
+
+    case 'list': {
+      const items = value as SchemaValue[];
+      const itemSchema = (resolved.items as BlueprintSchema | undefined) || {};
+      return (
+        <Group
+          label={`${label} (${items.length})`}
+          action={
+            <AddButton
+              label="Add item"
+              onClick={() => onChange([...items, defaultSchemaValue(itemSchema, definitions)])}
+            />
+          }>
+          {items.length > 0 &&
+            items.map((item, i) => (
+              <div key={i} className="flex items-start">
+                <div className="grow">
+                  <SchemaForm
+                    name={`${name}.${i}`}
+                    schema={itemSchema}
+                    definitions={definitions}
+                    value={item}
+                    onChange={itemValue => onChange(replaceAt(items, i, itemValue))}
+                  />
+                </div>
+                <RemoveButton onClick={() => onChange(items.filter((_, j) => j !== i))} />
+              </div>
+            ))}
+        </Group>
+      );
+    }
+
+    case 'map': {
+      const { entries } = value as { entries: [SchemaValue, SchemaValue][] };
+      const keySchema = resolved.keys || {};
+      const valueSchema = resolved.values || {};
+      return (
+        <Group
+          label={`${label} (${entries.length})`}
+          action={
+            <AddButton
+              label="Add entry"
+              onClick={() =>
+                onChange({
+                  entries: [
+                    ...entries,
+                    [defaultSchemaValue(keySchema, definitions), defaultSchemaValue(valueSchema, definitions)],
+                  ],
+                })
+              }
+            />
+          }>
+          {entries.length > 0 &&
+            entries.map(([entryKey, entryValue], i) => (
+              <div key={i} className="flex items-start">
+                <div className="grow space-y-2">
+                  <SchemaForm
+                    name={`${name}.${i}.key`}
+                    schema={keySchema}
+                    definitions={definitions}
+                    value={entryKey}
+                    onChange={keyValue => onChange({ entries: replaceAt(entries, i, [keyValue, entryValue]) })}
+                  />
+                  <SchemaForm
+                    name={`${name}.${i}.value`}
+                    schema={valueSchema}
+                    definitions={definitions}
+                    value={entryValue}
+                    onChange={newValue => onChange({ entries: replaceAt(entries, i, [entryKey, newValue]) })}
+                  />
+                </div>
+                <RemoveButton onClick={() => onChange({ entries: entries.filter((_, j) => j !== i) })} />
+              </div>
+            ))}
+        </Group>
+      );
+    }
+  }
+};
+
+export default SchemaForm;
@@ -14,7 +14,7 @@ export const useBalanceSync = (wallet: Wallet | undefined) => {
     error: null,
   });
 
-  const intervalRef = useRef<number | null>(null);
+  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const mountedRef = useRef(true);
 
   const refreshBalance = useCallback(async () => {
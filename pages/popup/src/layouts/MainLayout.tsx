@@ -1,10 +1,17 @@
 // popup/src/layouts/MainLayout.tsx
 import { useState, useEffect } from 'react';
 import { Link, Outlet, useNavigate, useParams, useLocation } from 'react-router-dom';
-import { useStorage, settingsStorage, walletsStorage } from '@extension/storage';
+import {
+  useStorage,
+  settingsStorage,
+  walletsStorage,
+  faultInjectionStorage,
+  sessionRecordingStorage,
+} from '@extension/storage';
 import WalletDropdown from '../components/WalletDropdown';
 import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
 import { useBalanceSync } from '@src/hooks/useBalanceSync';
+import { describeDRepId } from '@src/utils/governance';
 import type { Wallet } from '@extension/shared';
 
 function MainLayout() {
@@ -17,6 +24,11 @@ function MainLayout() {
   const [isExpanded, setIsExpanded] = useState(false);
   const settings = useStorage(settingsStorage);
   const walletsData = useStorage(walletsStorage);
+  const faultState = useStorage(faultInjectionStorage);
+  // Rules without a fault or latency inject nothing
+  const activeFaults =
+    faultState?.rules?.filter(rule => rule.enabled && (rule.fault !== 'none' || rule.latencyMs > 0)).length || 0;
+  const recordingState = useStorage(sessionRecordingStorage);
 
   const wallets = walletsData?.wallets || [];
   const currentWallet = wallets.find((w: Wallet) => w.id === walletId);
@@ -26,6 +38,17 @@ function MainLayout() {
   // Balance sync functionality
   const { isRefreshing, lastSynced, error, refreshBalance } = useBalanceSync(currentWallet);
 
+  // Vote delegation of the stake address, read once per wallet; undefined until it is known
+  const [drepId, setDrepId] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    setDrepId(undefined);
+    if (!walletId) return;
+    chrome.runtime.sendMessage({ type: 'GET_ACCOUNT_INFO', payload: { walletId, includePool: false } }, response => {
+      if (response?.success) setDrepId(response.account?.drep_id ?? null);
+    });
+  }, [walletId]);
+
   // Format time since last sync and update every second
   const [now, setNow] = useState(Date.now());
 
@@ -60,6 +83,23 @@ function MainLayout() {
         <div className="mx-auto flex items-center">
           <WalletDropdown currentWalletId={walletId} onSelectWallet={handleWalletSelect} />
         </div>
+        {/* Keeps active fault injection visible so it is not left on by accident */}
+        {activeFaults > 0 && (
+          <Link
+            to="/fault-injection"
+            className="mr-1 rounded bg-red-500 px-1.5 py-0.5 text-xs font-semibold text-white"
+            title={`${activeFaults} fault rule${activeFaults > 1 ? 's' : ''} active`}>
+            Faults
+          </Link>
+        )}
+        {(recordingState?.recordingId || recordingState?.replayId) && (
+          <Link
+            to="/session-recordings"
+            className="mr-1 rounded bg-red-500 px-1.5 py-0.5 text-xs font-semibold text-white"
+            title={recordingState.recordingId ? 'Recording CIP-30 calls' : 'Replaying a CIP-30 recording'}>
+            {recordingState.recordingId ? 'REC' : 'Replay'}
+          </Link>
+        )}
         <Link
           to="/settings"
           className="flex size-8 items-center justify-center rounded-full hover:bg-gray-200 dark:hover:bg-gray-700">
@@ -149,6 +189,14 @@ function MainLayout() {
                     'Not synced yet'
                   )}
                 </div>
+                {drepId !== undefined && (
+                  <Link
+                    to={`/wallet/${walletId}/governance`}
+                    className="mt-1 block truncate text-xs text-gray-500 hover:underline dark:text-gray-400"
+                    title="Vote delegation">
+                    DRep: {describeDRepId(drepId)}
+                  </Link>
+                )}
               </div>
               {currentWallet?.type === 'SPOOFED' ? (
                 <div className="text-center">
@@ -159,12 +207,15 @@ function MainLayout() {
                 </div>
               ) : (
                 <div className="flex justify-center space-x-4">
-                  <SecondaryButton className="flex-1" onClick={() => alert('Send not implemented yet')}>
+                  <SecondaryButton className="flex-1" onClick={() => navigate(`/wallet/${walletId}/send`)}>
                     Send
                   </SecondaryButton>
                   <SecondaryButton className="flex-1" onClick={() => alert('Receive not implemented yet')}>
                     Receive
                   </SecondaryButton>
+                  <SecondaryButton className="flex-1" onClick={() => navigate(`/wallet/${walletId}/staking`)}>
+                    Stake
+                  </SecondaryButton>
                 </div>
               )}
             </div>
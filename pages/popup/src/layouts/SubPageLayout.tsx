@@ -48,6 +48,10 @@ function SubPageLayout() {
       'import-wallet-from-seed-phrase': 'Import Wallet',
       'import-wallet-from-seed-phrase-success': 'Import Wallet',
       settings: 'Settings',
+      'connected-sites': 'Connected Sites',
+      impersonation: 'Wallet Impersonation',
+      'fault-injection': 'Fault Injection',
+      'session-recordings': 'Session Recordings',
     };
 
     return titleMap[path] || path.charAt(0).toUpperCase() + path.slice(1).replace(/-/g, ' ');
@@ -0,0 +1,58 @@
+// Fixed testnet transactions for the signing, preview and submit tests, built with the serialization library.
+// All keys are 32 repeated bytes: 01 payment, 02 stake, 03 DRep, 04 a foreign payment key.
+import type { ResolvedInput } from '../signing';
+
+export const PAYMENT_KEY = '0101010101010101010101010101010101010101010101010101010101010101';
+export const STAKE_KEY = '0202020202020202020202020202020202020202020202020202020202020202';
+export const DREP_KEY = '0303030303030303030303030303030303030303030303030303030303030303';
+export const FOREIGN_KEY = '0404040404040404040404040404040404040404040404040404040404040404';
+
+export const PAYMENT_KEY_HASH = '0d6a577e9441ad8ed9663931906e4d43ece8f82c712b1d0235affb06';
+export const STAKE_KEY_HASH = '008b47844d92812fc30d1f0ac9b6fbf38778ccba9db8312ad9079079';
+export const FOREIGN_KEY_HASH = 'b89520cd956f7b0adbba16df0d26bd015a427955e3bf8faae069118d';
+
+// Base address of the payment and stake keys
+export const OWN_ADDRESS =
+  'addr_test1qqxk54m7j3q6mrkevcunryrwf4p7e68c93cjk8gzxkhlkpsq3drcgnvjsyhuxrglptymd7lnsauvew5ahqcj4kg8jpusxyg3jw';
+// Enterprise address of the foreign key
+export const FOREIGN_ADDRESS = 'addr_test1vzuf2gxdj4hhkzkmhgtd7rfxh5q45sne2h3mlra2up53rrgxj6ez3';
+
+export const TOKEN_UNIT = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa746f6b656e';
+
+export const OWN_INPUT: ResolvedInput = {
+  tx_hash: '1111111111111111111111111111111111111111111111111111111111111111',
+  output_index: 0,
+  address: OWN_ADDRESS,
+  amount: [
+    { unit: 'lovelace', quantity: '10000000' },
+    { unit: TOKEN_UNIT, quantity: '5' },
+  ],
+};
+
+export const FOREIGN_INPUT: ResolvedInput = {
+  tx_hash: '2222222222222222222222222222222222222222222222222222222222222222',
+  output_index: 1,
+  address: FOREIGN_ADDRESS,
+  amount: [{ unit: 'lovelace', quantity: '3000000' }],
+};
+
+export const COLLATERAL_INPUT: ResolvedInput = {
+  tx_hash: '3333333333333333333333333333333333333333333333333333333333333333',
+  output_index: 0,
+  address: OWN_ADDRESS,
+  amount: [{ unit: 'lovelace', quantity: '5000000' }],
+};
+
+// Spends OWN_INPUT and FOREIGN_INPUT with COLLATERAL_INPUT as collateral; pays 4 ADA and 2 tokens to
+// FOREIGN_ADDRESS and 8.8 ADA and 3 tokens back to OWN_ADDRESS, with a 0.2 ADA fee
+export const SPEND_TX =
+  '84a400d9010282825820111111111111111111111111111111111111111111111111111111111111111100825820222222222222222222222222222222222222222222222222222222222222222201018282581d60b89520cd956f7b0adbba16df0d26bd015a427955e3bf8faae069118d821a003d0900a1581caaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa145746f6b656e02825839000d6a577e9441ad8ed9663931906e4d43ece8f82c712b1d0235affb06008b47844d92812fc30d1f0ac9b6fbf38778ccba9db8312ad9079079821a00864700a1581caaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa145746f6b656e03021a00030d400dd9010281825820333333333333333333333333333333333333333333333333333333333333333300a0f5f6';
+
+// Spends OWN_INPUT to register the stake key with a 2 ADA deposit; 7.8 ADA and the tokens back to OWN_ADDRESS, 0.2 ADA fee
+export const REGISTER_STAKE_TX =
+  '84a400d90102818258201111111111111111111111111111111111111111111111111111111111111111000181825839000d6a577e9441ad8ed9663931906e4d43ece8f82c712b1d0235affb06008b47844d92812fc30d1f0ac9b6fbf38778ccba9db8312ad9079079821a007704c0a1581caaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa145746f6b656e05021a00030d4004d901028183078200581c008b47844d92812fc30d1f0ac9b6fbf38778ccba9db8312ad90790791a001e8480a0f5f6';
+
+// Spends OWN_INPUT to deregister the stake key for its 2 ADA refund and withdraw 0.5 ADA of rewards, with
+// COLLATERAL_INPUT as collateral; 12.3 ADA and the tokens back to OWN_ADDRESS, 0.2 ADA fee
+export const DEREGISTER_STAKE_TX =
+  '84a600d90102818258201111111111111111111111111111111111111111111111111111111111111111000181825839000d6a577e9441ad8ed9663931906e4d43ece8f82c712b1d0235affb06008b47844d92812fc30d1f0ac9b6fbf38778ccba9db8312ad9079079821a00bbaee0a1581caaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa145746f6b656e05021a00030d4004d901028183088200581c008b47844d92812fc30d1f0ac9b6fbf38778ccba9db8312ad90790791a001e848005a1581de0008b47844d92812fc30d1f0ac9b6fbf38778ccba9db8312ad90790791a0007a1200dd9010281825820333333333333333333333333333333333333333333333333333333333333333300a0f5f6';
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { buildCoseSign1, bytesToHex, encodeCbor, hexToBytes } from './cose';
+import type { CborValue } from './cose';
+
+const hex = (value: CborValue) => bytesToHex(encodeCbor(value));
+
+describe('encodeCbor', () => {
+  it('encodes integers with the shortest head', () => {
+    expect(hex(0)).toBe('00');
+    expect(hex(23)).toBe('17');
+    expect(hex(24)).toBe('1818');
+    expect(hex(255)).toBe('18ff');
+    expect(hex(256)).toBe('190100');
+    expect(hex(65536)).toBe('1a00010000');
+  });
+
+  it('encodes negative integers as major type 1', () => {
+    expect(hex(-1)).toBe('20');
+    expect(hex(-8)).toBe('27');
+    expect(hex(-25)).toBe('3818');
+  });
+
+  it('encodes booleans, text and bytes', () => {
+    expect(hex(true)).toBe('f5');
+    expect(hex(false)).toBe('f4');
+    expect(hex('address')).toBe('6761646472657373');
+    expect(hex(new Uint8Array())).toBe('40');
+    expect(hex(new Uint8Array(57))).toBe(`5839${'00'.repeat(57)}`);
+  });
+
+  it('encodes arrays and keeps map keys in insertion order', () => {
+    expect(hex([1, [2, 3]])).toBe('8201820203');
+    expect(
+      hex(
+        new Map<CborValue, CborValue>([
+          ['b', 1],
+          ['a', 2],
+        ]),
+      ),
+    ).toBe('a2616201616102');
+  });
+});
+
+describe('hexToBytes', () => {
+  it('round-trips with bytesToHex', () => {
+    expect(bytesToHex(hexToBytes('00ff10ab'))).toBe('00ff10ab');
+    expect(hexToBytes('')).toEqual(new Uint8Array());
+  });
+});
+
+describe('buildCoseSign1', () => {
+  const address = new Uint8Array(57).fill(0x01);
+  const payload = hexToBytes('48656c6c6f'); // "Hello"
+  const publicKey = new Uint8Array(32).fill(0x02);
+  const signatureBytes = new Uint8Array(64).fill(0x03);
+
+  // Serialized { 1: -8, "address": address }, 70 bytes
+  const protectedHeader = `5846a2012767616464726573735839${'01'.repeat(57)}`;
+
+  it('signs the Sig_structure over the protected header and payload', () => {
+    let signed = '';
+    buildCoseSign1(address, payload, publicKey, sigStructure => {
+      signed = bytesToHex(sigStructure);
+      return signatureBytes;
+    });
+
+    // ["Signature1", protected, external_aad = h'', payload]
+    expect(signed).toBe(`846a5369676e617475726531${protectedHeader}404548656c6c6f`);
+  });
+
+  it('returns a COSE_Sign1 array and an Ed25519 COSE_Key', () => {
+    const { signature, key } = buildCoseSign1(address, payload, publicKey, () => signatureBytes);
+
+    // [protected, { "hashed": false }, payload, signature]
+    expect(signature).toBe(`84${protectedHeader}a166686173686564f44548656c6c6f5840${'03'.repeat(64)}`);
+    // { kty: OKP, alg: EdDSA, crv: Ed25519, x: public key }
+    expect(key).toBe(`a4010103272006215820${'02'.repeat(32)}`);
+  });
+});
@@ -0,0 +1,87 @@
+// Minimal CBOR encoding for the COSE structures used by CIP-8 message signing (CIP-30 signData)
+
+export type CborValue = boolean | number | string | Uint8Array | CborValue[] | Map<CborValue, CborValue>;
+
+const encodeHead = (majorType: number, length: number): number[] => {
+  const major = majorType << 5;
+  if (length < 24) return [major | length];
+  if (length < 0x100) return [major | 24, length];
+  if (length < 0x10000) return [major | 25, length >> 8, length & 0xff];
+  return [major | 26, (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff];
+};
+
+const encodeItem = (value: CborValue, out: number[]) => {
+  if (typeof value === 'boolean') {
+    out.push(value ? 0xf5 : 0xf4);
+  } else if (typeof value === 'number') {
+    out.push(...(value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value)));
+  } else if (typeof value === 'string') {
+    const bytes = new TextEncoder().encode(value);
+    out.push(...encodeHead(3, bytes.length), ...bytes);
+  } else if (value instanceof Uint8Array) {
+    out.push(...encodeHead(2, value.length), ...value);
+  } else if (Array.isArray(value)) {
+    out.push(...encodeHead(4, value.length));
+    value.forEach(item => encodeItem(item, out));
+  } else {
+    out.push(...encodeHead(5, value.size));
+    value.forEach((item, key) => {
+      encodeItem(key, out);
+      encodeItem(item, out);
+    });
+  }
+};
+
+/**
+ * Encodes booleans, integers, text, bytes, arrays and maps (keys kept in insertion order)
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+  const out: number[] = [];
+  encodeItem(value, out);
+  return new Uint8Array(out);
+}
+
+export const hexToBytes = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{1,2}/g) || []).map(byte => parseInt(byte, 16)));
+
+export const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Builds a COSE_Sign1 message and matching COSE_Key as specified by CIP-30 signData.
+ * `sign` receives the serialized Sig_structure and returns the Ed25519 signature.
+ */
+export function buildCoseSign1(
+  addressBytes: Uint8Array,
+  payload: Uint8Array,
+  publicKey: Uint8Array,
+  sign: (sigStructure: Uint8Array) => Uint8Array,
+): { signature: string; key: string } {
+  // Protected header: alg = EdDSA, address = signing address
+  const protectedHeader = encodeCbor(
+    new Map<CborValue, CborValue>([
+      [1, -8],
+      ['address', addressBytes],
+    ]),
+  );
+
+  const sigStructure = encodeCbor(['Signature1', protectedHeader, new Uint8Array(), payload]);
+  const coseSign1 = encodeCbor([
+    protectedHeader,
+    new Map<CborValue, CborValue>([['hashed', false]]),
+    payload,
+    sign(sigStructure),
+  ]);
+
+  // kty = OKP, alg = EdDSA, crv = Ed25519, x = public key
+  const coseKey = encodeCbor(
+    new Map<CborValue, CborValue>([
+      [1, 1],
+      [3, -8],
+      [-1, 6],
+      [-2, publicKey],
+    ]),
+  );
+
+  return { signature: bytesToHex(coseSign1), key: bytesToHex(coseKey) };
+}
@@ -121,6 +121,50 @@ export async function deriveAddressFromMnemonic(
   }
 }
 
+/**
+ * Derives the payment, stake and DRep signing keys of an account from a mnemonic seed phrase.
+ * The stored rootKey has no chain code, so signing always goes back to the seed phrase.
+ */
+export async function deriveSigningKeysFromMnemonic(
+  mnemonic: string,
+  accountIndex: number = 0,
+  addressIndex: number = 0,
+): Promise<{ paymentKey: any; stakeKey: any; drepKey: any }> {
+  try {
+    // Load Cardano WASM library
+    await CardanoLoader.load();
+    const CardanoWasm = CardanoLoader.Cardano;
+
+    const seed = await mnemonicToSeed(mnemonic);
+    const rootKey = CardanoWasm.Bip32PrivateKey.from_bip39_entropy(seed.slice(0, 32), new Uint8Array());
+
+    // m/1852'/1815'/account'
+    const accountKey = rootKey.derive(harden(1852)).derive(harden(1815)).derive(harden(accountIndex));
+
+    return {
+      paymentKey: accountKey.derive(0).derive(addressIndex).to_raw_key(),
+      stakeKey: accountKey.derive(2).derive(0).to_raw_key(),
+      drepKey: accountKey.derive(3).derive(0).to_raw_key(), // CIP-105 DRep key
+    };
+  } catch (error) {
+    throw new Error(`Failed to derive signing keys: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Derives the hex public keys the wallet exposes through CIP-95 (stake and DRep keys)
+ */
+export async function derivePublicKeysFromMnemonic(
+  mnemonic: string,
+  accountIndex: number = 0,
+): Promise<{ stake: string; drep: string }> {
+  const { stakeKey, drepKey } = await deriveSigningKeysFromMnemonic(mnemonic, accountIndex);
+  return {
+    stake: stakeKey.to_public().to_hex(),
+    drep: drepKey.to_public().to_hex(),
+  };
+}
+
 /**
  * Helper function to create hardened derivation index
  */
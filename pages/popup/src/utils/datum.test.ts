@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Blueprint } from '@extension/storage';
+import { OWN_ADDRESS, PAYMENT_KEY_HASH, STAKE_KEY_HASH } from './__fixtures__/transactions';
+import { CardanoLoader } from './cardano_loader';
+import { decodeDatum, findDatumSchema } from './datum';
+
+const SCRIPT_HASH = 'cc'.repeat(28);
+
+// Constr 0 [OWN_ADDRESS as Plutus data, 42, "hello", OWN_ADDRESS as raw bytes]
+const PLUTUS_ADDRESS = `d8799fd8799f581c${PAYMENT_KEY_HASH}ffd8799fd8799fd8799f581c${STAKE_KEY_HASH}ffffffff`;
+const ESCROW_DATUM = `d8799f${PLUTUS_ADDRESS}182a4568656c6c6f583900${PAYMENT_KEY_HASH}${STAKE_KEY_HASH}ff`;
+
+const blueprint: Blueprint = {
+  id: 'escrow',
+  title: 'acme/escrow',
+  version: '0.0.0',
+  plutusVersion: 'v3',
+  importedAt: 0,
+  validators: [
+    {
+      title: 'escrow.escrow.spend',
+      hash: SCRIPT_HASH,
+      datum: { title: 'datum', schema: { $ref: '#/definitions/escrow~1Datum' } },
+    },
+  ],
+  definitions: {
+    Int: { dataType: 'integer' },
+    ByteArray: { dataType: 'bytes' },
+    Address: { title: 'Address', anyOf: [{ title: 'Address', dataType: 'constructor', index: 0, fields: [] }] },
+    'escrow/Datum': {
+      title: 'Datum',
+      anyOf: [
+        {
+          title: 'Escrow',
+          dataType: 'constructor',
+          index: 0,
+          fields: [
+            { title: 'owner', $ref: '#/definitions/Address' },
+            { title: 'deadline', $ref: '#/definitions/Int' },
+            { title: 'note', $ref: '#/definitions/ByteArray' },
+            { title: 'beneficiary', $ref: '#/definitions/ByteArray' },
+          ],
+        },
+      ],
+    },
+  },
+};
+
+let scriptAddress: string;
+
+beforeAll(async () => {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+  scriptAddress = Cardano.EnterpriseAddress.new(
+    0,
+    Cardano.Credential.from_scripthash(Cardano.ScriptHash.from_hex(SCRIPT_HASH)),
+  )
+    .to_address()
+    .to_bech32();
+});
+
+describe('findDatumSchema', () => {
+  it('finds the validator locking a script address', () => {
+    const found = findDatumSchema([blueprint], scriptAddress);
+    expect(found?.source).toBe('acme/escrow · escrow.escrow.spend');
+    expect(found?.schema).toEqual({ $ref: '#/definitions/escrow~1Datum' });
+  });
+
+  it('finds nothing for key addresses and unknown scripts', () => {
+    expect(findDatumSchema([blueprint], OWN_ADDRESS)).toBeNull();
+    expect(findDatumSchema([{ ...blueprint, validators: [] }], scriptAddress)).toBeNull();
+    expect(findDatumSchema([blueprint], 'not an address')).toBeNull();
+  });
+});
+
+describe('decodeDatum', () => {
+  it('labels constructors and fields from the schema', () => {
+    const node = decodeDatum(ESCROW_DATUM, scriptAddress, findDatumSchema([blueprint], scriptAddress));
+    expect(node).toMatchObject({ kind: 'constructor', typeName: 'Escrow', index: 0 });
+    expect(node.children?.map(child => child.name)).toEqual(['owner', 'deadline', 'note', 'beneficiary']);
+    expect(node.children?.[0].typeName).toBe('Address');
+    expect(node.children?.[1]).toMatchObject({ kind: 'integer', value: '42' });
+  });
+
+  it('reads addresses from Plutus address constructors and raw address bytes', () => {
+    const node = decodeDatum(ESCROW_DATUM, scriptAddress);
+    expect(node.address).toBeUndefined();
+    expect(node.children?.[0].address).toBe(OWN_ADDRESS);
+    expect(node.children?.[2]).toMatchObject({ kind: 'bytes', value: '68656c6c6f', text: 'hello' });
+    expect(node.children?.[3].address).toBe(OWN_ADDRESS);
+  });
+
+  it('leaves data that does not match the schema unlabelled', () => {
+    // Constr 1 [42]: the schema has no constructor with index 1
+    const node = decodeDatum('d87a9f182aff', scriptAddress, findDatumSchema([blueprint], scriptAddress));
+    expect(node).toMatchObject({ kind: 'constructor', index: 1, typeName: undefined });
+    expect(node.children?.[0]).toMatchObject({ kind: 'integer', value: '42', name: undefined });
+  });
+});
@@ -0,0 +1,169 @@
+// Decoding of Plutus datums for display, labelled from CIP-57 blueprints (WASM only runs in popup context)
+import type { Blueprint, BlueprintSchema } from '@extension/storage';
+import { CardanoLoader } from './cardano_loader';
+import { bytesToHex } from './cose';
+import { resolveSchema, schemaConstructors } from './plutus';
+
+export interface DatumNode {
+  kind: 'constructor' | 'list' | 'map' | 'integer' | 'bytes';
+  name?: string; // Field name from the blueprint schema
+  typeName?: string; // Constructor name from the blueprint schema
+  index?: number; // Constructor index
+  value?: string; // Integer in decimal, bytes in hex
+  text?: string; // Bytes read as UTF-8, when printable
+  address?: string; // Bech32 address the bytes or constructor encode
+  children?: DatumNode[]; // Constructor fields and list items
+  entries?: { key: DatumNode; value: DatumNode }[];
+}
+
+// The schema a datum is labelled with and where it comes from
+export interface DatumSchema {
+  schema: BlueprintSchema;
+  definitions: Record<string, BlueprintSchema>;
+  source: string; // Blueprint and validator title
+}
+
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000e-\u001f\u007f]/;
+
+// Bytes as text, when they are valid UTF-8 without control characters
+const printableText = (bytes: Uint8Array) => {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return text && !CONTROL_CHARACTERS.test(text) ? text : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Finds the datum schema of the validator locking an address among the imported blueprints
+ */
+export function findDatumSchema(blueprints: Blueprint[], address: string): DatumSchema | null {
+  const Cardano = CardanoLoader.Cardano;
+
+  let scriptHash: string | undefined;
+  try {
+    scriptHash = Cardano.Address.from_bech32(address).payment_cred()?.to_scripthash()?.to_hex();
+  } catch {
+    return null;
+  }
+  if (!scriptHash) return null;
+
+  for (const blueprint of blueprints) {
+    const validator = blueprint.validators.find(v => v.hash === scriptHash && v.datum);
+    if (validator?.datum) {
+      return {
+        schema: validator.datum.schema,
+        definitions: blueprint.definitions,
+        source: `${blueprint.title} · ${validator.title}`,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Decodes PlutusData CBOR into a tree. Addresses are read for the network of `networkAddress`; with a
+ * schema, constructors and fields get their names as long as the data matches it.
+ */
+export function decodeDatum(hex: string, networkAddress: string, datumSchema: DatumSchema | null = null): DatumNode {
+  const Cardano = CardanoLoader.Cardano;
+
+  const networkId = Cardano.Address.from_bech32(networkAddress).network_id();
+  const network = Cardano.NetworkInfo.new(networkId, 0);
+  const definitions = datumSchema?.definitions || {};
+
+  const toNode = (data: any, schema?: BlueprintSchema): DatumNode => {
+    let resolved: BlueprintSchema | undefined;
+    try {
+      resolved = schema && resolveSchema(schema, definitions);
+    } catch {
+      resolved = undefined;
+    }
+    const name = schema?.title;
+
+    switch (data.kind()) {
+      case Cardano.PlutusDataKind.ConstrPlutusData: {
+        const constr = data.as_constr_plutus_data();
+        const index = Number(constr.alternative().to_str());
+        const variant =
+          resolved && (resolved.anyOf || resolved.dataType === 'constructor')
+            ? schemaConstructors(resolved, definitions).find((c, i) => (c.index ?? i) === index)
+            : undefined;
+        const fields = constr.data();
+        const children: DatumNode[] = [];
+        for (let i = 0; i < fields.len(); i++) {
+          children.push(toNode(fields.get(i), variant?.fields?.[i]));
+        }
+
+        // Plutus encodes addresses as Constr 0 [payment credential, optional stake credential]
+        let address: string | undefined;
+        if (index === 0 && fields.len() === 2) {
+          try {
+            address = data.as_address(network).to_bech32();
+          } catch {
+            address = undefined;
+          }
+        }
+        return { kind: 'constructor', name, typeName: variant?.title, index, children, address };
+      }
+
+      case Cardano.PlutusDataKind.Map: {
+        const map = data.as_map();
+        const keys = map.keys();
+        const mapSchema = resolved?.dataType === 'map' ? resolved : undefined;
+        const entries: DatumNode['entries'] = [];
+        for (let i = 0; i < keys.len(); i++) {
+          // A key may appear more than once
+          const values = map.get(keys.get(i));
+          for (let j = 0; values && j < values.len(); j++) {
+            entries.push({
+              key: toNode(keys.get(i), mapSchema?.keys),
+              value: toNode(values.get(j), mapSchema?.values),
+            });
+          }
+        }
+        return { kind: 'map', name, entries };
+      }
+
+      case Cardano.PlutusDataKind.List: {
+        const list = data.as_list();
+        const items = resolved?.dataType === 'list' ? resolved.items : undefined;
+        const children: DatumNode[] = [];
+        for (let i = 0; i < list.len(); i++) {
+          children.push(toNode(list.get(i), Array.isArray(items) ? items[i] : items));
+        }
+        return { kind: 'list', name, children };
+      }
+
+      case Cardano.PlutusDataKind.Integer:
+        return { kind: 'integer', name, value: data.as_integer().to_str() };
+
+      default: {
+        const bytes: Uint8Array = data.as_bytes();
+        let address: string | undefined;
+        try {
+          // Header byte plus one or two 28-byte credentials
+          if (bytes.length === 29 || bytes.length === 57) address = Cardano.Address.from_bytes(bytes).to_bech32();
+        } catch {
+          address = undefined;
+        }
+        return { kind: 'bytes', name, value: bytesToHex(bytes), text: printableText(bytes), address };
+      }
+    }
+  };
+
+  return toNode(Cardano.PlutusData.from_hex(hex), datumSchema?.schema);
+}
+
+/**
+ * The datum in cardano-cli's detailed JSON schema ({"constructor": 0, "fields": [...]}, {"int": 1}, ...)
+ */
+export function datumToJson(hex: string): string {
+  const Cardano = CardanoLoader.Cardano;
+  return JSON.stringify(
+    JSON.parse(Cardano.PlutusData.from_hex(hex).to_json(Cardano.PlutusDatumSchema.DetailedSchema)),
+    null,
+    2,
+  );
+}
@@ -0,0 +1,134 @@
+// Conway vote delegation and DRep certificates for the Governance screen (WASM only runs in popup context)
+import { CardanoLoader } from './cardano_loader';
+
+export type VoteTarget = { type: 'drep'; drepId: string } | { type: 'abstain' } | { type: 'no-confidence' };
+
+// Blockfrost /governance/dreps/{drep_id} fields the Governance screen shows
+export interface DRepInfo {
+  drep_id: string;
+  amount: string; // Voting power delegated to the DRep
+  active: boolean;
+  retired: boolean;
+  expired: boolean;
+}
+
+// Blockfrost reports the predefined voting options under these ids in an account's drep_id
+export const ALWAYS_ABSTAIN_ID = 'drep_always_abstain';
+export const ALWAYS_NO_CONFIDENCE_ID = 'drep_always_no_confidence';
+
+/**
+ * Human-readable form of an account's drep_id
+ */
+export const describeDRepId = (drepId: string | null | undefined) =>
+  !drepId
+    ? 'None'
+    : drepId === ALWAYS_ABSTAIN_ID
+      ? 'Always abstain'
+      : drepId === ALWAYS_NO_CONFIDENCE_ID
+        ? 'Always no confidence'
+        : drepId;
+
+/**
+ * Parses a DRep id given in CIP-129 or CIP-105 bech32 (drep1..., drep_script1...) or as a hex key hash
+ */
+export function parseDRepId(drepId: string) {
+  const Cardano = CardanoLoader.Cardano;
+
+  const trimmed = drepId.trim();
+  try {
+    return /^[0-9a-f]{56}$/i.test(trimmed)
+      ? Cardano.DRep.new_key_hash(Cardano.Ed25519KeyHash.from_hex(trimmed))
+      : Cardano.DRep.from_bech32(trimmed);
+  } catch {
+    throw new Error('Enter a valid DRep id');
+  }
+}
+
+/**
+ * Credential of the wallet's own DRep key (m/1852'/1815'/0'/3/0) from its hex public key
+ */
+export function drepCredential(drepPublicKey: string) {
+  const Cardano = CardanoLoader.Cardano;
+  return Cardano.Credential.from_keyhash(Cardano.PublicKey.from_hex(drepPublicKey).hash());
+}
+
+/**
+ * CIP-129 DRep id of the wallet's own DRep key
+ */
+export function ownDRepId(drepPublicKey: string): string {
+  const Cardano = CardanoLoader.Cardano;
+  return Cardano.DRep.new_from_credential(drepCredential(drepPublicKey)).to_bech32(true);
+}
+
+/**
+ * Returns the buildTransaction configure step delegating the stake key's voting power. An unregistered
+ * stake key is registered in the same certificate, paying the key deposit.
+ */
+export function configureVoteDelegation(
+  stakeAddress: string,
+  target: VoteTarget,
+  stakeRegistered: boolean,
+  keyDeposit: string,
+) {
+  return (builder: any, Cardano: any) => {
+    const credential = Cardano.RewardAddress.from_address(Cardano.Address.from_bech32(stakeAddress)).payment_cred();
+    const drep =
+      target.type === 'abstain'
+        ? Cardano.DRep.new_always_abstain()
+        : target.type === 'no-confidence'
+          ? Cardano.DRep.new_always_no_confidence()
+          : parseDRepId(target.drepId);
+
+    const certs = Cardano.Certificates.new();
+    certs.add(
+      stakeRegistered
+        ? Cardano.Certificate.new_vote_delegation(Cardano.VoteDelegation.new(credential, drep))
+        : Cardano.Certificate.new_vote_registration_and_delegation(
+            Cardano.VoteRegistrationAndDelegation.new(credential, drep, Cardano.BigNum.from_str(keyDeposit)),
+          ),
+    );
+    builder.set_certs(certs);
+  };
+}
+
+/**
+ * Returns the buildTransaction configure step registering the wallet's DRep key, with an optional
+ * metadata anchor (URL and blake2b-256 hash of the document it points to)
+ */
+export function configureDRepRegistration(
+  drepPublicKey: string,
+  deposit: string,
+  anchor: { url: string; hash: string } | null,
+) {
+  return (builder: any, Cardano: any) => {
+    const credential = drepCredential(drepPublicKey);
+    const coin = Cardano.BigNum.from_str(deposit);
+    const registration = anchor
+      ? Cardano.DRepRegistration.new_with_anchor(
+          credential,
+          coin,
+          Cardano.Anchor.new(Cardano.URL.new(anchor.url), Cardano.AnchorDataHash.from_hex(anchor.hash)),
+        )
+      : Cardano.DRepRegistration.new(credential, coin);
+
+    const certs = Cardano.Certificates.new();
+    certs.add(Cardano.Certificate.new_drep_registration(registration));
+    builder.set_certs(certs);
+  };
+}
+
+/**
+ * Returns the buildTransaction configure step retiring the wallet's DRep. The refund has to match the
+ * deposit paid on registration, which is the current drep_deposit unless the parameter changed since.
+ */
+export function configureDRepRetirement(drepPublicKey: string, deposit: string) {
+  return (builder: any, Cardano: any) => {
+    const certs = Cardano.Certificates.new();
+    certs.add(
+      Cardano.Certificate.new_drep_deregistration(
+        Cardano.DRepDeregistration.new(drepCredential(drepPublicKey), Cardano.BigNum.from_str(deposit)),
+      ),
+    );
+    builder.set_certs(certs);
+  };
+}
@@ -0,0 +1,167 @@
+// Native script policies, mint/burn and NFT metadata for the Mint tool (WASM only runs in popup context)
+import { CardanoLoader } from './cardano_loader';
+import { bytesToHex } from './cose';
+import { buildOutput, chunkMetadataString } from './txBuilder';
+import type { ProtocolParameters } from './txBuilder';
+
+export type MintStandard = 'token' | 'cip25' | 'cip68';
+
+// Metadata entered for an NFT; extra holds any further properties
+export interface NftMetadata {
+  name: string;
+  image: string;
+  mediaType: string;
+  description: string;
+  extra: Record<string, string>;
+}
+
+export interface MintAsset {
+  assetName: string; // Hex
+  quantity: string; // Negative to burn
+}
+
+// CIP-67 asset name labels of the CIP-68 reference (100) and NFT (222) tokens
+export const CIP68_REFERENCE_PREFIX = '000643b0';
+export const CIP68_NFT_PREFIX = '000de140';
+
+const CIP25_LABEL = '721';
+
+// Ledger limit on asset names
+const MAX_ASSET_NAME_BYTES = 32;
+
+const textToHex = (text: string) => bytesToHex(new TextEncoder().encode(text));
+
+/**
+ * Hex asset name for a name typed as text, with the CIP-67 label prefix when one is given
+ */
+export function toAssetNameHex(name: string, prefix = ''): string {
+  if (!name) throw new Error('Enter an asset name');
+  const hex = prefix + textToHex(name);
+  if (hex.length / 2 > MAX_ASSET_NAME_BYTES) {
+    throw new Error(`Asset names are limited to ${MAX_ASSET_NAME_BYTES - prefix.length / 2} bytes`);
+  }
+  return hex;
+}
+
+/**
+ * Native script policy signed by the wallet's payment key, optionally locked after an expiry slot
+ */
+export async function createNativePolicy(
+  walletAddress: string,
+  expirySlot: number | null,
+): Promise<{ policyId: string; script: string }> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  const keyHash = Cardano.Address.from_bech32(walletAddress).payment_cred()?.to_keyhash();
+  if (!keyHash) throw new Error('The wallet address has no payment key');
+
+  let script = Cardano.NativeScript.new_script_pubkey(Cardano.ScriptPubkey.new(keyHash));
+  if (expirySlot !== null) {
+    const scripts = Cardano.NativeScripts.new();
+    scripts.add(script);
+    scripts.add(
+      Cardano.NativeScript.new_timelock_expiry(
+        Cardano.TimelockExpiry.new_timelockexpiry(Cardano.BigNum.from_str(expirySlot.toString())),
+      ),
+    );
+    script = Cardano.NativeScript.new_script_all(Cardano.ScriptAll.new(scripts));
+  }
+
+  return { policyId: script.hash().to_hex(), script: script.to_hex() };
+}
+
+// Property values longer than metadata allows become lists of chunks, as CIP-25 permits
+const metadataValue = (value: string) => {
+  const chunks = chunkMetadataString(value);
+  return chunks.length > 1 ? chunks : value;
+};
+
+/**
+ * CIP-25 (version 1) metadata for an NFT
+ */
+export function buildCip25Metadata(policyId: string, assetName: string, metadata: NftMetadata) {
+  const Cardano = CardanoLoader.Cardano;
+
+  const properties: Record<string, unknown> = { name: metadata.name, image: metadataValue(metadata.image) };
+  if (metadata.mediaType) properties.mediaType = metadata.mediaType;
+  if (metadata.description) properties.description = metadataValue(metadata.description);
+  Object.entries(metadata.extra).forEach(([key, value]) => (properties[key] = metadataValue(value)));
+
+  const generalMetadata = Cardano.GeneralTransactionMetadata.new();
+  generalMetadata.insert(
+    Cardano.BigNum.from_str(CIP25_LABEL),
+    Cardano.encode_json_str_to_metadatum(
+      JSON.stringify({ [policyId]: { [assetName]: properties }, version: '1.0' }),
+      Cardano.MetadataJsonSchema.NoConversions,
+    ),
+  );
+  const auxiliaryData = Cardano.AuxiliaryData.new();
+  auxiliaryData.set_metadata(generalMetadata);
+  return auxiliaryData;
+}
+
+/**
+ * CIP-68 reference datum for an NFT: Constr 0 [metadata, version 1, extra]
+ */
+export function buildCip68Datum(metadata: NftMetadata) {
+  const Cardano = CardanoLoader.Cardano;
+
+  const bytes = (text: string) => Cardano.PlutusData.new_bytes(new TextEncoder().encode(text));
+  const properties: [string, string][] = [
+    ['name', metadata.name],
+    ['image', metadata.image],
+    ...(metadata.mediaType ? ([['mediaType', metadata.mediaType]] as [string, string][]) : []),
+    ...(metadata.description ? ([['description', metadata.description]] as [string, string][]) : []),
+    ...Object.entries(metadata.extra),
+  ];
+
+  const map = Cardano.PlutusMap.new();
+  properties.forEach(([key, value]) => {
+    const values = Cardano.PlutusMapValues.new();
+    values.add(bytes(value));
+    map.insert(bytes(key), values);
+  });
+
+  const fields = Cardano.PlutusList.new();
+  fields.add(Cardano.PlutusData.new_map(map));
+  fields.add(Cardano.PlutusData.new_integer(Cardano.BigInt.from_str('1')));
+  fields.add(Cardano.PlutusData.new_empty_constr_plutus_data(Cardano.BigNum.from_str('0')));
+  return Cardano.PlutusData.new_constr_plutus_data(Cardano.ConstrPlutusData.new(Cardano.BigNum.from_str('0'), fields));
+}
+
+/**
+ * Returns the buildTransaction configure step minting (or burning) assets under a native script policy.
+ * Minted assets go to the wallet as change; a CIP-68 reference token is sent to the wallet with its
+ * datum in `referenceOutput`. A time-locked policy only accepts transactions whose validity window ends
+ * by its expiry slot, which `ttl` enforces.
+ */
+export function configureMint(
+  script: string,
+  assets: MintAsset[],
+  options: {
+    auxiliaryData?: any;
+    referenceOutput?: { address: string; unit: string; datum: any; parameters: ProtocolParameters };
+    ttl?: number;
+  } = {},
+) {
+  return (builder: any, Cardano: any) => {
+    const nativeScript = Cardano.NativeScript.from_hex(script);
+    const mintBuilder = Cardano.MintBuilder.new();
+    assets.forEach(({ assetName, quantity }) =>
+      mintBuilder.add_asset(
+        Cardano.MintWitness.new_native_script(Cardano.NativeScriptSource.new(nativeScript)),
+        Cardano.AssetName.new(new Uint8Array((assetName.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)))),
+        Cardano.Int.from_str(quantity),
+      ),
+    );
+    builder.set_mint_builder(mintBuilder);
+
+    if (options.auxiliaryData) builder.set_auxiliary_data(options.auxiliaryData);
+    if (options.referenceOutput) {
+      const { address, unit, datum, parameters } = options.referenceOutput;
+      builder.add_output(buildOutput(address, [{ unit, quantity: '1' }], parameters, datum));
+    }
+    if (options.ttl !== undefined) builder.set_ttl_bignum(Cardano.BigNum.from_str(options.ttl.toString()));
+  };
+}
@@ -0,0 +1,82 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { BlueprintSchema } from '@extension/storage';
+import { CardanoLoader } from './cardano_loader';
+import { defaultSchemaValue, resolveSchema, schemaKind, toPlutusData } from './plutus';
+
+// Definitions as Aiken writes them, with a module path escaped in the sum type's name
+const definitions: Record<string, BlueprintSchema> = {
+  Int: { dataType: 'integer' },
+  ByteArray: { dataType: 'bytes' },
+  'types/Amount': { title: 'Amount', $ref: '#/definitions/Int' },
+  'types/Action': {
+    title: 'Action',
+    anyOf: [
+      { title: 'Cancel', dataType: 'constructor', index: 0, fields: [] },
+      {
+        title: 'Update',
+        dataType: 'constructor',
+        index: 1,
+        fields: [{ title: 'amount', $ref: '#/definitions/types~1Amount' }],
+      },
+    ],
+  },
+  Pair$Int_ByteArray: {
+    dataType: 'list',
+    items: [{ $ref: '#/definitions/Int' }, { $ref: '#/definitions/ByteArray' }],
+  },
+  Dict$ByteArray_Int: {
+    dataType: 'map',
+    keys: { $ref: '#/definitions/ByteArray' },
+    values: { $ref: '#/definitions/Int' },
+  },
+};
+
+const ref = (name: string): BlueprintSchema => ({ $ref: `#/definitions/${name.replace(/\//g, '~1')}` });
+
+const toHex = (schema: BlueprintSchema, value: Parameters<typeof toPlutusData>[1]) =>
+  toPlutusData(schema, value, definitions)!.to_hex();
+
+beforeAll(async () => {
+  await CardanoLoader.load();
+});
+
+describe('resolveSchema', () => {
+  it('follows a chain of escaped references', () => {
+    expect(resolveSchema(ref('types/Amount'), definitions)).toEqual({ dataType: 'integer' });
+  });
+
+  it('fails on unknown references and loops', () => {
+    expect(() => resolveSchema(ref('Missing'), definitions)).toThrow('Unknown schema reference #/definitions/Missing');
+    expect(() => resolveSchema(ref('Loop'), { Loop: ref('Loop') })).toThrow('Schema reference loop');
+  });
+});
+
+describe('defaultSchemaValue', () => {
+  it('starts sum types at their first constructor and tuples with one value per item', () => {
+    expect(defaultSchemaValue(ref('types/Action'), definitions)).toEqual({ variant: 0, fields: [] });
+    expect(defaultSchemaValue(ref('Pair$Int_ByteArray'), definitions)).toEqual(['', '']);
+    expect(defaultSchemaValue(ref('Dict$ByteArray_Int'), definitions)).toEqual({ entries: [] });
+  });
+});
+
+describe('toPlutusData', () => {
+  it('encodes constructors of a sum type with their index', () => {
+    expect(toHex(ref('types/Action'), { variant: 0, fields: [] })).toBe('d87980');
+    expect(toHex(ref('types/Action'), { variant: 1, fields: ['42'] })).toBe('d87a9f182aff');
+  });
+
+  it('tells tuples from lists', () => {
+    expect(schemaKind(definitions['Pair$Int_ByteArray'])).toBe('tuple');
+    expect(toHex(ref('Pair$Int_ByteArray'), ['7', 'abcd'])).toBe('9f0742abcdff');
+    expect(toHex({ dataType: 'list', items: ref('Int') }, ['1', '2', '3'])).toBe('9f010203ff');
+  });
+
+  it('encodes maps from their key and value schemas', () => {
+    expect(toHex(ref('Dict$ByteArray_Int'), { entries: [['ab', '1']] })).toBe('a141ab01');
+  });
+
+  it('names the field that is invalid', () => {
+    expect(() => toHex(ref('types/Action'), { variant: 1, fields: ['1.5'] })).toThrow('amount: enter an integer');
+    expect(() => toHex(ref('ByteArray'), 'abc')).toThrow('bytes: enter bytes as hex');
+  });
+});
@@ -0,0 +1,322 @@
+// CIP-57 blueprint scripts, datums and redeemers for the Contracts screen (WASM only runs in popup context)
+import type { Wallet } from '@extension/shared';
+import type { Blueprint, BlueprintSchema, BlueprintValidator, UTXORecord } from '@extension/storage';
+import { CardanoLoader } from './cardano_loader';
+import { hexToBytes } from './cose';
+import type { ResolvedInput } from './signing';
+import { buildOutput, buildTransaction, getCollateralUtxo, getWalletUtxos, toValue } from './txBuilder';
+import type { BuildContext, BuiltTransaction, ProtocolParameters } from './txBuilder';
+
+// Form state for a value described by a blueprint schema: text for integers, hex bytes and opaque data
+export type SchemaValue =
+  | string
+  | SchemaValue[] // List items or tuple fields
+  | { variant: number; fields: SchemaValue[] } // Constructor
+  | { entries: [SchemaValue, SchemaValue][] }; // Map
+
+export type SchemaKind = 'integer' | 'bytes' | 'list' | 'tuple' | 'map' | 'constructor' | 'data';
+
+// Blockfrost /addresses/{address}/utxos entry
+export interface ScriptUtxo extends ResolvedInput {
+  data_hash: string | null;
+  inline_datum: string | null;
+}
+
+export interface ScriptSpend {
+  blueprint: Blueprint;
+  validator: BlueprintValidator;
+  utxo: ScriptUtxo;
+  redeemer: string; // PlutusData CBOR hex
+  datum: string | null; // PlutusData CBOR hex when the output only carries the datum hash
+}
+
+export interface ExUnits {
+  mem: string;
+  steps: string;
+}
+
+// Evaluated units are exact for the evaluated transaction; the final one differs slightly in fee and change
+const EX_UNITS_MARGIN = 1.1;
+
+/**
+ * Follows $ref pointers (#/definitions/..., JSON pointer escaped) to the schema they point to
+ */
+export function resolveSchema(schema: BlueprintSchema, definitions: Record<string, BlueprintSchema>): BlueprintSchema {
+  let resolved = schema;
+  for (let depth = 0; resolved.$ref; depth++) {
+    if (depth > 32) throw new Error(`Schema reference loop at ${schema.$ref}`);
+    const name = resolved.$ref
+      .replace(/^#\/definitions\//, '')
+      .replace(/~1/g, '/')
+      .replace(/~0/g, '~');
+    if (!definitions[name]) throw new Error(`Unknown schema reference ${resolved.$ref}`);
+    resolved = definitions[name];
+  }
+  return resolved;
+}
+
+/**
+ * What kind of Plutus data a resolved schema describes. The #-prefixed builtin types are not data and
+ * cannot be entered.
+ */
+export function schemaKind(schema: BlueprintSchema): SchemaKind {
+  if (schema.anyOf || schema.dataType === 'constructor') return 'constructor';
+  switch (schema.dataType) {
+    case 'integer':
+    case 'bytes':
+    case 'map':
+      return schema.dataType;
+    case 'list':
+      return Array.isArray(schema.items) ? 'tuple' : 'list';
+    case undefined:
+      return 'data';
+    default:
+      throw new Error(`Unsupported schema type ${schema.dataType}`);
+  }
+}
+
+/**
+ * Constructors of a resolved sum type schema, or the schema itself when it is a single constructor
+ */
+export const schemaConstructors = (schema: BlueprintSchema, definitions: Record<string, BlueprintSchema>) =>
+  (schema.anyOf || [schema]).map(variant => resolveSchema(variant, definitions));
+
+/**
+ * Label for a form field: the field title, else the title of the type it refers to
+ */
+export const schemaLabel = (schema: BlueprintSchema, definitions: Record<string, BlueprintSchema>) =>
+  schema.title || resolveSchema(schema, definitions).title || schemaKind(resolveSchema(schema, definitions));
+
+/**
+ * Empty form state for a schema: the first constructor of sum types and no list or map entries
+ */
+export function defaultSchemaValue(
+  schema: BlueprintSchema,
+  definitions: Record<string, BlueprintSchema>,
+  depth = 0,
+): SchemaValue {
+  if (depth > 16) throw new Error('Schema nests too deeply');
+  const resolved = resolveSchema(schema, definitions);
+  switch (schemaKind(resolved)) {
+    case 'list':
+      return [];
+    case 'map':
+      return { entries: [] };
+    case 'tuple':
+      return (resolved.items as BlueprintSchema[]).map(item => defaultSchemaValue(item, definitions, depth + 1));
+    case 'constructor':
+      return {
+        variant: 0,
+        fields: (schemaConstructors(resolved, definitions)[0].fields || []).map(field =>
+          defaultSchemaValue(field, definitions, depth + 1),
+        ),
+      };
+    default:
+      return '';
+  }
+}
+
+/**
+ * Converts form state into PlutusData as the schema describes it, failing on the first invalid field
+ */
+export function toPlutusData(
+  schema: BlueprintSchema,
+  value: SchemaValue,
+  definitions: Record<string, BlueprintSchema>,
+) {
+  const Cardano = CardanoLoader.Cardano;
+
+  const resolved = resolveSchema(schema, definitions);
+  const label = schemaLabel(schema, definitions);
+  const toList = (items: BlueprintSchema[], values: SchemaValue[]) => {
+    const list = Cardano.PlutusList.new();
+    items.forEach((item, i) => list.add(toPlutusData(item, values[i], definitions)));
+    return list;
+  };
+
+  switch (schemaKind(resolved)) {
+    case 'integer': {
+      const text = (value as string).trim();
+      if (!/^-?\d+$/.test(text)) throw new Error(`${label}: enter an integer`);
+      return Cardano.PlutusData.new_integer(Cardano.BigInt.from_str(text));
+    }
+    case 'bytes': {
+      const text = (value as string).trim();
+      if (!/^([0-9a-f]{2})*$/i.test(text)) throw new Error(`${label}: enter bytes as hex`);
+      return Cardano.PlutusData.new_bytes(hexToBytes(text));
+    }
+    case 'data':
+      try {
+        return Cardano.PlutusData.from_hex((value as string).trim());
+      } catch {
+        throw new Error(`${label}: enter the data as CBOR hex`);
+      }
+    case 'list': {
+      const values = value as SchemaValue[];
+      return Cardano.PlutusData.new_list(toList(Array(values.length).fill(resolved.items), values));
+    }
+    case 'tuple':
+      return Cardano.PlutusData.new_list(toList(resolved.items as BlueprintSchema[], value as SchemaValue[]));
+    case 'map': {
+      const map = Cardano.PlutusMap.new();
+      (value as { entries: [SchemaValue, SchemaValue][] }).entries.forEach(([key, entryValue]) => {
+        const values = Cardano.PlutusMapValues.new();
+        values.add(toPlutusData(resolved.values || {}, entryValue, definitions));
+        map.insert(toPlutusData(resolved.keys || {}, key, definitions), values);
+      });
+      return Cardano.PlutusData.new_map(map);
+    }
+    case 'constructor': {
+      const { variant, fields } = value as { variant: number; fields: SchemaValue[] };
+      const constructor = schemaConstructors(resolved, definitions)[variant];
+      if (constructor.dataType !== 'constructor') throw new Error(`${label}: unsupported schema`);
+      return Cardano.PlutusData.new_constr_plutus_data(
+        Cardano.ConstrPlutusData.new(
+          Cardano.BigNum.from_str((constructor.index ?? variant).toString()),
+          toList(constructor.fields || [], fields),
+        ),
+      );
+    }
+  }
+}
+
+/**
+ * Validators that lock funds: spend handlers (module.validator.spend since Aiken 1.1), or older
+ * validators declaring a datum
+ */
+export const isSpendValidator = (validator: BlueprintValidator) =>
+  validator.title.endsWith('.spend') || !!validator.datum;
+
+/**
+ * The validator's Plutus script, checked against the hash the blueprint gives for it
+ */
+export function loadValidatorScript(blueprint: Blueprint, validator: BlueprintValidator) {
+  const Cardano = CardanoLoader.Cardano;
+
+  if (validator.parameters?.length) {
+    throw new Error('This validator takes parameters; apply them (e.g. aiken blueprint apply) and import the result');
+  }
+  if (!validator.compiledCode) throw new Error('The blueprint has no compiled code for this validator');
+
+  const language = {
+    v1: Cardano.Language.new_plutus_v1(),
+    v2: Cardano.Language.new_plutus_v2(),
+    v3: Cardano.Language.new_plutus_v3(),
+  }[blueprint.plutusVersion];
+  const script = Cardano.PlutusScript.new_with_version(hexToBytes(validator.compiledCode), language);
+  if (validator.hash && script.hash().to_hex() !== validator.hash) {
+    throw new Error('The compiled code of this validator does not match its hash');
+  }
+  return script;
+}
+
+/**
+ * Enterprise address of a script on the wallet's network
+ */
+export function scriptAddress(script: any, walletAddress: string): string {
+  const Cardano = CardanoLoader.Cardano;
+  return Cardano.EnterpriseAddress.new(
+    Cardano.Address.from_bech32(walletAddress).network_id(),
+    Cardano.Credential.from_scripthash(script.hash()),
+  )
+    .to_address()
+    .to_bech32();
+}
+
+/**
+ * Returns the buildTransaction configure step locking lovelace at a script address with an inline datum
+ */
+export function configureLock(address: string, lovelace: string, datum: any, parameters: ProtocolParameters) {
+  return (builder: any) => {
+    builder.add_output(buildOutput(address, [{ unit: 'lovelace', quantity: lovelace }], parameters, datum));
+  };
+}
+
+// Spends the script output with the redeemer; the freed funds go to the wallet as change
+const configureUnlock =
+  (spend: ScriptSpend, collateral: UTXORecord, exUnits: ExUnits) => (builder: any, Cardano: any) => {
+    const toInput = (utxo: ResolvedInput) =>
+      Cardano.TransactionInput.new(Cardano.TransactionHash.from_hex(utxo.tx_hash), utxo.output_index);
+
+    const script = loadValidatorScript(spend.blueprint, spend.validator);
+    const redeemer = Cardano.Redeemer.new(
+      Cardano.RedeemerTag.new_spend(),
+      Cardano.BigNum.from_str('0'), // The builder sets the index from the sorted inputs
+      Cardano.PlutusData.from_hex(spend.redeemer),
+      Cardano.ExUnits.new(Cardano.BigNum.from_str(exUnits.mem), Cardano.BigNum.from_str(exUnits.steps)),
+    );
+    const witness = spend.datum
+      ? Cardano.PlutusWitness.new(script, Cardano.PlutusData.from_hex(spend.datum), redeemer)
+      : Cardano.PlutusWitness.new_without_datum(script, redeemer);
+
+    const inputs = Cardano.TxInputsBuilder.new();
+    inputs.add_plutus_script_input(witness, toInput(spend.utxo), toValue(spend.utxo.amount));
+    builder.set_inputs(inputs);
+
+    // Without a collateral return the whole collateral UTXO is forfeited should the script fail on chain,
+    // which evaluating the transaction beforehand rules out
+    const collateralInputs = Cardano.TxInputsBuilder.new();
+    collateralInputs.add_regular_input(
+      Cardano.Address.from_bech32(collateral.address),
+      toInput(collateral),
+      toValue(collateral.amount),
+    );
+    builder.set_collateral(collateralInputs);
+  };
+
+/**
+ * Execution units of the transaction's spend script, as evaluated by Blockfrost
+ */
+export async function evaluateTransaction(walletId: string, tx: string): Promise<ExUnits> {
+  const response = await chrome.runtime.sendMessage({ type: 'EVALUATE_TRANSACTION', payload: { walletId, tx } });
+  if (!response?.success) throw new Error(response?.error || 'Failed to evaluate transaction');
+
+  const units = Object.entries(response.units as Record<string, { memory: number; steps: number }>).find(([key]) =>
+    key.startsWith('spend:'),
+  )?.[1];
+  if (!units) throw new Error('The evaluation returned no units for the script');
+  return { mem: units.memory.toString(), steps: units.steps.toString() };
+}
+
+/**
+ * Builds a transaction spending a script output. It is built once with the maximum execution units to
+ * have the scripts evaluated, then again with the evaluated units (plus a margin) for an exact fee.
+ */
+export async function buildUnlockTransaction(
+  context: BuildContext,
+  wallet: Wallet,
+  spend: ScriptSpend,
+): Promise<BuiltTransaction & { exUnits: ExUnits }> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  const [utxos, collateral] = await Promise.all([getWalletUtxos(wallet), getCollateralUtxo(wallet)]);
+  const { max_tx_ex_mem, max_tx_ex_steps } = context.parameters;
+
+  const draft = await buildTransaction(
+    context,
+    utxos,
+    wallet.address,
+    configureUnlock(spend, collateral, { mem: max_tx_ex_mem, steps: max_tx_ex_steps }),
+  );
+  const evaluated = await evaluateTransaction(wallet.id, draft.tx);
+  const withMargin = (units: string, max: string) =>
+    BigInt(Math.min(Math.ceil(Number(units) * EX_UNITS_MARGIN), Number(max))).toString();
+  const exUnits = {
+    mem: withMargin(evaluated.mem, max_tx_ex_mem),
+    steps: withMargin(evaluated.steps, max_tx_ex_steps),
+  };
+
+  const built = await buildTransaction(context, utxos, wallet.address, configureUnlock(spend, collateral, exUnits));
+
+  const fee = BigInt(Cardano.FixedTransaction.from_hex(built.tx).body().fee().to_str());
+  const collateralLovelace = BigInt(collateral.amount.find(amount => amount.unit === 'lovelace')?.quantity || '0');
+  const requiredCollateral = (fee * BigInt(context.parameters.collateral_percent) + BigInt(99)) / BigInt(100);
+  if (collateralLovelace < requiredCollateral) {
+    throw new Error(
+      `The collateral UTXO holds less than the ${Number(requiredCollateral) / 1_000_000} ADA this transaction requires`,
+    );
+  }
+
+  return { ...built, otherInputs: [spend.utxo, collateral], exUnits };
+}
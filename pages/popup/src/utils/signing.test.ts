@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  COLLATERAL_INPUT,
+  DEREGISTER_STAKE_TX,
+  DREP_KEY,
+  FOREIGN_INPUT,
+  FOREIGN_KEY_HASH,
+  OWN_INPUT,
+  PAYMENT_KEY,
+  PAYMENT_KEY_HASH,
+  REGISTER_STAKE_TX,
+  SPEND_TX,
+  STAKE_KEY,
+  STAKE_KEY_HASH,
+} from './__fixtures__/transactions';
+import { CardanoLoader } from './cardano_loader';
+import { hexToBytes } from './cose';
+import { getRequiredKeyHashes, signTransaction } from './signing';
+import type { SigningKeys } from './signing';
+
+let keys: SigningKeys;
+
+// Public keys of the vkey witnesses in a witness set, as hex
+const witnessKeys = (witnessSetHex: string): string[] => {
+  const vkeys = CardanoLoader.Cardano.TransactionWitnessSet.from_hex(witnessSetHex).vkeys();
+  const publicKeys: string[] = [];
+  for (let i = 0; vkeys && i < vkeys.len(); i++) {
+    publicKeys.push(vkeys.get(i).vkey().public_key().to_hex());
+  }
+  return publicKeys;
+};
+
+beforeAll(async () => {
+  await CardanoLoader.load();
+  const privateKey = (hex: string) => CardanoLoader.Cardano.PrivateKey.from_normal_bytes(hexToBytes(hex));
+  keys = { paymentKey: privateKey(PAYMENT_KEY), stakeKey: privateKey(STAKE_KEY), drepKey: privateKey(DREP_KEY) };
+});
+
+describe('getRequiredKeyHashes', () => {
+  it('requires the payment keys of spent and collateral inputs', async () => {
+    const { keyHashes, unresolvedInputs } = await getRequiredKeyHashes(SPEND_TX, [
+      OWN_INPUT,
+      FOREIGN_INPUT,
+      COLLATERAL_INPUT,
+    ]);
+    expect(keyHashes.sort()).toEqual([PAYMENT_KEY_HASH, FOREIGN_KEY_HASH].sort());
+    expect(unresolvedInputs).toBe(0);
+  });
+
+  it('counts inputs whose spent output is unknown', async () => {
+    const { keyHashes, unresolvedInputs } = await getRequiredKeyHashes(SPEND_TX, [OWN_INPUT, null, COLLATERAL_INPUT]);
+    expect(keyHashes).toEqual([PAYMENT_KEY_HASH]);
+    expect(unresolvedInputs).toBe(1);
+  });
+
+  it('requires the stake key of registrations with a deposit', async () => {
+    const { keyHashes } = await getRequiredKeyHashes(REGISTER_STAKE_TX, [OWN_INPUT]);
+    expect(keyHashes).toEqual([PAYMENT_KEY_HASH, STAKE_KEY_HASH]);
+  });
+
+  it('requires the stake key of deregistrations and withdrawals once', async () => {
+    const { keyHashes } = await getRequiredKeyHashes(DEREGISTER_STAKE_TX, [OWN_INPUT, COLLATERAL_INPUT]);
+    expect(keyHashes).toEqual([PAYMENT_KEY_HASH, STAKE_KEY_HASH]);
+  });
+});
+
+describe('signTransaction', () => {
+  it('witnesses with every key the transaction requires', async () => {
+    const witnessSet = await signTransaction(REGISTER_STAKE_TX, keys, [OWN_INPUT], false);
+    expect(witnessKeys(witnessSet)).toEqual([keys.paymentKey.to_public().to_hex(), keys.stakeKey.to_public().to_hex()]);
+  });
+
+  it('fails without partialSign when another key is required', async () => {
+    await expect(signTransaction(SPEND_TX, keys, [OWN_INPUT, FOREIGN_INPUT, COLLATERAL_INPUT], false)).rejects.toThrow(
+      'Transaction requires 1 key(s) not held by this wallet',
+    );
+  });
+
+  it('fails without partialSign when an input is unknown', async () => {
+    await expect(signTransaction(SPEND_TX, keys, [OWN_INPUT, null, COLLATERAL_INPUT], false)).rejects.toThrow(
+      'Transaction requires 0 key(s) not held by this wallet and spends 1 unknown input(s)',
+    );
+  });
+
+  it('witnesses with its own keys only when partialSign is set', async () => {
+    const witnessSet = await signTransaction(SPEND_TX, keys, [OWN_INPUT, FOREIGN_INPUT, COLLATERAL_INPUT], true);
+    expect(witnessKeys(witnessSet)).toEqual([keys.paymentKey.to_public().to_hex()]);
+  });
+});
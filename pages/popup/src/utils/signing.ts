@@ -0,0 +1,229 @@
+// Transaction and data signing for the CIP-30 approval pages (WASM only runs in popup context)
+import { APIErrorCode, DataSignErrorCode } from '@extension/shared';
+import type { Cip30Error } from '@extension/shared';
+import { CardanoLoader } from './cardano_loader';
+import { buildCoseSign1, hexToBytes } from './cose';
+
+export interface SigningKeys {
+  paymentKey: any;
+  stakeKey: any;
+  drepKey: any;
+}
+
+export interface TxInputRef {
+  txHash: string;
+  outputIndex: number;
+}
+
+export interface ResolvedInput {
+  tx_hash: string;
+  output_index: number;
+  address: string;
+  amount: { unit: string; quantity: string }[];
+}
+
+const inputKey = (txHash: string, outputIndex: number) => `${txHash}#${outputIndex}`;
+
+const credentialKeyHash = (credential: any): string | undefined => credential?.to_keyhash()?.to_hex();
+
+// Stake or DRep credential of a certificate that needs a witness from its owner
+const certificateKeyHash = (cert: any): string | undefined => {
+  const drepCert = cert.as_drep_registration() || cert.as_drep_deregistration() || cert.as_drep_update();
+  if (drepCert) {
+    return credentialKeyHash(drepCert.voting_credential());
+  }
+
+  const registration = cert.as_stake_registration();
+  if (registration) {
+    // Legacy registrations without an explicit deposit do not need a witness
+    return registration.coin() ? credentialKeyHash(registration.stake_credential()) : undefined;
+  }
+
+  const stakeCert =
+    cert.as_stake_deregistration() ||
+    cert.as_stake_delegation() ||
+    cert.as_stake_and_vote_delegation() ||
+    cert.as_stake_registration_and_delegation() ||
+    cert.as_stake_vote_registration_and_delegation() ||
+    cert.as_vote_delegation() ||
+    cert.as_vote_registration_and_delegation();
+  return stakeCert ? credentialKeyHash(stakeCert.stake_credential()) : undefined;
+};
+
+/**
+ * Lists the inputs a transaction spends, including its collateral inputs
+ */
+export async function getTransactionInputs(txHex: string): Promise<TxInputRef[]> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  const body = Cardano.FixedTransaction.from_hex(txHex).body();
+  const refs: TxInputRef[] = [];
+  const collect = (inputs: any) => {
+    if (!inputs) return;
+    for (let i = 0; i < inputs.len(); i++) {
+      const input = inputs.get(i);
+      refs.push({ txHash: input.transaction_id().to_hex(), outputIndex: input.index() });
+    }
+  };
+  collect(body.inputs());
+  collect(body.collateral());
+  return refs;
+}
+
+/**
+ * Collects the key hashes a transaction needs vkey witnesses for: inputs, stake and DRep certificates,
+ * withdrawals, governance votes and required signers. Inputs whose spent output could not be
+ * resolved are counted separately, as their owner is unknown.
+ */
+export async function getRequiredKeyHashes(
+  txHex: string,
+  resolvedInputs: (ResolvedInput | null)[],
+): Promise<{ keyHashes: string[]; unresolvedInputs: number }> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  const body = Cardano.FixedTransaction.from_hex(txHex).body();
+  const keyHashes = new Set<string>();
+  let unresolvedInputs = 0;
+
+  const addresses = new Map<string, string>();
+  resolvedInputs.forEach(input => {
+    if (input) addresses.set(inputKey(input.tx_hash, input.output_index), input.address);
+  });
+
+  for (const ref of await getTransactionInputs(txHex)) {
+    const address = addresses.get(inputKey(ref.txHash, ref.outputIndex));
+    if (!address) {
+      unresolvedInputs++;
+      continue;
+    }
+    const keyHash = credentialKeyHash(Cardano.Address.from_bech32(address).payment_cred());
+    // Script-locked outputs are unlocked by their script, not by a vkey witness
+    if (keyHash) keyHashes.add(keyHash);
+  }
+
+  const certs = body.certs();
+  for (let i = 0; certs && i < certs.len(); i++) {
+    const keyHash = certificateKeyHash(certs.get(i));
+    if (keyHash) keyHashes.add(keyHash);
+  }
+
+  const withdrawals = body.withdrawals();
+  const rewardAddresses = withdrawals?.keys();
+  for (let i = 0; rewardAddresses && i < rewardAddresses.len(); i++) {
+    const keyHash = credentialKeyHash(rewardAddresses.get(i).payment_cred());
+    if (keyHash) keyHashes.add(keyHash);
+  }
+
+  // Governance votes are witnessed by the key of each voter (DRep, SPO or committee hot key)
+  const voters = body.voting_procedures()?.get_voters();
+  for (let i = 0; voters && i < voters.len(); i++) {
+    const keyHash = voters.get(i)?.to_key_hash()?.to_hex();
+    if (keyHash) keyHashes.add(keyHash);
+  }
+
+  const requiredSigners = body.required_signers();
+  for (let i = 0; requiredSigners && i < requiredSigners.len(); i++) {
+    keyHashes.add(requiredSigners.get(i).to_hex());
+  }
+
+  return { keyHashes: Array.from(keyHashes), unresolvedInputs };
+}
+
+/**
+ * Signs a transaction with the wallet keys it requires and returns the CBOR TransactionWitnessSet.
+ * Unless partialSign is set, fails when the transaction also needs keys this wallet does not hold.
+ */
+export async function signTransaction(
+  txHex: string,
+  keys: SigningKeys,
+  resolvedInputs: (ResolvedInput | null)[],
+  partialSign: boolean,
+): Promise<string> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  const { keyHashes, unresolvedInputs } = await getRequiredKeyHashes(txHex, resolvedInputs);
+  const ownKeys = new Map<string, any>([
+    [keys.paymentKey.to_public().hash().to_hex(), keys.paymentKey],
+    [keys.stakeKey.to_public().hash().to_hex(), keys.stakeKey],
+    [keys.drepKey.to_public().hash().to_hex(), keys.drepKey],
+  ]);
+
+  const signingKeys = keyHashes.filter(hash => ownKeys.has(hash)).map(hash => ownKeys.get(hash));
+  const missingKeys = keyHashes.length - signingKeys.length;
+
+  if (!partialSign && (missingKeys > 0 || unresolvedInputs > 0)) {
+    throw new Error(
+      `Transaction requires ${missingKeys} key(s) not held by this wallet` +
+        (unresolvedInputs > 0 ? ` and spends ${unresolvedInputs} unknown input(s)` : ''),
+    );
+  }
+
+  const txHash = Cardano.FixedTransaction.from_hex(txHex).transaction_hash();
+  const vkeyWitnesses = Cardano.Vkeywitnesses.new();
+  signingKeys.forEach(key => vkeyWitnesses.add(Cardano.make_vkey_witness(txHash, key)));
+
+  const witnessSet = Cardano.TransactionWitnessSet.new();
+  witnessSet.set_vkeys(vkeyWitnesses);
+  return witnessSet.to_hex();
+}
+
+// dApps pass addresses either as raw hex bytes or as bech32
+const parseAddress = (Cardano: any, address: string) =>
+  /^[a-z_]+1[02-9ac-hj-np-z]+$/.test(address)
+    ? Cardano.Address.from_bech32(address)
+    : Cardano.Address.from_hex(address);
+
+/**
+ * Works out which wallet key controls an address for signData. Throws a Cip30Error with the
+ * matching DataSignError code when the address is not a key address or belongs to another wallet,
+ * and an InvalidRequest APIError when it cannot be parsed at all.
+ */
+export async function getDataSigningRole(
+  address: string,
+  wallet: { address: string; stakeAddress: string },
+): Promise<'payment' | 'stake'> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  let credential;
+  try {
+    credential = parseAddress(Cardano, address).payment_cred();
+  } catch {
+    throw { code: APIErrorCode.InvalidRequest, info: `Invalid address: ${address}` } as Cip30Error;
+  }
+  if (!credential || !credential.to_keyhash()) {
+    throw { code: DataSignErrorCode.AddressNotPK, info: 'Address is not controlled by a public key' } as Cip30Error;
+  }
+
+  const keyHash = credential.to_keyhash().to_hex();
+  const paymentKeyHash = credentialKeyHash(Cardano.Address.from_bech32(wallet.address).payment_cred());
+  const stakeKeyHash = credentialKeyHash(Cardano.Address.from_bech32(wallet.stakeAddress).payment_cred());
+
+  if (keyHash === paymentKeyHash) return 'payment';
+  if (keyHash === stakeKeyHash) return 'stake';
+  throw { code: DataSignErrorCode.ProofGeneration, info: 'Address does not belong to this wallet' } as Cip30Error;
+}
+
+/**
+ * Signs a hex payload for an address as a CIP-8 COSE_Sign1 message and returns it with its COSE_Key
+ */
+export async function signData(
+  address: string,
+  payloadHex: string,
+  keys: SigningKeys,
+  role: 'payment' | 'stake',
+): Promise<{ signature: string; key: string }> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  const privateKey = role === 'payment' ? keys.paymentKey : keys.stakeKey;
+  return buildCoseSign1(
+    parseAddress(Cardano, address).to_bytes(),
+    hexToBytes(payloadHex),
+    privateKey.to_public().as_bytes(),
+    sigStructure => privateKey.sign(sigStructure).to_bytes(),
+  );
+}
@@ -0,0 +1,67 @@
+// Stake certificates and reward withdrawals for the Staking screen (WASM only runs in popup context)
+import { CardanoLoader } from './cardano_loader';
+
+export type StakingAction = 'register' | 'register-delegate' | 'delegate' | 'withdraw' | 'deregister';
+
+// Blockfrost /accounts/{stake_address} fields the Staking screen shows
+export interface AccountInfo {
+  stake_address: string;
+  active: boolean;
+  controlled_amount: string;
+  withdrawable_amount: string;
+  pool_id: string | null;
+  drep_id?: string | null;
+}
+
+export interface PoolInfo {
+  pool_id: string;
+  ticker: string | null;
+  name: string | null;
+}
+
+/**
+ * Parses a pool id given as bech32 (pool1...) or as a hex key hash
+ */
+export function parsePoolId(poolId: string) {
+  const Cardano = CardanoLoader.Cardano;
+
+  const trimmed = poolId.trim();
+  try {
+    return /^[0-9a-f]{56}$/i.test(trimmed)
+      ? Cardano.Ed25519KeyHash.from_hex(trimmed)
+      : Cardano.Ed25519KeyHash.from_bech32(trimmed);
+  } catch {
+    throw new Error('Enter a valid pool id');
+  }
+}
+
+/**
+ * Returns the buildTransaction configure step for a staking action. Registration uses the deposit-less
+ * certificate form, so the builder takes the key deposit from the protocol parameters and refunds it
+ * again on deregistration. Deregistering also withdraws the remaining rewards, as the ledger only
+ * deregisters empty reward accounts.
+ */
+export function configureStaking(action: StakingAction, stakeAddress: string, poolId: string, withdrawable: string) {
+  return (builder: any, Cardano: any) => {
+    const rewardAddress = Cardano.RewardAddress.from_address(Cardano.Address.from_bech32(stakeAddress));
+    const credential = rewardAddress.payment_cred();
+
+    const certs = Cardano.Certificates.new();
+    if (action === 'register' || action === 'register-delegate') {
+      certs.add(Cardano.Certificate.new_stake_registration(Cardano.StakeRegistration.new(credential)));
+    }
+    if (action === 'register-delegate' || action === 'delegate') {
+      certs.add(Cardano.Certificate.new_stake_delegation(Cardano.StakeDelegation.new(credential, parsePoolId(poolId))));
+    }
+    if (action === 'deregister') {
+      certs.add(Cardano.Certificate.new_stake_deregistration(Cardano.StakeDeregistration.new(credential)));
+    }
+    if (certs.len() > 0) builder.set_certs(certs);
+
+    if ((action === 'withdraw' || action === 'deregister') && BigInt(withdrawable) > BigInt(0)) {
+      const withdrawals = Cardano.Withdrawals.new();
+      withdrawals.insert(rewardAddress, Cardano.BigNum.from_str(withdrawable));
+      builder.set_withdrawals(withdrawals);
+    }
+  };
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Wallet } from '@extension/shared';
+import type { Transaction, UTXORecord } from '@extension/storage';
+import {
+  COLLATERAL_INPUT,
+  DEREGISTER_STAKE_TX,
+  FOREIGN_ADDRESS,
+  FOREIGN_INPUT,
+  OWN_ADDRESS,
+  OWN_INPUT,
+  REGISTER_STAKE_TX,
+  SPEND_TX,
+} from './__fixtures__/transactions';
+import { getSelectedUtxos, submitTransaction } from './txBuilder';
+
+const sendMessage = vi.fn();
+
+// Pending transaction the background was asked to record
+const submitted = (): Transaction => sendMessage.mock.calls[0][0].payload.pendingTransaction;
+
+beforeEach(() => {
+  sendMessage.mockReset().mockResolvedValue({ success: true, txHash: 'hash' });
+  vi.stubGlobal('chrome', { runtime: { sendMessage } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('submitTransaction', () => {
+  it('sends the signed transaction and returns its hash', async () => {
+    await expect(submitTransaction('wallet-1', SPEND_TX, [OWN_INPUT, FOREIGN_INPUT, COLLATERAL_INPUT])).resolves.toBe(
+      'hash',
+    );
+    expect(sendMessage).toHaveBeenCalledWith({
+      type: 'SUBMIT_TRANSACTION',
+      payload: expect.objectContaining({ walletId: 'wallet-1', tx: SPEND_TX }),
+    });
+    expect(submitted().deposit).toBe('0');
+    expect(submitted().fees).toBe('200000');
+  });
+
+  it('records a stake key deposit', async () => {
+    await submitTransaction('wallet-1', REGISTER_STAKE_TX, [OWN_INPUT]);
+    expect(submitted().deposit).toBe('2000000');
+    expect(submitted().stake_cert_count).toBe(1);
+  });
+
+  it('records a refund as a negative deposit, counting withdrawals but not collateral', async () => {
+    await submitTransaction('wallet-1', DEREGISTER_STAKE_TX, [OWN_INPUT, COLLATERAL_INPUT]);
+    expect(submitted().deposit).toBe('-2000000');
+    expect(submitted().withdrawal_count).toBe(1);
+    expect(submitted().inputs?.map(input => input.tx_hash)).toEqual([OWN_INPUT.tx_hash]);
+  });
+
+  it('fails when the background rejects the transaction', async () => {
+    sendMessage.mockResolvedValue({ success: false, error: 'BadInputsUTxO' });
+    await expect(submitTransaction('wallet-1', SPEND_TX, [OWN_INPUT, FOREIGN_INPUT])).rejects.toThrow('BadInputsUTxO');
+  });
+});
+
+describe('getSelectedUtxos', () => {
+  const utxo = (input: typeof OWN_INPUT, isSpent = false): UTXORecord => ({
+    ...input,
+    block: 'block',
+    isSpent,
+    walletId: 'wallet-1',
+    lastSynced: 0,
+  });
+  const ref = (input: typeof OWN_INPUT) => ({ txHash: input.tx_hash, outputIndex: input.output_index });
+  const wallet = (selectedUtxos: Wallet['selectedUtxos']) =>
+    ({ id: 'wallet-1', address: OWN_ADDRESS, selectedUtxos }) as Wallet;
+
+  beforeEach(() => {
+    // FOREIGN_INPUT stands for another address synced under the wallet's stake key
+    sendMessage.mockResolvedValue({
+      success: true,
+      utxos: [utxo(OWN_INPUT), utxo(COLLATERAL_INPUT, true), utxo({ ...FOREIGN_INPUT, address: FOREIGN_ADDRESS })],
+    });
+  });
+
+  it('returns the selected UTXOs at the wallet address', async () => {
+    await expect(getSelectedUtxos(wallet([ref(OWN_INPUT)]))).resolves.toMatchObject([{ tx_hash: OWN_INPUT.tx_hash }]);
+  });
+
+  it('fails on spent selections', async () => {
+    await expect(getSelectedUtxos(wallet([ref(OWN_INPUT), ref(COLLATERAL_INPUT)]))).rejects.toThrow(
+      'no longer spendable',
+    );
+  });
+
+  it('names selections at other addresses the wallet cannot sign for', async () => {
+    await expect(getSelectedUtxos(wallet([ref(OWN_INPUT), ref(FOREIGN_INPUT)]))).rejects.toThrow(
+      'cannot be signed by this wallet (22222222…#1)',
+    );
+  });
+});
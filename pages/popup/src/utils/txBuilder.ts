@@ -0,0 +1,507 @@
+// Transaction building for the popup's own transactions (WASM only runs in popup context)
+import type { Wallet } from '@extension/shared';
+import type { Transaction, UTXORecord } from '@extension/storage';
+import { CardanoLoader } from './cardano_loader';
+import { bytesToHex } from './cose';
+import { deriveSigningKeysFromMnemonic } from './crypto';
+import { signTransaction } from './signing';
+import type { ResolvedInput } from './signing';
+import { valueAmounts } from './txPreview';
+import type { AssetAmount } from './txPreview';
+
+// Blockfrost /epochs/latest/parameters fields the builder needs
+export interface ProtocolParameters {
+  min_fee_a: number;
+  min_fee_b: number;
+  max_tx_size: number;
+  max_val_size: string;
+  key_deposit: string;
+  pool_deposit: string;
+  coins_per_utxo_size: string;
+  price_mem: number;
+  price_step: number;
+  min_fee_ref_script_cost_per_byte: number | null;
+  collateral_percent: number;
+  max_tx_ex_mem: string;
+  max_tx_ex_steps: string;
+  cost_models_raw?: Record<string, number[]> | null;
+  drep_deposit?: string | null;
+}
+
+export interface BuildContext {
+  parameters: ProtocolParameters;
+  slot: number; // Current tip, the validity window starts here
+}
+
+export interface BuiltTransaction {
+  tx: string; // Unsigned transaction CBOR
+  inputs: UTXORecord[]; // Wallet UTXOs the transaction spends
+  otherInputs?: ResolvedInput[]; // Script and collateral inputs, resolved for signing only
+}
+
+// Matches the pending transaction timeout of the background sync
+export const TX_VALIDITY_SECONDS = 2 * 60 * 60;
+
+const CIP20_LABEL = '674';
+
+/**
+ * Fetches protocol parameters and the tip slot through the background
+ */
+export async function getBuildContext(walletId: string): Promise<BuildContext> {
+  const response = await chrome.runtime.sendMessage({ type: 'GET_PROTOCOL_PARAMETERS', payload: { walletId } });
+  if (!response?.success) {
+    throw new Error(response?.error || 'Failed to fetch protocol parameters');
+  }
+  return { parameters: response.parameters, slot: response.slot };
+}
+
+/**
+ * Whether a UTXO is unspent at the wallet's own address, the only address it can sign for. Other
+ * addresses under its stake key are synced too, but their payment keys are not the wallet's.
+ */
+export const isSpendableUtxo = (wallet: Wallet, utxo: UTXORecord): boolean =>
+  !utxo.isSpent && utxo.address === wallet.address;
+
+const getCachedUtxos = async (wallet: Wallet): Promise<UTXORecord[]> => {
+  const cached = await chrome.runtime.sendMessage({ type: 'GET_CACHED_DATA', payload: { walletId: wallet.id } });
+  return (cached?.utxos || []) as UTXORecord[];
+};
+
+const getOwnUtxos = async (wallet: Wallet): Promise<UTXORecord[]> =>
+  (await getCachedUtxos(wallet)).filter(utxo => isSpendableUtxo(wallet, utxo));
+
+/**
+ * UTXOs the wallet can spend in its own transactions; the designated collateral stays untouched
+ */
+export async function getWalletUtxos(wallet: Wallet): Promise<UTXORecord[]> {
+  return (await getOwnUtxos(wallet)).filter(
+    utxo => wallet.collateral?.txHash !== utxo.tx_hash || wallet.collateral?.outputIndex !== utxo.output_index,
+  );
+}
+
+/**
+ * The wallet's coin control selection, failing when it is empty, holds UTXOs that were spent meanwhile, or
+ * holds UTXOs at other addresses under the stake key (selectable for getUtxos pinning, but not signable here)
+ */
+export async function getSelectedUtxos(wallet: Wallet): Promise<UTXORecord[]> {
+  const selectedRefs = wallet.selectedUtxos || [];
+  if (selectedRefs.length === 0) {
+    throw new Error('Select UTXOs in the UTXO list first');
+  }
+  const cached = await getCachedUtxos(wallet);
+  const selected = selectedRefs.map(ref =>
+    cached.find(utxo => utxo.tx_hash === ref.txHash && utxo.output_index === ref.outputIndex && !utxo.isSpent),
+  );
+  if (selected.some(utxo => !utxo)) {
+    throw new Error('Some selected UTXOs are no longer spendable, update the selection in the UTXO list');
+  }
+
+  const utxos = selected as UTXORecord[];
+  const unsignable = utxos.filter(utxo => !isSpendableUtxo(wallet, utxo));
+  if (unsignable.length > 0) {
+    const refs = unsignable.map(utxo => `${utxo.tx_hash.slice(0, 8)}…#${utxo.output_index}`).join(', ');
+    throw new Error(
+      `Selected UTXOs at other addresses of the stake key cannot be signed by this wallet (${refs}), deselect them in the UTXO list`,
+    );
+  }
+  return utxos;
+}
+
+/**
+ * The wallet's designated collateral UTXO, failing when none is set or it was spent meanwhile
+ */
+export async function getCollateralUtxo(wallet: Wallet): Promise<UTXORecord> {
+  if (!wallet.collateral) {
+    throw new Error('Designate a collateral UTXO in the UTXO list first');
+  }
+  const collateral = (await getCachedUtxos(wallet)).find(
+    utxo =>
+      utxo.tx_hash === wallet.collateral?.txHash &&
+      utxo.output_index === wallet.collateral?.outputIndex &&
+      !utxo.isSpent,
+  );
+  if (!collateral) {
+    throw new Error('The collateral UTXO is no longer spendable, designate another one in the UTXO list');
+  }
+  if (!isSpendableUtxo(wallet, collateral)) {
+    throw new Error(
+      'The collateral UTXO is at another address of the stake key, which this wallet cannot sign for; designate one at the wallet address in the UTXO list',
+    );
+  }
+  return collateral;
+}
+
+// Protocol parameters come as decimals, the ledger wants exact fractions
+const toUnitInterval = (Cardano: any, value: number) => {
+  const denominator = 10 ** Math.min(12, (value.toString().split('.')[1] || '').length);
+  return Cardano.UnitInterval.new(
+    Cardano.BigNum.from_str(Math.round(value * denominator).toString()),
+    Cardano.BigNum.from_str(denominator.toString()),
+  );
+};
+
+/**
+ * Creates a transaction builder configured from the current protocol parameters
+ */
+export function createTxBuilder(parameters: ProtocolParameters) {
+  const Cardano = CardanoLoader.Cardano;
+
+  let config = Cardano.TransactionBuilderConfigBuilder.new()
+    .fee_algo(
+      Cardano.LinearFee.new(
+        Cardano.BigNum.from_str(parameters.min_fee_a.toString()),
+        Cardano.BigNum.from_str(parameters.min_fee_b.toString()),
+      ),
+    )
+    .pool_deposit(Cardano.BigNum.from_str(parameters.pool_deposit))
+    .key_deposit(Cardano.BigNum.from_str(parameters.key_deposit))
+    .max_value_size(Number(parameters.max_val_size))
+    .max_tx_size(parameters.max_tx_size)
+    .coins_per_utxo_byte(Cardano.BigNum.from_str(parameters.coins_per_utxo_size))
+    .ex_unit_prices(
+      Cardano.ExUnitPrices.new(
+        toUnitInterval(Cardano, parameters.price_mem),
+        toUnitInterval(Cardano, parameters.price_step),
+      ),
+    );
+  if (parameters.min_fee_ref_script_cost_per_byte) {
+    config = config.ref_script_coins_per_byte(toUnitInterval(Cardano, parameters.min_fee_ref_script_cost_per_byte));
+  }
+
+  return Cardano.TransactionBuilder.new(config.build());
+}
+
+// Cost models of the Plutus versions, in the order Blockfrost lists their parameters
+const buildCostModels = (Cardano: any, parameters: ProtocolParameters) => {
+  const languages: Record<string, any> = {
+    PlutusV1: Cardano.Language.new_plutus_v1(),
+    PlutusV2: Cardano.Language.new_plutus_v2(),
+    PlutusV3: Cardano.Language.new_plutus_v3(),
+  };
+  const costModels = Cardano.Costmdls.new();
+  Object.entries(parameters.cost_models_raw || {}).forEach(([version, costs]) => {
+    if (!languages[version]) return;
+    const costModel = Cardano.CostModel.new();
+    costs.forEach((cost, operation) => costModel.set(operation, Cardano.Int.from_str(cost.toString())));
+    costModels.insert(languages[version], costModel);
+  });
+  return costModels;
+};
+
+/**
+ * Builds a WASM Value from Blockfrost-style amounts
+ */
+export function toValue(amounts: AssetAmount[]) {
+  const Cardano = CardanoLoader.Cardano;
+
+  const value = Cardano.Value.new(
+    Cardano.BigNum.from_str(amounts.find(amount => amount.unit === 'lovelace')?.quantity || '0'),
+  );
+  const multiAsset = Cardano.MultiAsset.new();
+  amounts
+    .filter(amount => amount.unit !== 'lovelace')
+    .forEach(({ unit, quantity }) =>
+      multiAsset.set_asset(
+        Cardano.ScriptHash.from_hex(unit.slice(0, 56)),
+        Cardano.AssetName.new(new Uint8Array((unit.slice(56).match(/.{2}/g) || []).map(byte => parseInt(byte, 16)))),
+        Cardano.BigNum.from_str(quantity),
+      ),
+    );
+  if (multiAsset.len() > 0) value.set_multiasset(multiAsset);
+  return value;
+}
+
+/**
+ * Converts a decimal amount as typed into an asset's base units; null when it is not a positive amount
+ */
+export function toBaseUnits(amount: string, decimals: number): string | null {
+  const match = amount.trim().match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[1] && !match[2]) || (match[2] || '').length > decimals) return null;
+  const units = BigInt((match[1] || '0') + (match[2] || '').padEnd(decimals, '0'));
+  return units > BigInt(0) ? units.toString() : null;
+}
+
+/**
+ * Builds an output paying the amounts to an address, optionally with an inline datum, raising its ADA
+ * to the minimum the ledger requires
+ */
+export function buildOutput(address: string, amounts: AssetAmount[], parameters: ProtocolParameters, datum?: any) {
+  const Cardano = CardanoLoader.Cardano;
+
+  const createOutput = (value: any) => {
+    const output = Cardano.TransactionOutput.new(Cardano.Address.from_bech32(address), value);
+    if (datum) output.set_plutus_data(datum);
+    return output;
+  };
+
+  const output = createOutput(toValue(amounts));
+  const minAda = Cardano.min_ada_for_output(
+    output,
+    Cardano.DataCost.new_coins_per_byte(Cardano.BigNum.from_str(parameters.coins_per_utxo_size)),
+  );
+  if (output.amount().coin().less_than(minAda)) {
+    const value = output.amount();
+    value.set_coin(minAda);
+    return createOutput(value);
+  }
+  return output;
+}
+
+/**
+ * Splits a string into chunks of at most 64 bytes, the longest string transaction metadata allows
+ */
+export function chunkMetadataString(text: string): string[] {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of text) {
+    if (encoder.encode(chunk + char).length > 64) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) chunks.push(chunk);
+  return chunks;
+}
+
+/**
+ * CIP-20 transaction message metadata, split into chunks of at most 64 bytes
+ */
+export function buildMessageMetadata(message: string) {
+  const Cardano = CardanoLoader.Cardano;
+
+  const metadata = Cardano.GeneralTransactionMetadata.new();
+  metadata.insert(
+    Cardano.BigNum.from_str(CIP20_LABEL),
+    Cardano.encode_json_str_to_metadatum(
+      JSON.stringify({ msg: chunkMetadataString(message) }),
+      Cardano.MetadataJsonSchema.NoConversions,
+    ),
+  );
+  const auxiliaryData = Cardano.AuxiliaryData.new();
+  auxiliaryData.set_metadata(metadata);
+  return auxiliaryData;
+}
+
+/**
+ * Balances a transaction against the wallet's UTXOs: selects inputs (CIP-2 largest first), sends change
+ * back to the change address and sets the validity window. `configure` adds outputs, certificates,
+ * metadata and the like to the builder before balancing. With `exactInputs` every given UTXO is spent
+ * and no others (coin control). Transactions running Plutus scripts get their script data hash.
+ */
+export async function buildTransaction(
+  context: BuildContext,
+  utxos: UTXORecord[],
+  changeAddress: string,
+  configure: (builder: any, Cardano: any) => void | Promise<void>,
+  exactInputs = false,
+): Promise<BuiltTransaction> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  const builder = createTxBuilder(context.parameters);
+  // Slots last one second, so the validity window ends TX_VALIDITY_SECONDS from now; configure may shorten it
+  builder.set_ttl_bignum(Cardano.BigNum.from_str((context.slot + TX_VALIDITY_SECONDS).toString()));
+  await configure(builder, Cardano);
+
+  // The script data hash commits to the redeemers, whose indices only settle once all inputs are in, and
+  // has to be set before change is added so the fee accounts for it
+  const plutus = !!builder.get_plutus_input_scripts();
+  const addChange = () => {
+    if (plutus) builder.calc_script_data_hash(buildCostModels(Cardano, context.parameters));
+    builder.add_change_if_needed(Cardano.Address.from_bech32(changeAddress));
+  };
+
+  const toInput = (utxo: UTXORecord) =>
+    Cardano.TransactionInput.new(Cardano.TransactionHash.from_hex(utxo.tx_hash), utxo.output_index);
+
+  if (exactInputs) {
+    utxos.forEach(utxo =>
+      builder.add_regular_input(Cardano.Address.from_bech32(utxo.address), toInput(utxo), toValue(utxo.amount)),
+    );
+    try {
+      addChange();
+    } catch (error) {
+      console.error('Balancing failed:', error);
+      throw new Error('The selected UTXOs do not cover the transaction and its fee');
+    }
+  } else {
+    const available = Cardano.TransactionUnspentOutputs.new();
+    utxos.forEach(utxo =>
+      available.add(
+        Cardano.TransactionUnspentOutput.new(
+          toInput(utxo),
+          Cardano.TransactionOutput.new(Cardano.Address.from_bech32(utxo.address), toValue(utxo.amount)),
+        ),
+      ),
+    );
+
+    try {
+      if (plutus) {
+        builder.add_inputs_from(available, Cardano.CoinSelectionStrategyCIP2.LargestFirstMultiAsset);
+        addChange();
+      } else {
+        builder.add_inputs_from_and_change(
+          available,
+          Cardano.CoinSelectionStrategyCIP2.LargestFirstMultiAsset,
+          Cardano.ChangeConfig.new(Cardano.Address.from_bech32(changeAddress)),
+        );
+      }
+    } catch (error) {
+      console.error('Coin selection failed:', error);
+      throw new Error('Insufficient funds to cover the transaction and its fee');
+    }
+  }
+
+  const tx = builder.build_tx();
+  const spent = new Set<string>();
+  const inputs = tx.body().inputs();
+  for (let i = 0; i < inputs.len(); i++) {
+    spent.add(`${inputs.get(i).transaction_id().to_hex()}:${inputs.get(i).index()}`);
+  }
+
+  return {
+    tx: bytesToHex(tx.to_bytes()),
+    inputs: utxos.filter(utxo => spent.has(`${utxo.tx_hash}:${utxo.output_index}`)),
+  };
+}
+
+/**
+ * Adds the vkey witnesses of a signed witness set to a transaction, keeping its body bytes as built
+ */
+export async function assembleTransaction(txHex: string, witnessSetHex: string): Promise<string> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  const tx = Cardano.FixedTransaction.from_hex(txHex);
+  const vkeys = Cardano.TransactionWitnessSet.from_hex(witnessSetHex).vkeys();
+  for (let i = 0; vkeys && i < vkeys.len(); i++) {
+    tx.add_vkey_witness(vkeys.get(i));
+  }
+  return tx.to_hex();
+}
+
+/**
+ * Wallet UTXOs in the form signTransaction resolves inputs from
+ */
+export const toResolvedInputs = (utxos: UTXORecord[]): ResolvedInput[] =>
+  utxos.map(({ tx_hash, output_index, address, amount }) => ({ tx_hash, output_index, address, amount }));
+
+// Certificates the provider counts as delegations and as stake key (de)registrations
+const DELEGATION_CERTS = [
+  'StakeDelegation',
+  'StakeAndVoteDelegation',
+  'StakeRegistrationAndDelegation',
+  'StakeVoteRegistrationAndDelegation',
+];
+const STAKE_CERTS = [
+  'StakeRegistration',
+  'StakeDeregistration',
+  'StakeRegistrationAndDelegation',
+  'StakeVoteRegistrationAndDelegation',
+  'VoteRegistrationAndDelegation',
+];
+
+const lovelaceOf = (amounts: { unit: string; quantity: string }[]) =>
+  BigInt(amounts.find(amount => amount.unit === 'lovelace')?.quantity || '0');
+
+/**
+ * Submits a signed transaction and records it as pending, so it shows up before it is confirmed. The resolved
+ * inputs cover everything the transaction spends, so its deposit can be worked out from the balance.
+ */
+export async function submitTransaction(walletId: string, signedTx: string, inputs: ResolvedInput[]): Promise<string> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  const tx = Cardano.FixedTransaction.from_hex(signedTx);
+  const body = tx.body();
+  const outputs: Transaction['outputs'] = [];
+  for (let i = 0; i < body.outputs().len(); i++) {
+    const output = body.outputs().get(i);
+    outputs.push({ address: output.address().to_bech32(), amount: valueAmounts(output.amount()), output_index: i });
+  }
+
+  // Collateral is among the resolved inputs but only spent when a script fails
+  const bodyInputs = body.inputs();
+  const spentKeys = new Set<string>();
+  for (let i = 0; i < bodyInputs.len(); i++) {
+    spentKeys.add(`${bodyInputs.get(i).transaction_id().to_hex()}#${bodyInputs.get(i).index()}`);
+  }
+  const spent = inputs.filter(input => spentKeys.has(`${input.tx_hash}#${input.output_index}`));
+
+  const certKinds: string[] = [];
+  const certs = body.certs();
+  for (let i = 0; certs && i < certs.len(); i++) {
+    certKinds.push(Cardano.CertificateKind[certs.get(i).kind()]);
+  }
+  const countCerts = (kinds: string[]) => certKinds.filter(kind => kinds.includes(kind)).length;
+
+  // Lovelace neither spent on outputs and fee nor withdrawn went to deposits; a negative balance is a refund
+  let withdrawn = BigInt(0);
+  const rewardAddresses = body.withdrawals()?.keys();
+  for (let i = 0; rewardAddresses && i < rewardAddresses.len(); i++) {
+    withdrawn += BigInt(body.withdrawals().get(rewardAddresses.get(i)).to_str());
+  }
+  const deposit =
+    spent.reduce((sum, input) => sum + lovelaceOf(input.amount), BigInt(0)) +
+    withdrawn -
+    outputs.reduce((sum, output) => sum + lovelaceOf(output.amount), BigInt(0)) -
+    BigInt(body.fee().to_str());
+
+  const pendingTransaction: Transaction = {
+    hash: tx.transaction_hash().to_hex(),
+    block: '',
+    block_height: 0,
+    block_time: Math.floor(Date.now() / 1000),
+    slot: 0,
+    index: 0,
+    output_amount: [],
+    fees: body.fee().to_str(),
+    deposit: deposit.toString(),
+    size: tx.to_bytes().length,
+    invalid_before: body.validity_start_interval_bignum()?.to_str() || null,
+    invalid_hereafter: body.ttl_bignum()?.to_str() || null,
+    utxo_count: spent.length + outputs.length,
+    withdrawal_count: body.withdrawals()?.len() || 0,
+    mir_cert_count: countCerts(['MoveInstantaneousRewardsCert']),
+    delegation_count: countCerts(DELEGATION_CERTS),
+    stake_cert_count: countCerts(STAKE_CERTS),
+    pool_update_count: countCerts(['PoolRegistration']),
+    pool_retire_count: countCerts(['PoolRetirement']),
+    asset_mint_or_burn_count: body.mint()?.len() || 0,
+    redeemer_count: tx.witness_set().redeemers()?.len() || 0,
+    valid_contract: true,
+    inputs: spent.map(({ address, amount, tx_hash, output_index }) => ({ address, amount, tx_hash, output_index })),
+    outputs,
+  };
+
+  const response = await chrome.runtime.sendMessage({
+    type: 'SUBMIT_TRANSACTION',
+    payload: { walletId, tx: signedTx, pendingTransaction },
+  });
+  if (!response?.success) {
+    throw new Error(response?.error || 'Failed to submit transaction');
+  }
+  return response.txHash;
+}
+
+/**
+ * Signs a built transaction with the wallet's keys and submits it. Throws 'Incorrect password' when the
+ * secret cannot be decrypted.
+ */
+export async function signAndSubmit(wallet: Wallet, password: string, built: BuiltTransaction): Promise<string> {
+  const secret = await chrome.runtime.sendMessage({
+    type: 'GET_DECRYPTED_SECRET',
+    payload: { id: wallet.id, password: wallet.hasPassword ? password : undefined },
+  });
+  if (!secret?.success) {
+    throw new Error('Incorrect password');
+  }
+
+  const keys = await deriveSigningKeysFromMnemonic(secret.secret);
+  const resolvedInputs = [...toResolvedInputs(built.inputs), ...(built.otherInputs || [])];
+  const witnessSet = await signTransaction(built.tx, keys, resolvedInputs, false);
+  const signedTx = await assembleTransaction(built.tx, witnessSet);
+  return submitTransaction(wallet.id, signedTx, resolvedInputs);
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  COLLATERAL_INPUT,
+  DEREGISTER_STAKE_TX,
+  FOREIGN_ADDRESS,
+  FOREIGN_INPUT,
+  FOREIGN_KEY_HASH,
+  OWN_ADDRESS,
+  OWN_INPUT,
+  SPEND_TX,
+  STAKE_KEY_HASH,
+  TOKEN_UNIT,
+} from './__fixtures__/transactions';
+import { CardanoLoader } from './cardano_loader';
+import { getTransactionInputs } from './signing';
+import { describeTransaction } from './txPreview';
+
+describe('describeTransaction', () => {
+  it('nets own outputs against own inputs', async () => {
+    const inputs = await getTransactionInputs(SPEND_TX);
+    const preview = await describeTransaction(
+      SPEND_TX,
+      inputs,
+      [OWN_INPUT, FOREIGN_INPUT, COLLATERAL_INPUT],
+      OWN_ADDRESS,
+    );
+    expect(preview.netChange).toEqual([
+      { unit: 'lovelace', quantity: '-1200000' },
+      { unit: TOKEN_UNIT, quantity: '-2' },
+    ]);
+    expect(preview.fee).toBe('200000');
+  });
+
+  it('flags inputs and outputs of other addresses', async () => {
+    const inputs = await getTransactionInputs(SPEND_TX);
+    const preview = await describeTransaction(
+      SPEND_TX,
+      inputs,
+      [OWN_INPUT, FOREIGN_INPUT, COLLATERAL_INPUT],
+      OWN_ADDRESS,
+    );
+    expect(preview.inputs.map(input => input.own)).toEqual([true, false]);
+    expect(preview.outputs.map(output => [output.address, output.own])).toEqual([
+      [FOREIGN_ADDRESS, false],
+      [OWN_ADDRESS, true],
+    ]);
+    expect(preview.collateral.map(input => input.own)).toEqual([true]);
+    expect(preview.foreignInputs).toBe(1);
+    expect(preview.unresolvedInputs).toBe(0);
+  });
+
+  it('counts unknown inputs apart from foreign ones', async () => {
+    const inputs = await getTransactionInputs(SPEND_TX);
+    const preview = await describeTransaction(SPEND_TX, inputs, [OWN_INPUT, null, COLLATERAL_INPUT], OWN_ADDRESS);
+    expect(preview.inputs[1].resolved).toBeNull();
+    expect(preview.foreignInputs).toBe(0);
+    expect(preview.unresolvedInputs).toBe(1);
+  });
+
+  it('flags inputs as foreign from the other address too', async () => {
+    const inputs = await getTransactionInputs(SPEND_TX);
+    const preview = await describeTransaction(
+      SPEND_TX,
+      inputs,
+      [OWN_INPUT, FOREIGN_INPUT, COLLATERAL_INPUT],
+      FOREIGN_ADDRESS,
+    );
+    expect(preview.foreignInputs).toBe(1);
+    expect(preview.netChange).toEqual([
+      { unit: 'lovelace', quantity: '1000000' },
+      { unit: TOKEN_UNIT, quantity: '2' },
+    ]);
+  });
+
+  it("does not count addresses under the stake key with another payment key as the wallet's", async () => {
+    await CardanoLoader.load();
+    const Cardano = CardanoLoader.Cardano;
+    // Synced with the wallet's addresses, but only the foreign key can spend from it
+    const sharedStakeAddress = Cardano.BaseAddress.new(
+      0,
+      Cardano.Credential.from_keyhash(Cardano.Ed25519KeyHash.from_hex(FOREIGN_KEY_HASH)),
+      Cardano.Credential.from_keyhash(Cardano.Ed25519KeyHash.from_hex(STAKE_KEY_HASH)),
+    )
+      .to_address()
+      .to_bech32();
+
+    const inputs = await getTransactionInputs(SPEND_TX);
+    const preview = await describeTransaction(
+      SPEND_TX,
+      inputs,
+      [OWN_INPUT, { ...FOREIGN_INPUT, address: sharedStakeAddress }, COLLATERAL_INPUT],
+      OWN_ADDRESS,
+    );
+    expect(preview.inputs.map(input => input.own)).toEqual([true, false]);
+    expect(preview.foreignInputs).toBe(1);
+    expect(preview.netChange).toEqual([
+      { unit: 'lovelace', quantity: '-1200000' },
+      { unit: TOKEN_UNIT, quantity: '-2' },
+    ]);
+  });
+
+  it('leaves collateral and withdrawals out of the net change', async () => {
+    const inputs = await getTransactionInputs(DEREGISTER_STAKE_TX);
+    const preview = await describeTransaction(DEREGISTER_STAKE_TX, inputs, [OWN_INPUT, COLLATERAL_INPUT], OWN_ADDRESS);
+    expect(preview.netChange).toEqual([{ unit: 'lovelace', quantity: '2300000' }]);
+    expect(preview.withdrawals).toHaveLength(1);
+    expect(preview.withdrawals[0].amount).toBe('500000');
+  });
+});
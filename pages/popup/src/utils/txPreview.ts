@@ -0,0 +1,205 @@
+// Decodes a transaction for the signTx approval page (WASM only runs in popup context)
+import { CardanoLoader } from './cardano_loader';
+import { bytesToHex } from './cose';
+import type { ResolvedInput, TxInputRef } from './signing';
+
+export interface AssetAmount {
+  unit: string;
+  quantity: string;
+}
+
+export interface PreviewInput extends TxInputRef {
+  resolved: ResolvedInput | null; // Null when the spent output could not be found
+  own: boolean;
+}
+
+export interface PreviewOutput {
+  address: string;
+  amount: AssetAmount[];
+  datum: { type: 'hash' | 'inline'; value: string } | null;
+  hasReferenceScript: boolean;
+  own: boolean;
+}
+
+export interface TxPreview {
+  fee: string;
+  size: number;
+  inputs: PreviewInput[];
+  outputs: PreviewOutput[];
+  collateral: PreviewInput[];
+  collateralReturn: PreviewOutput | null;
+  totalCollateral: string | null;
+  referenceInputs: TxInputRef[];
+  validityStart: string | null;
+  ttl: string | null;
+  mint: AssetAmount[]; // Negative quantities are burns
+  certificates: { kind: string; details: unknown }[];
+  withdrawals: { address: string; amount: string }[];
+  requiredSigners: string[];
+  metadata: unknown;
+  netChange: AssetAmount[]; // What the wallet gains (positive) or loses (negative) if the transaction succeeds
+  foreignInputs: number;
+  unresolvedInputs: number;
+}
+
+const inputKey = (txHash: string, outputIndex: number) => `${txHash}#${outputIndex}`;
+
+const listInputs = (inputs: any): TxInputRef[] => {
+  const refs: TxInputRef[] = [];
+  for (let i = 0; inputs && i < inputs.len(); i++) {
+    const input = inputs.get(i);
+    refs.push({ txHash: input.transaction_id().to_hex(), outputIndex: input.index() });
+  }
+  return refs;
+};
+
+const multiAssetAmounts = (multiAsset: any, sign = ''): AssetAmount[] => {
+  const amounts: AssetAmount[] = [];
+  const policies = multiAsset?.keys();
+  for (let i = 0; policies && i < policies.len(); i++) {
+    const policyId = policies.get(i);
+    const assets = multiAsset.get(policyId);
+    const assetNames = assets.keys();
+    for (let j = 0; j < assetNames.len(); j++) {
+      const assetName = assetNames.get(j);
+      amounts.push({
+        unit: policyId.to_hex() + bytesToHex(assetName.name()),
+        quantity: sign + assets.get(assetName).to_str(),
+      });
+    }
+  }
+  return amounts;
+};
+
+/**
+ * Blockfrost-style amounts of a WASM Value
+ */
+export const valueAmounts = (value: any): AssetAmount[] => [
+  { unit: 'lovelace', quantity: value.coin().to_str() },
+  ...multiAssetAmounts(value.multiasset()),
+];
+
+// Byron addresses have no bech32 form
+const addressToString = (Cardano: any, address: any): string =>
+  Cardano.ByronAddress.from_address(address)?.to_base58() || address.to_bech32();
+
+/**
+ * Decodes what a transaction does for review before signing. An address belongs to the wallet when it
+ * shares the wallet's payment credential, whatever its stake part.
+ */
+export async function describeTransaction(
+  txHex: string,
+  inputs: TxInputRef[],
+  resolvedInputs: (ResolvedInput | null)[],
+  walletAddress: string,
+): Promise<TxPreview> {
+  await CardanoLoader.load();
+  const Cardano = CardanoLoader.Cardano;
+
+  const tx = Cardano.FixedTransaction.from_hex(txHex);
+  const body = tx.body();
+
+  const walletKeyHash = Cardano.Address.from_bech32(walletAddress).payment_cred()?.to_keyhash()?.to_hex();
+  const isOwnAddress = (address: string) => {
+    try {
+      const keyHash = Cardano.Address.from_bech32(address).payment_cred()?.to_keyhash()?.to_hex();
+      return !!keyHash && keyHash === walletKeyHash;
+    } catch {
+      return false;
+    }
+  };
+
+  const resolvedByKey = new Map<string, ResolvedInput>();
+  inputs.forEach((ref, index) => {
+    const resolved = resolvedInputs[index];
+    if (resolved) resolvedByKey.set(inputKey(ref.txHash, ref.outputIndex), resolved);
+  });
+  const previewInputs = (refs: TxInputRef[]): PreviewInput[] =>
+    refs.map(ref => {
+      const resolved = resolvedByKey.get(inputKey(ref.txHash, ref.outputIndex)) || null;
+      return { ...ref, resolved, own: !!resolved && isOwnAddress(resolved.address) };
+    });
+
+  const previewOutput = (output: any): PreviewOutput => {
+    const address = addressToString(Cardano, output.address());
+    const inlineDatum = output.plutus_data();
+    const dataHash = output.data_hash();
+    return {
+      address,
+      amount: valueAmounts(output.amount()),
+      datum: inlineDatum
+        ? { type: 'inline', value: inlineDatum.to_hex() }
+        : dataHash
+          ? { type: 'hash', value: dataHash.to_hex() }
+          : null,
+      hasReferenceScript: output.has_script_ref(),
+      own: isOwnAddress(address),
+    };
+  };
+
+  const outputs: PreviewOutput[] = [];
+  for (let i = 0; i < body.outputs().len(); i++) {
+    outputs.push(previewOutput(body.outputs().get(i)));
+  }
+  const spentInputs = previewInputs(listInputs(body.inputs()));
+
+  // Collateral is only taken when scripts fail, so the net change covers regular inputs and outputs
+  const totals = new Map<string, bigint>();
+  const addAmounts = (amounts: AssetAmount[], sign: 1 | -1) =>
+    amounts.forEach(({ unit, quantity }) =>
+      totals.set(unit, (totals.get(unit) || BigInt(0)) + BigInt(sign) * BigInt(quantity)),
+    );
+  spentInputs.forEach(input => input.own && input.resolved && addAmounts(input.resolved.amount, -1));
+  outputs.forEach(output => output.own && addAmounts(output.amount, 1));
+
+  const mint = body.mint();
+  const certs = body.certs();
+  const certificates: TxPreview['certificates'] = [];
+  for (let i = 0; certs && i < certs.len(); i++) {
+    const details = JSON.parse(certs.get(i).to_json());
+    certificates.push({ kind: Object.keys(details)[0], details: Object.values(details)[0] });
+  }
+
+  const withdrawals: TxPreview['withdrawals'] = [];
+  const rewardAddresses = body.withdrawals()?.keys();
+  for (let i = 0; rewardAddresses && i < rewardAddresses.len(); i++) {
+    const rewardAddress = rewardAddresses.get(i);
+    withdrawals.push({
+      address: rewardAddress.to_address().to_bech32(),
+      amount: body.withdrawals().get(rewardAddress).to_str(),
+    });
+  }
+
+  const requiredSigners: string[] = [];
+  for (let i = 0; body.required_signers() && i < body.required_signers().len(); i++) {
+    requiredSigners.push(body.required_signers().get(i).to_hex());
+  }
+
+  const metadata = tx.auxiliary_data()?.metadata();
+  const collateralReturn = body.collateral_return();
+
+  return {
+    fee: body.fee().to_str(),
+    size: tx.to_bytes().length,
+    inputs: spentInputs,
+    outputs,
+    collateral: previewInputs(listInputs(body.collateral())),
+    collateralReturn: collateralReturn ? previewOutput(collateralReturn) : null,
+    totalCollateral: body.total_collateral()?.to_str() || null,
+    referenceInputs: listInputs(body.reference_inputs()),
+    validityStart: body.validity_start_interval_bignum()?.to_str() || null,
+    ttl: body.ttl_bignum()?.to_str() || null,
+    mint: mint
+      ? [...multiAssetAmounts(mint.as_positive_multiasset()), ...multiAssetAmounts(mint.as_negative_multiasset(), '-')]
+      : [],
+    certificates,
+    withdrawals,
+    requiredSigners,
+    metadata: metadata ? JSON.parse(metadata.to_json()) : null,
+    netChange: Array.from(totals.entries())
+      .filter(([, quantity]) => quantity !== BigInt(0))
+      .map(([unit, quantity]) => ({ unit, quantity: quantity.toString() })),
+    foreignInputs: spentInputs.filter(input => input.resolved && !input.own).length,
+    unresolvedInputs: spentInputs.filter(input => !input.resolved).length,
+  };
+}
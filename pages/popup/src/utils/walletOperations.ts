@@ -1,5 +1,11 @@
-import { onboardingStorage } from '@extension/storage';
-import { generateMnemonic, deriveAddressFromMnemonic, generateRootKeyFromMnemonic } from './crypto';
+import type { Wallet } from '@extension/shared';
+import { onboardingStorage, walletsStorage } from '@extension/storage';
+import {
+  generateMnemonic,
+  deriveAddressFromMnemonic,
+  derivePublicKeysFromMnemonic,
+  generateRootKeyFromMnemonic,
+} from './crypto';
 
 export interface CreateWalletData {
   walletName: string;
@@ -30,6 +36,7 @@ export const createWallet = async (formData: CreateWalletData, navigate: (path:
     const seedPhrase = await generateMnemonic();
     const { address, stakeAddress } = await deriveAddressFromMnemonic(seedPhrase, formData.network);
     const rootKey = await generateRootKeyFromMnemonic(seedPhrase);
+    const publicKeys = await derivePublicKeysFromMnemonic(seedPhrase);
 
     console.log('UI: Generated seedPhrase, address, stakeAddress, and rootKey successfully');
 
@@ -48,6 +55,7 @@ export const createWallet = async (formData: CreateWalletData, navigate: (path:
       address: address,
       stakeAddress: stakeAddress,
       rootKey: rootKey,
+      publicKeys: publicKeys,
     };
 
     console.log('UI: Sending CREATE_WALLET message with payload:', payload);
@@ -94,6 +102,7 @@ export const importWallet = async (formData: ImportWalletData, navigate: (path:
     // Derive addresses and generate rootKey from seedPhrase in frontend
     const { address, stakeAddress } = await deriveAddressFromMnemonic(seedPhrase, formData.network);
     const rootKey = await generateRootKeyFromMnemonic(seedPhrase);
+    const publicKeys = await derivePublicKeysFromMnemonic(seedPhrase);
 
     const payload = {
       name: formData.walletName,
@@ -103,6 +112,7 @@ export const importWallet = async (formData: ImportWalletData, navigate: (path:
       stakeAddress: stakeAddress,
       password: formData.password,
       rootKey: rootKey,
+      publicKeys: publicKeys,
     };
 
     chrome.runtime.sendMessage({ type: 'IMPORT_WALLET', payload }, response => {
@@ -154,3 +164,28 @@ export const spoofWallet = async (formData: SpoofWalletData, navigate: (path: st
     },
   );
 };
+
+/**
+ * Derives the CIP-95 public keys of an HD wallet from its seed phrase and stores them. A password-protected
+ * seed phrase needs the password; throws 'Incorrect password' when it cannot be decrypted.
+ */
+export const storePublicKeys = async (wallet: Wallet, password?: string) => {
+  const secret = await chrome.runtime.sendMessage({
+    type: 'GET_DECRYPTED_SECRET',
+    payload: { id: wallet.id, password: wallet.hasPassword ? password : undefined },
+  });
+  if (!secret?.success) {
+    throw new Error('Incorrect password');
+  }
+  await walletsStorage.updateWallet(wallet.id, { publicKeys: await derivePublicKeysFromMnemonic(secret.secret) });
+};
+
+// Wallets created before CIP-95 support have no stored public keys; those without a password get them right away,
+// password-protected ones on the Governance page (until then their CIP-95 calls answer with an error saying so)
+export const migratePublicKeys = async (wallets: Wallet[]) => {
+  for (const wallet of wallets) {
+    if (wallet.type === 'HD' && !wallet.publicKeys && !wallet.hasPassword) {
+      await storePublicKeys(wallet);
+    }
+  }
+};
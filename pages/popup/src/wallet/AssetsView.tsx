@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useParams, useSearchParams } from 'react-router-dom';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
 import { useStorage, walletsStorage } from '@extension/storage';
 import type { Wallet, Asset } from '@extension/shared';
 
@@ -230,6 +230,15 @@ const AssetsView = () => {
         </button>
       </div>
 
+      {/* Token tools */}
+      {wallet.type !== 'SPOOFED' && (
+        <div className="mb-2 flex justify-end text-xs">
+          <Link to={`/wallet/${wallet.id}/mint`} className="text-blue-600 hover:underline dark:text-blue-400">
+            Mint / burn test tokens
+          </Link>
+        </div>
+      )}
+
       {/* Content area */}
       <div className="flex-1 overflow-y-auto">
         {activeTab === 'tokens' ? (
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useStorage, walletsStorage } from '@extension/storage';
+import type { Wallet } from '@extension/shared';
+import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { CardanoLoader } from '@src/utils/cardano_loader';
+import {
+  buildTransaction,
+  getBuildContext,
+  getSelectedUtxos,
+  getWalletUtxos,
+  signAndSubmit,
+} from '@src/utils/txBuilder';
+import type { BuiltTransaction } from '@src/utils/txBuilder';
+import { valueAmounts } from '@src/utils/txPreview';
+import type { AssetAmount } from '@src/utils/txPreview';
+
+interface Draft {
+  built: BuiltTransaction;
+  fee: string;
+  inputLovelace: string;
+  outputs: AssetAmount[][];
+}
+
+const formatAda = (lovelace: string) => (Number(lovelace) / 1_000_000).toFixed(6);
+
+// Merges all or the selected UTXOs of the wallet into one output at its own address
+const Consolidate = () => {
+  const { walletId } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const walletsData = useStorage(walletsStorage);
+  const wallet = walletsData?.wallets?.find((w: Wallet) => w.id === walletId);
+
+  const [source, setSource] = useState<'all' | 'selected'>(
+    searchParams.get('inputs') === 'selected' ? 'selected' : 'all',
+  );
+  const [password, setPassword] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  if (!wallet) {
+    return <p className="text-center text-gray-500">Wallet not found.</p>;
+  }
+
+  if (wallet.type === 'SPOOFED') {
+    return (
+      <p className="text-center text-sm text-gray-500 dark:text-gray-400">Spoofed wallets cannot consolidate UTXOs.</p>
+    );
+  }
+
+  const selectedCount = wallet.selectedUtxos?.length || 0;
+
+  const handleReview = async () => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      await CardanoLoader.load();
+      const Cardano = CardanoLoader.Cardano;
+
+      const utxos = source === 'selected' ? await getSelectedUtxos(wallet) : await getWalletUtxos(wallet);
+      if (utxos.length < 2) {
+        throw new Error('Nothing to consolidate, at least two UTXOs are needed');
+      }
+
+      // No outputs of its own: balancing turns everything into change back to the wallet
+      const context = await getBuildContext(wallet.id);
+      const built = await buildTransaction(context, utxos, wallet.address, () => {}, true);
+
+      const body = Cardano.FixedTransaction.from_hex(built.tx).body();
+      const outputs: AssetAmount[][] = [];
+      for (let i = 0; i < body.outputs().len(); i++) {
+        outputs.push(valueAmounts(body.outputs().get(i).amount()));
+      }
+      const inputLovelace = built.inputs.reduce(
+        (sum, utxo) => sum + BigInt(utxo.amount.find(a => a.unit === 'lovelace')?.quantity || '0'),
+        BigInt(0),
+      );
+      setDraft({ built, fee: body.fee().to_str(), inputLovelace: inputLovelace.toString(), outputs });
+    } catch (buildError) {
+      console.error('Failed to build consolidation:', buildError);
+      setError(buildError instanceof Error ? buildError.message : 'Failed to build transaction');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!draft) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      await signAndSubmit(wallet, password, draft.built);
+      if (source === 'selected') await walletsStorage.updateWallet(wallet.id, { selectedUtxos: [] });
+      navigate(`/wallet/${wallet.id}/transactions`);
+    } catch (sendError) {
+      console.error('Failed to send consolidation:', sendError);
+      setError(sendError instanceof Error ? sendError.message : 'Failed to send transaction');
+      setIsProcessing(false);
+    }
+  };
+
+  const chooseSource = (next: 'all' | 'selected') => {
+    setSource(next);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Merges UTXOs into a single output at this wallet&apos;s address. The designated collateral is left out unless it
+        is part of the selection.
+      </p>
+
+      <div className="grid grid-cols-2 gap-1 rounded bg-gray-100 p-1 dark:bg-gray-700">
+        <button
+          onClick={() => chooseSource('all')}
+          className={`rounded px-2 py-1 text-xs transition ${
+            source === 'all' ? 'bg-blue-500 text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-600'
+          }`}>
+          All UTXOs
+        </button>
+        <button
+          onClick={() => chooseSource('selected')}
+          className={`rounded px-2 py-1 text-xs transition ${
+            source === 'selected' ? 'bg-blue-500 text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-600'
+          }`}>
+          Selected ({selectedCount})
+        </button>
+      </div>
+
+      {draft && (
+        <div className="space-y-1 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Inputs merged:</span>
+            <span className="font-medium">{draft.built.inputs.length}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">ADA in:</span>
+            <span className="font-medium">{formatAda(draft.inputLovelace)} ADA</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Fee:</span>
+            <span className="font-medium">{formatAda(draft.fee)} ADA</span>
+          </div>
+          {draft.outputs.map((amounts, index) => (
+            <div key={index} className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">
+                Result output{draft.outputs.length > 1 ? ` #${index}` : ''}:
+              </span>
+              <span className="font-medium">
+                {formatAda(amounts[0].quantity)} ADA
+                {amounts.length > 1 ? ` + ${amounts.length - 1} asset${amounts.length > 2 ? 's' : ''}` : ''}
+              </span>
+            </div>
+          ))}
+          {draft.outputs.length > 1 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The tokens do not fit into one output, so the result is split across several.
+            </p>
+          )}
+        </div>
+      )}
+
+      {draft && wallet.hasPassword && (
+        <FloatingLabelInput
+          name="consolidatePassword"
+          label="Password"
+          type="password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          error={!!error}
+        />
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {draft ? (
+        <div className="flex space-x-3">
+          <SecondaryButton onClick={() => setDraft(null)} disabled={isProcessing} className="flex-1">
+            Back
+          </SecondaryButton>
+          <PrimaryButton
+            onClick={handleSend}
+            disabled={isProcessing || (wallet.hasPassword && !password)}
+            className="flex-1">
+            {isProcessing ? 'Sending...' : 'Sign & Send'}
+          </PrimaryButton>
+        </div>
+      ) : (
+        <PrimaryButton onClick={handleReview} disabled={isProcessing}>
+          {isProcessing ? 'Building...' : 'Review'}
+        </PrimaryButton>
+      )}
+    </div>
+  );
+};
+
+export default Consolidate;
@@ -0,0 +1,451 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { blueprintsStorage, useStorage, walletsStorage } from '@extension/storage';
+import type { Blueprint, BlueprintSchema } from '@extension/storage';
+import type { Wallet } from '@extension/shared';
+import { TruncateWithCopy } from '@extension/shared';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import SchemaForm from '@src/components/SchemaForm';
+import { CardanoLoader } from '@src/utils/cardano_loader';
+import {
+  buildUnlockTransaction,
+  configureLock,
+  defaultSchemaValue,
+  isSpendValidator,
+  loadValidatorScript,
+  scriptAddress,
+  toPlutusData,
+} from '@src/utils/plutus';
+import type { SchemaValue, ScriptUtxo } from '@src/utils/plutus';
+import { buildTransaction, getBuildContext, getWalletUtxos, signAndSubmit, toBaseUnits } from '@src/utils/txBuilder';
+import type { BuiltTransaction } from '@src/utils/txBuilder';
+
+interface Draft {
+  label: string;
+  built: BuiltTransaction;
+  fee: string;
+  rows: [string, string][];
+}
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100';
+
+const formatAda = (lovelace: string) => (Number(lovelace) / 1_000_000).toFixed(6);
+
+const utxoKey = (utxo: { tx_hash: string; output_index: number }) => `${utxo.tx_hash}#${utxo.output_index}`;
+
+const lovelaceOf = (utxo: ScriptUtxo) => utxo.amount.find(amount => amount.unit === 'lovelace')?.quantity || '0';
+
+// Empty form state for a schema; one that cannot be entered shows its error in the form instead
+const initialValue = (blueprint: Blueprint, schema: BlueprintSchema = {}) => {
+  try {
+    return defaultSchemaValue(schema, blueprint.definitions);
+  } catch {
+    return '';
+  }
+};
+
+// Locks funds at the validators of an imported CIP-57 blueprint and spends them again
+const Contracts = () => {
+  const { walletId } = useParams();
+  const navigate = useNavigate();
+  const walletsData = useStorage(walletsStorage);
+  const wallet = walletsData?.wallets?.find((w: Wallet) => w.id === walletId);
+  const blueprintsData = useStorage(blueprintsStorage);
+  const blueprints = blueprintsData?.blueprints || [];
+
+  const [blueprintId, setBlueprintId] = useState('');
+  const [validatorTitle, setValidatorTitle] = useState('');
+  const [script, setScript] = useState<{ address: string; hash: string } | null>(null);
+  const [scriptError, setScriptError] = useState<string | null>(null);
+  const [tab, setTab] = useState<'lock' | 'unlock'>('lock');
+  const [amount, setAmount] = useState('');
+  const [datumValue, setDatumValue] = useState<SchemaValue>('');
+  const [redeemerValue, setRedeemerValue] = useState<SchemaValue>('');
+  const [scriptUtxos, setScriptUtxos] = useState<ScriptUtxo[] | null>(null);
+  const [selectedUtxo, setSelectedUtxo] = useState('');
+  const [password, setPassword] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const blueprint = blueprints.find(b => b.id === blueprintId) || blueprints[0] || null;
+  const validators = blueprint?.validators.filter(isSpendValidator) || [];
+  const validator = validators.find(v => v.title === validatorTitle) || validators[0] || null;
+
+  useEffect(() => {
+    setScript(null);
+    setScriptError(null);
+    setScriptUtxos(null);
+    setSelectedUtxo('');
+    if (!wallet || !blueprint || !validator) return;
+
+    setDatumValue(initialValue(blueprint, validator.datum?.schema));
+    setRedeemerValue(initialValue(blueprint, validator.redeemer?.schema));
+    CardanoLoader.load()
+      .then(() => {
+        const plutusScript = loadValidatorScript(blueprint, validator);
+        setScript({ address: scriptAddress(plutusScript, wallet.address), hash: plutusScript.hash().to_hex() });
+      })
+      .catch(err => setScriptError(err instanceof Error ? err.message : 'Failed to load the validator'));
+  }, [wallet?.address, blueprint?.id, blueprint?.importedAt, validator?.title]);
+
+  const loadScriptUtxos = async () => {
+    if (!wallet || !script) return;
+    setScriptUtxos(null);
+    const response = await chrome.runtime.sendMessage({
+      type: 'GET_ADDRESS_UTXOS',
+      payload: { walletId: wallet.id, address: script.address },
+    });
+    if (response?.success) {
+      setScriptUtxos(response.utxos);
+    } else {
+      setError(response?.error || 'Failed to fetch script UTXOs');
+      setScriptUtxos([]);
+    }
+  };
+
+  useEffect(() => {
+    if (tab === 'unlock') loadScriptUtxos();
+  }, [tab, script?.address]);
+
+  if (!wallet) {
+    return <p className="text-center text-gray-500">Wallet not found.</p>;
+  }
+
+  if (wallet.type === 'SPOOFED') {
+    return (
+      <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+        Spoofed wallets cannot sign script transactions.
+      </p>
+    );
+  }
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = await blueprintsStorage.importBlueprint(JSON.parse(await file.text()));
+      setBlueprintId(imported.id);
+      setValidatorTitle('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof SyntaxError ? 'File is not valid JSON' : (err as Error).message);
+    }
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleReview = async () => {
+    if (!blueprint || !validator || !script) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      await CardanoLoader.load();
+      const Cardano = CardanoLoader.Cardano;
+      const context = await getBuildContext(wallet.id);
+
+      let built: BuiltTransaction;
+      let rows: [string, string][];
+      if (tab === 'lock') {
+        const lovelace = toBaseUnits(amount, 6);
+        if (!lovelace) throw new Error('Enter a positive ADA amount');
+        const datum = toPlutusData(validator.datum?.schema || {}, datumValue, blueprint.definitions);
+
+        built = await buildTransaction(
+          context,
+          await getWalletUtxos(wallet),
+          wallet.address,
+          configureLock(script.address, lovelace, datum, context.parameters),
+        );
+        // The locked output comes first, ahead of the change
+        const locked = Cardano.FixedTransaction.from_hex(built.tx).body().outputs().get(0).amount().coin().to_str();
+        rows = [['Locked', `${formatAda(locked)} ADA`]];
+      } else {
+        const utxo = scriptUtxos?.find(u => utxoKey(u) === selectedUtxo);
+        if (!utxo) throw new Error('Choose a UTXO to spend');
+
+        // Outputs carrying only a datum hash need the datum itself in the transaction
+        let datum: string | null = null;
+        if (!utxo.inline_datum && utxo.data_hash) {
+          const response = await chrome.runtime.sendMessage({
+            type: 'GET_DATUM',
+            payload: { walletId: wallet.id, datumHash: utxo.data_hash },
+          });
+          if (!response?.success) throw new Error(response?.error || 'Failed to fetch datum');
+          if (!response.datum) throw new Error('Blockfrost does not know the datum of this UTXO');
+          datum = response.datum;
+        }
+        const redeemer = toPlutusData(validator.redeemer?.schema || {}, redeemerValue, blueprint.definitions);
+
+        const unlock = await buildUnlockTransaction(context, wallet, {
+          blueprint,
+          validator,
+          utxo,
+          redeemer: redeemer.to_hex(),
+          datum,
+        });
+        built = unlock;
+        rows = [
+          ['Unlocked', `${formatAda(lovelaceOf(utxo))} ADA`],
+          ['Memory units', Number(unlock.exUnits.mem).toLocaleString()],
+          ['CPU steps', Number(unlock.exUnits.steps).toLocaleString()],
+        ];
+      }
+
+      const fee = Cardano.FixedTransaction.from_hex(built.tx).body().fee().to_str();
+      setDraft({ label: tab === 'lock' ? 'Lock funds' : 'Unlock funds', built, fee, rows });
+    } catch (buildError) {
+      console.error('Failed to build script transaction:', buildError);
+      setError(buildError instanceof Error ? buildError.message : 'Failed to build transaction');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!draft) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      await signAndSubmit(wallet, password, draft.built);
+      navigate(`/wallet/${wallet.id}/transactions`);
+    } catch (sendError) {
+      console.error('Failed to send script transaction:', sendError);
+      setError(sendError instanceof Error ? sendError.message : 'Failed to send transaction');
+      setIsProcessing(false);
+    }
+  };
+
+  if (draft) {
+    return (
+      <div className="flex flex-col space-y-4">
+        <div className="space-y-1 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+          <p className="mb-2 font-medium">{draft.label}</p>
+          <div className="flex items-center justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Script address:</span>
+            <TruncateWithCopy text={script?.address || ''} maxChars={10} />
+          </div>
+          {draft.rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">{label}:</span>
+              <span className="font-medium">{value}</span>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Fee:</span>
+            <span className="font-medium">{formatAda(draft.fee)} ADA</span>
+          </div>
+        </div>
+
+        {wallet.hasPassword && (
+          <FloatingLabelInput
+            name="contractPassword"
+            label="Password"
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            error={!!error}
+          />
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="flex space-x-3">
+          <SecondaryButton onClick={() => setDraft(null)} disabled={isProcessing} className="flex-1">
+            Back
+          </SecondaryButton>
+          <PrimaryButton
+            onClick={handleSend}
+            disabled={isProcessing || (wallet.hasPassword && !password)}
+            className="flex-1">
+            {isProcessing ? 'Sending...' : 'Sign & Send'}
+          </PrimaryButton>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col space-y-4">
+      {/* Blueprint and validator */}
+      <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+        {blueprint ? (
+          <>
+            <div className="flex items-center">
+              <select
+                className={selectClassName}
+                value={blueprint.id}
+                onChange={e => {
+                  setBlueprintId(e.target.value);
+                  setValidatorTitle('');
+                }}>
+                {blueprints.map(b => (
+                  <option key={b.id} value={b.id}>
+                    {b.version ? `${b.title} ${b.version}` : b.title}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => blueprintsStorage.removeBlueprint(blueprint.id)}
+                className="ml-2 p-1"
+                title="Remove">
+                <TrashIcon className="size-5 text-gray-400 hover:text-red-500" />
+              </button>
+            </div>
+            {validators.length > 0 ? (
+              <select
+                className={selectClassName}
+                value={validator?.title}
+                onChange={e => setValidatorTitle(e.target.value)}>
+                {validators.map(v => (
+                  <option key={v.title} value={v.title}>
+                    {v.title}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-gray-500 dark:text-gray-400">The blueprint has no spend validators.</p>
+            )}
+            {scriptError && <p className="text-red-500">{scriptError}</p>}
+            {script && (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Script address:</span>
+                  <TruncateWithCopy text={script.address} maxChars={10} />
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Script hash:</span>
+                  <TruncateWithCopy text={script.hash} maxChars={10} />
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Plutus version:</span>
+                  <span className="font-medium">{blueprint.plutusVersion.toUpperCase()}</span>
+                </div>
+              </>
+            )}
+          </>
+        ) : (
+          <p className="text-gray-500 dark:text-gray-400">
+            Import a plutus.json (CIP-57 blueprint) to lock funds at its validators and spend them again.
+          </p>
+        )}
+        <SecondaryButton onClick={() => fileInput.current?.click()}>Import Blueprint</SecondaryButton>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => handleImport(e.target.files?.[0])}
+        />
+      </div>
+
+      {/* Lock or unlock */}
+      {blueprint && validator && script && (
+        <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+          <div className="grid grid-cols-2 gap-1 rounded bg-gray-100 p-1 dark:bg-gray-800">
+            {(
+              [
+                ['lock', 'Lock'],
+                ['unlock', 'Unlock'],
+              ] as ['lock' | 'unlock', string][]
+            ).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => {
+                  setTab(key);
+                  setError(null);
+                }}
+                className={`rounded px-2 py-1 text-xs transition ${
+                  tab === key ? 'bg-blue-500 text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}>
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'lock' ? (
+            <>
+              <FloatingLabelInput
+                name="lockAmount"
+                label="Amount (ADA)"
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+              />
+              <p className="text-xs font-medium">Datum (inline)</p>
+              <SchemaForm
+                name="datum"
+                schema={validator.datum?.schema || {}}
+                definitions={blueprint.definitions}
+                value={datumValue}
+                onChange={setDatumValue}
+              />
+            </>
+          ) : (
+            <>
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-medium">UTXOs at the script</span>
+                <button onClick={loadScriptUtxos} className="text-blue-600 hover:underline dark:text-blue-400">
+                  Refresh
+                </button>
+              </div>
+              {scriptUtxos === null ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">Loading UTXOs...</p>
+              ) : scriptUtxos.length === 0 ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">Nothing is locked at this script.</p>
+              ) : (
+                <div className="max-h-48 space-y-1 overflow-y-auto">
+                  {scriptUtxos.map(utxo => (
+                    <label
+                      key={utxoKey(utxo)}
+                      className="flex cursor-pointer items-center rounded border border-gray-200 p-2 text-xs dark:border-gray-600">
+                      <input
+                        type="radio"
+                        className="mr-2"
+                        checked={selectedUtxo === utxoKey(utxo)}
+                        onChange={() => setSelectedUtxo(utxoKey(utxo))}
+                      />
+                      <span className="grow truncate font-mono">
+                        {utxo.tx_hash.slice(0, 10)}…#{utxo.output_index}
+                      </span>
+                      <span className="ml-2 whitespace-nowrap text-right">
+                        <span className="block font-medium">{formatAda(lovelaceOf(utxo))} ADA</span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {utxo.inline_datum ? 'Inline datum' : utxo.data_hash ? 'Datum hash' : 'No datum'}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs font-medium">Redeemer</p>
+              <SchemaForm
+                name="redeemer"
+                schema={validator.redeemer?.schema || {}}
+                definitions={blueprint.definitions}
+                value={redeemerValue}
+                onChange={setRedeemerValue}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                The wallet&apos;s collateral UTXO backs the script, which is evaluated before you sign.
+              </p>
+            </>
+          )}
+
+          <PrimaryButton
+            onClick={handleReview}
+            disabled={isProcessing || (tab === 'lock' ? !amount.trim() : !selectedUtxo)}>
+            {isProcessing ? 'Building...' : 'Review'}
+          </PrimaryButton>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default Contracts;
@@ -0,0 +1,380 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useStorage, walletsStorage } from '@extension/storage';
+import type { Wallet } from '@extension/shared';
+import { TruncateWithCopy } from '@extension/shared';
+import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { CardanoLoader } from '@src/utils/cardano_loader';
+import {
+  configureDRepRegistration,
+  configureDRepRetirement,
+  configureVoteDelegation,
+  describeDRepId,
+  ownDRepId,
+  parseDRepId,
+} from '@src/utils/governance';
+import type { DRepInfo, VoteTarget } from '@src/utils/governance';
+import type { AccountInfo } from '@src/utils/staking';
+import { buildTransaction, getBuildContext, getWalletUtxos, signAndSubmit } from '@src/utils/txBuilder';
+import type { BuildContext, BuiltTransaction } from '@src/utils/txBuilder';
+import { storePublicKeys } from '@src/utils/walletOperations';
+
+interface Draft {
+  label: string;
+  built: BuiltTransaction;
+  fee: string;
+  deposit: string | null;
+  refund: string | null;
+}
+
+const formatAda = (lovelace: string) => (Number(lovelace) / 1_000_000).toFixed(6);
+
+const fetchDRep = async (walletId: string, drepId: string): Promise<DRepInfo | null> => {
+  const response = await chrome.runtime.sendMessage({ type: 'GET_DREP_INFO', payload: { walletId, drepId } });
+  if (!response?.success) throw new Error(response?.error || 'Failed to fetch DRep information');
+  return response.drep;
+};
+
+const Governance = () => {
+  const { walletId } = useParams();
+  const navigate = useNavigate();
+  const walletsData = useStorage(walletsStorage);
+  const wallet = walletsData?.wallets?.find((w: Wallet) => w.id === walletId);
+
+  const [account, setAccount] = useState<AccountInfo | null>(null);
+  const [drepId, setDrepId] = useState<string | null>(null);
+  const [ownDRep, setOwnDRep] = useState<DRepInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [targetType, setTargetType] = useState<VoteTarget['type']>('drep');
+  const [targetId, setTargetId] = useState('');
+  const [anchorUrl, setAnchorUrl] = useState('');
+  const [anchorHash, setAnchorHash] = useState('');
+  const [password, setPassword] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!wallet) return;
+    const load = async () => {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_ACCOUNT_INFO',
+        payload: { walletId: wallet.id, includePool: false },
+      });
+      if (!response?.success) throw new Error(response?.error || 'Failed to fetch account information');
+      setAccount(response.account);
+
+      // Only HD wallets hold a DRep key; wallets created before CIP-95 support need their public keys derived first
+      if (wallet.publicKeys) {
+        await CardanoLoader.load();
+        const id = ownDRepId(wallet.publicKeys.drep);
+        setDrepId(id);
+        setOwnDRep(await fetchDRep(wallet.id, id));
+      }
+    };
+    load()
+      .catch(err => setLoadError(err instanceof Error ? err.message : 'Failed to load governance state'))
+      .finally(() => setLoading(false));
+  }, [wallet?.id, wallet?.publicKeys?.drep]);
+
+  if (!wallet) {
+    return <p className="text-center text-gray-500">Wallet not found.</p>;
+  }
+
+  const drepRegistered = !!ownDRep && !ownDRep.retired;
+
+  // Builds a governance transaction for review; prepare supplies its certificates and any deposit paid or refunded
+  const review = async (
+    label: string,
+    prepare: (context: BuildContext) => Promise<{
+      configure: (builder: any, Cardano: any) => void;
+      deposit?: string | null;
+      refund?: string | null;
+    }>,
+  ) => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      await CardanoLoader.load();
+      const Cardano = CardanoLoader.Cardano;
+
+      const context = await getBuildContext(wallet.id);
+      const { configure, deposit = null, refund = null } = await prepare(context);
+      const built = await buildTransaction(context, await getWalletUtxos(wallet), wallet.address, configure);
+      const fee = Cardano.FixedTransaction.from_hex(built.tx).body().fee().to_str();
+      setDraft({ label, built, fee, deposit, refund });
+    } catch (buildError) {
+      console.error('Failed to build governance transaction:', buildError);
+      setError(buildError instanceof Error ? buildError.message : 'Failed to build transaction');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const reviewVoteDelegation = () =>
+    review('Delegate voting power', async context => {
+      const target: VoteTarget = targetType === 'drep' ? { type: 'drep', drepId: targetId } : { type: targetType };
+      if (target.type === 'drep') {
+        // Look the DRep up by its CIP-129 id, whatever form it was entered in
+        const drep = await fetchDRep(wallet.id, parseDRepId(target.drepId).to_bech32(true));
+        if (!drep) throw new Error('DRep not found');
+        if (drep.retired) throw new Error('This DRep has retired');
+      }
+      const stakeRegistered = !!account?.active;
+      return {
+        configure: configureVoteDelegation(
+          wallet.stakeAddress,
+          target,
+          stakeRegistered,
+          context.parameters.key_deposit,
+        ),
+        deposit: stakeRegistered ? null : context.parameters.key_deposit,
+      };
+    });
+
+  const reviewDRepRegistration = () =>
+    review('Register as DRep', async context => {
+      const url = anchorUrl.trim();
+      const hash = anchorHash.trim();
+      if (url && !/^[0-9a-f]{64}$/i.test(hash)) throw new Error('The anchor hash must be 32 bytes of hex');
+      if (!url && hash) throw new Error('Enter the anchor URL the hash belongs to');
+      if (new TextEncoder().encode(url).length > 128) throw new Error('The anchor URL is limited to 128 bytes');
+      const deposit = context.parameters.drep_deposit;
+      if (!deposit) throw new Error('DRep deposit is not known for this network');
+      return {
+        configure: configureDRepRegistration(wallet.publicKeys!.drep, deposit, url ? { url, hash } : null),
+        deposit,
+      };
+    });
+
+  const reviewDRepRetirement = () =>
+    review('Retire DRep', async context => {
+      const deposit = context.parameters.drep_deposit;
+      if (!deposit) throw new Error('DRep deposit is not known for this network');
+      return { configure: configureDRepRetirement(wallet.publicKeys!.drep, deposit), refund: deposit };
+    });
+
+  const handleDeriveKeys = async () => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      await storePublicKeys(wallet, password);
+      setPassword('');
+    } catch (deriveError) {
+      setError(deriveError instanceof Error ? deriveError.message : 'Failed to derive the DRep key');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!draft) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      await signAndSubmit(wallet, password, draft.built);
+      navigate(`/wallet/${wallet.id}/transactions`);
+    } catch (sendError) {
+      console.error('Failed to send governance transaction:', sendError);
+      setError(sendError instanceof Error ? sendError.message : 'Failed to send transaction');
+      setIsProcessing(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-center text-sm text-gray-500 dark:text-gray-400">Loading governance state...</p>;
+  }
+
+  if (draft) {
+    return (
+      <div className="flex flex-col space-y-4">
+        <div className="space-y-1 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+          <p className="mb-2 font-medium">{draft.label}</p>
+          {draft.deposit && (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Deposit:</span>
+              <span className="font-medium">{formatAda(draft.deposit)} ADA</span>
+            </div>
+          )}
+          {draft.refund && (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Deposit refund:</span>
+              <span className="font-medium">{formatAda(draft.refund)} ADA</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Fee:</span>
+            <span className="font-medium">{formatAda(draft.fee)} ADA</span>
+          </div>
+        </div>
+
+        {wallet.hasPassword && (
+          <FloatingLabelInput
+            name="governancePassword"
+            label="Password"
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            error={!!error}
+          />
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="flex space-x-3">
+          <SecondaryButton onClick={() => setDraft(null)} disabled={isProcessing} className="flex-1">
+            Back
+          </SecondaryButton>
+          <PrimaryButton
+            onClick={handleSend}
+            disabled={isProcessing || (wallet.hasPassword && !password)}
+            className="flex-1">
+            {isProcessing ? 'Sending...' : 'Sign & Send'}
+          </PrimaryButton>
+        </div>
+      </div>
+    );
+  }
+
+  const canSign = wallet.type !== 'SPOOFED';
+
+  return (
+    <div className="flex flex-col space-y-4">
+      {loadError && <p className="text-sm text-red-500">{loadError}</p>}
+
+      {/* Vote Delegation */}
+      <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+        <h3 className="font-semibold">Vote Delegation</h3>
+        <div className="flex items-center justify-between">
+          <span className="text-gray-600 dark:text-gray-400">Delegated to:</span>
+          {account?.drep_id && describeDRepId(account.drep_id) === account.drep_id ? (
+            <TruncateWithCopy text={account.drep_id} maxChars={10} />
+          ) : (
+            <span className="font-medium">{describeDRepId(account?.drep_id)}</span>
+          )}
+        </div>
+
+        {canSign && (
+          <>
+            <div className="grid grid-cols-3 gap-1 rounded bg-gray-100 p-1 dark:bg-gray-800">
+              {(
+                [
+                  ['drep', 'DRep'],
+                  ['abstain', 'Abstain'],
+                  ['no-confidence', 'No confidence'],
+                ] as [VoteTarget['type'], string][]
+              ).map(([type, label]) => (
+                <button
+                  key={type}
+                  onClick={() => setTargetType(type)}
+                  className={`rounded px-2 py-1 text-xs transition ${
+                    targetType === type ? 'bg-blue-500 text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }`}>
+                  {label}
+                </button>
+              ))}
+            </div>
+            {targetType === 'drep' && (
+              <FloatingLabelInput
+                name="voteDRep"
+                label="DRep id (drep1... or hex)"
+                value={targetId}
+                onChange={e => setTargetId(e.target.value)}
+              />
+            )}
+            <PrimaryButton
+              onClick={reviewVoteDelegation}
+              disabled={isProcessing || (targetType === 'drep' && !targetId.trim())}>
+              Delegate Voting Power
+            </PrimaryButton>
+          </>
+        )}
+      </div>
+
+      {/* DRep Registration */}
+      {canSign && (
+        <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+          <h3 className="font-semibold">DRep Registration</h3>
+          {!wallet.publicKeys ? (
+            wallet.hasPassword ? (
+              <>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  This wallet was created before DRep keys were stored. Enter its password once to derive them.
+                </p>
+                <FloatingLabelInput
+                  name="deriveKeysPassword"
+                  label="Password"
+                  type="password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  error={!!error}
+                />
+                <PrimaryButton onClick={handleDeriveKeys} disabled={isProcessing || !password}>
+                  {isProcessing ? 'Deriving...' : 'Derive DRep Key'}
+                </PrimaryButton>
+              </>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Deriving the DRep key...</p>
+            )
+          ) : !drepId ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Loading the DRep key...</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600 dark:text-gray-400">DRep id:</span>
+                <TruncateWithCopy text={drepId} maxChars={10} />
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Status:</span>
+                <span className={`font-medium ${drepRegistered ? 'text-green-600' : 'text-gray-500'}`}>
+                  {drepRegistered ? (ownDRep?.expired ? 'Registered (expired)' : 'Registered') : 'Not registered'}
+                </span>
+              </div>
+              {drepRegistered && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Voting power:</span>
+                  <span className="font-medium">{formatAda(ownDRep?.amount || '0')} ADA</span>
+                </div>
+              )}
+
+              {drepRegistered ? (
+                <SecondaryButton onClick={reviewDRepRetirement} disabled={isProcessing}>
+                  Retire DRep
+                </SecondaryButton>
+              ) : (
+                <>
+                  <FloatingLabelInput
+                    name="drepAnchorUrl"
+                    label="Anchor URL (optional)"
+                    value={anchorUrl}
+                    onChange={e => setAnchorUrl(e.target.value)}
+                  />
+                  <FloatingLabelInput
+                    name="drepAnchorHash"
+                    label="Anchor hash (blake2b-256, hex)"
+                    value={anchorHash}
+                    onChange={e => setAnchorHash(e.target.value)}
+                  />
+                  <PrimaryButton onClick={reviewDRepRegistration} disabled={isProcessing}>
+                    Register as DRep
+                  </PrimaryButton>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Delegations and registrations are read from the chain, so changes show up here once the transaction is
+        confirmed.
+      </p>
+    </div>
+  );
+};
+
+export default Governance;
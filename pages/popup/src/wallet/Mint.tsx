@@ -0,0 +1,453 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { mintingPoliciesStorage, useStorage, walletsStorage } from '@extension/storage';
+import type { MintingPolicy } from '@extension/storage';
+import type { Wallet } from '@extension/shared';
+import { TruncateWithCopy } from '@extension/shared';
+import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { CardanoLoader } from '@src/utils/cardano_loader';
+import {
+  CIP68_NFT_PREFIX,
+  CIP68_REFERENCE_PREFIX,
+  buildCip25Metadata,
+  buildCip68Datum,
+  configureMint,
+  createNativePolicy,
+  toAssetNameHex,
+} from '@src/utils/minting';
+import type { MintAsset, MintStandard, NftMetadata } from '@src/utils/minting';
+import {
+  TX_VALIDITY_SECONDS,
+  buildTransaction,
+  getBuildContext,
+  getWalletUtxos,
+  signAndSubmit,
+} from '@src/utils/txBuilder';
+import type { BuiltTransaction } from '@src/utils/txBuilder';
+
+type MintMode = MintStandard | 'burn';
+
+interface Draft {
+  label: string;
+  built: BuiltTransaction;
+  fee: string;
+  assets: { name: string; quantity: string }[];
+}
+
+const MODE_LABELS: Record<MintMode, string> = {
+  token: 'Token',
+  cip25: 'CIP-25 NFT',
+  cip68: 'CIP-68 NFT',
+  burn: 'Burn',
+};
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100';
+
+const formatAda = (lovelace: string) => (Number(lovelace) / 1_000_000).toFixed(6);
+
+const parseQuantity = (quantity: string) => {
+  const trimmed = quantity.trim();
+  if (!/^\d+$/.test(trimmed) || BigInt(trimmed) === BigInt(0)) throw new Error('Enter a whole, positive quantity');
+  return trimmed;
+};
+
+// One "key: value" property per line
+const parseExtraProperties = (text: string) =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => {
+        const separator = line.indexOf(':');
+        if (separator < 1) throw new Error(`Additional properties must be "key: value" lines, got "${line.trim()}"`);
+        return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+      }),
+  );
+
+const Mint = () => {
+  const { walletId } = useParams();
+  const navigate = useNavigate();
+  const walletsData = useStorage(walletsStorage);
+  const wallet = walletsData?.wallets?.find((w: Wallet) => w.id === walletId);
+  const policiesData = useStorage(mintingPoliciesStorage);
+  const policies = policiesData?.policies?.filter((p: MintingPolicy) => p.walletId === walletId) || [];
+
+  const [policyId, setPolicyId] = useState('');
+  const [policyName, setPolicyName] = useState('');
+  const [expirySlot, setExpirySlot] = useState('');
+  const [mode, setMode] = useState<MintMode>('token');
+  const [assetName, setAssetName] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [image, setImage] = useState('');
+  const [mediaType, setMediaType] = useState('');
+  const [description, setDescription] = useState('');
+  const [extra, setExtra] = useState('');
+  const [burnUnit, setBurnUnit] = useState('');
+  const [password, setPassword] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  if (!wallet) {
+    return <p className="text-center text-gray-500">Wallet not found.</p>;
+  }
+
+  if (wallet.type === 'SPOOFED') {
+    return (
+      <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+        Spoofed wallets cannot sign minting transactions.
+      </p>
+    );
+  }
+
+  const policy = policies.find(p => p.policyId === policyId) || null;
+  const burnable = policy ? wallet.assets.filter(asset => asset.policyId === policy.policyId) : [];
+
+  const handleCreatePolicy = async () => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const expiry = expirySlot.trim();
+      if (expiry && !/^\d+$/.test(expiry)) throw new Error('The expiry slot must be a whole number');
+
+      const created = await createNativePolicy(wallet.address, expiry ? Number(expiry) : null);
+      await mintingPoliciesStorage.addPolicy({
+        ...created,
+        walletId: wallet.id,
+        name: policyName.trim() || `Policy ${policies.length + 1}`,
+        expirySlot: expiry ? Number(expiry) : null,
+        createdAt: Date.now(),
+      });
+      setPolicyId(created.policyId);
+      setPolicyName('');
+      setExpirySlot('');
+    } catch (createError) {
+      console.error('Failed to create minting policy:', createError);
+      setError(createError instanceof Error ? createError.message : 'Failed to create policy');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRemovePolicy = async () => {
+    if (!policy) return;
+    await mintingPoliciesStorage.removePolicy(wallet.id, policy.policyId);
+    setPolicyId('');
+  };
+
+  const handleReview = async () => {
+    if (!policy) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      await CardanoLoader.load();
+      const Cardano = CardanoLoader.Cardano;
+
+      const context = await getBuildContext(wallet.id);
+      if (policy.expirySlot !== null && context.slot >= policy.expirySlot) {
+        throw new Error(`This policy expired at slot ${policy.expirySlot}, nothing can be minted or burned under it`);
+      }
+
+      const metadata: NftMetadata = {
+        name: assetName.trim(),
+        image: image.trim(),
+        mediaType: mediaType.trim(),
+        description: description.trim(),
+        extra: parseExtraProperties(extra),
+      };
+      if (mode === 'cip25' || mode === 'cip68') {
+        if (!metadata.image) throw new Error('Enter an image URL');
+      }
+
+      let assets: MintAsset[];
+      let label: string;
+      const options: Parameters<typeof configureMint>[2] = {
+        ttl: policy.expirySlot !== null ? Math.min(context.slot + TX_VALIDITY_SECONDS, policy.expirySlot) : undefined,
+      };
+      if (mode === 'burn') {
+        const asset = burnable.find(a => a.unit === burnUnit);
+        if (!asset) throw new Error('Choose a token to burn');
+        const amount = parseQuantity(quantity);
+        if (BigInt(amount) > BigInt(asset.quantity)) throw new Error(`The wallet only holds ${asset.quantity}`);
+        assets = [{ assetName: asset.assetName, quantity: `-${amount}` }];
+        label = 'Burn';
+      } else if (mode === 'cip68') {
+        const referenceName = toAssetNameHex(metadata.name, CIP68_REFERENCE_PREFIX);
+        assets = [
+          { assetName: toAssetNameHex(metadata.name, CIP68_NFT_PREFIX), quantity: '1' },
+          { assetName: referenceName, quantity: '1' },
+        ];
+        options.referenceOutput = {
+          address: wallet.address,
+          unit: policy.policyId + referenceName,
+          datum: buildCip68Datum(metadata),
+          parameters: context.parameters,
+        };
+        label = 'Mint CIP-68 NFT';
+      } else if (mode === 'cip25') {
+        assets = [{ assetName: toAssetNameHex(metadata.name), quantity: '1' }];
+        options.auxiliaryData = buildCip25Metadata(policy.policyId, metadata.name, metadata);
+        label = 'Mint CIP-25 NFT';
+      } else {
+        assets = [{ assetName: toAssetNameHex(metadata.name), quantity: parseQuantity(quantity) }];
+        label = 'Mint token';
+      }
+
+      const built = await buildTransaction(
+        context,
+        await getWalletUtxos(wallet),
+        wallet.address,
+        configureMint(policy.script, assets, options),
+      );
+
+      const fee = Cardano.FixedTransaction.from_hex(built.tx).body().fee().to_str();
+      setDraft({
+        label,
+        built,
+        fee,
+        assets: assets.map(asset => ({
+          name:
+            mode === 'burn'
+              ? burnable.find(a => a.unit === burnUnit)?.name || asset.assetName
+              : asset.assetName.startsWith(CIP68_REFERENCE_PREFIX)
+                ? `${metadata.name} (reference)`
+                : mode === 'cip68'
+                  ? `${metadata.name} (NFT)`
+                  : metadata.name,
+          quantity: asset.quantity,
+        })),
+      });
+    } catch (buildError) {
+      console.error('Failed to build minting transaction:', buildError);
+      setError(buildError instanceof Error ? buildError.message : 'Failed to build transaction');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!draft) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      await signAndSubmit(wallet, password, draft.built);
+      navigate(`/wallet/${wallet.id}/transactions`);
+    } catch (sendError) {
+      console.error('Failed to send minting transaction:', sendError);
+      setError(sendError instanceof Error ? sendError.message : 'Failed to send transaction');
+      setIsProcessing(false);
+    }
+  };
+
+  if (draft) {
+    return (
+      <div className="flex flex-col space-y-4">
+        <div className="space-y-1 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+          <p className="mb-2 font-medium">{draft.label}</p>
+          <div className="flex items-center justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Policy:</span>
+            <TruncateWithCopy text={policyId} maxChars={10} />
+          </div>
+          {draft.assets.map(asset => (
+            <div key={asset.name} className="flex justify-between">
+              <span className="truncate text-gray-600 dark:text-gray-400">{asset.name}:</span>
+              <span className="font-medium">{asset.quantity}</span>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Fee:</span>
+            <span className="font-medium">{formatAda(draft.fee)} ADA</span>
+          </div>
+        </div>
+
+        {wallet.hasPassword && (
+          <FloatingLabelInput
+            name="mintPassword"
+            label="Password"
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            error={!!error}
+          />
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="flex space-x-3">
+          <SecondaryButton onClick={() => setDraft(null)} disabled={isProcessing} className="flex-1">
+            Back
+          </SecondaryButton>
+          <PrimaryButton
+            onClick={handleSend}
+            disabled={isProcessing || (wallet.hasPassword && !password)}
+            className="flex-1">
+            {isProcessing ? 'Sending...' : 'Sign & Send'}
+          </PrimaryButton>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col space-y-4">
+      {/* Policy */}
+      <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+        <select
+          className={selectClassName}
+          value={policyId}
+          onChange={e => {
+            setPolicyId(e.target.value);
+            setBurnUnit('');
+          }}>
+          <option value="">New policy</option>
+          {policies.map(p => (
+            <option key={p.policyId} value={p.policyId}>
+              {`${p.name} (${p.policyId.slice(0, 8)}…)`}
+            </option>
+          ))}
+        </select>
+        {policy ? (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Policy id:</span>
+              <TruncateWithCopy text={policy.policyId} maxChars={10} />
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Expires:</span>
+              <span className="font-medium">{policy.expirySlot !== null ? `Slot ${policy.expirySlot}` : 'Never'}</span>
+            </div>
+            <button
+              onClick={handleRemovePolicy}
+              className="self-end text-xs text-red-600 hover:underline dark:text-red-400">
+              Forget policy
+            </button>
+          </>
+        ) : (
+          <>
+            <FloatingLabelInput
+              name="policyName"
+              label="Policy name (optional)"
+              value={policyName}
+              onChange={e => setPolicyName(e.target.value)}
+            />
+            <FloatingLabelInput
+              name="policyExpiry"
+              label="Expiry slot (optional)"
+              value={expirySlot}
+              onChange={e => setExpirySlot(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The policy only requires this wallet&apos;s payment key. With an expiry slot, nothing can be minted or
+              burned under it after that slot.
+            </p>
+            <PrimaryButton onClick={handleCreatePolicy} disabled={isProcessing}>
+              Create Policy
+            </PrimaryButton>
+          </>
+        )}
+      </div>
+
+      {/* Mint or burn */}
+      {policy && (
+        <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+          <div className="grid grid-cols-4 gap-1 rounded bg-gray-100 p-1 dark:bg-gray-800">
+            {(Object.keys(MODE_LABELS) as MintMode[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setMode(key)}
+                className={`rounded px-2 py-1 text-xs transition ${
+                  mode === key ? 'bg-blue-500 text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}>
+                {MODE_LABELS[key]}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'burn' ? (
+            burnable.length > 0 ? (
+              <select className={selectClassName} value={burnUnit} onChange={e => setBurnUnit(e.target.value)}>
+                <option value="">Choose a token</option>
+                {burnable.map(asset => (
+                  <option key={asset.unit} value={asset.unit}>
+                    {`${asset.name} (holds ${asset.quantity})`}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">The wallet holds no tokens under this policy.</p>
+            )
+          ) : (
+            <FloatingLabelInput
+              name="mintAssetName"
+              label={mode === 'token' ? 'Asset name' : 'NFT name'}
+              value={assetName}
+              onChange={e => setAssetName(e.target.value)}
+            />
+          )}
+
+          {(mode === 'token' || mode === 'burn') && (
+            <FloatingLabelInput
+              name="mintQuantity"
+              label="Quantity"
+              value={quantity}
+              onChange={e => setQuantity(e.target.value)}
+            />
+          )}
+
+          {(mode === 'cip25' || mode === 'cip68') && (
+            <>
+              <FloatingLabelInput
+                name="mintImage"
+                label="Image URL (ipfs:// or https://)"
+                value={image}
+                onChange={e => setImage(e.target.value)}
+              />
+              <FloatingLabelInput
+                name="mintMediaType"
+                label="Media type (optional)"
+                value={mediaType}
+                onChange={e => setMediaType(e.target.value)}
+              />
+              <FloatingLabelInput
+                name="mintDescription"
+                label="Description (optional)"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+              />
+              <textarea
+                className={selectClassName}
+                rows={3}
+                placeholder="Additional properties, one key: value per line"
+                value={extra}
+                onChange={e => setExtra(e.target.value)}
+              />
+              {mode === 'cip68' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  The reference token holding the metadata datum is sent to this wallet along with the NFT.
+                </p>
+              )}
+            </>
+          )}
+
+          <PrimaryButton
+            onClick={handleReview}
+            disabled={
+              isProcessing ||
+              (mode === 'burn'
+                ? !burnUnit || !quantity.trim()
+                : !assetName.trim() || (mode === 'token' && !quantity.trim()))
+            }>
+            Review
+          </PrimaryButton>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default Mint;
@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useStorage, walletsStorage } from '@extension/storage';
+import type { Wallet } from '@extension/shared';
+import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { CardanoLoader } from '@src/utils/cardano_loader';
+import {
+  buildMessageMetadata,
+  buildOutput,
+  buildTransaction,
+  getBuildContext,
+  getSelectedUtxos,
+  getWalletUtxos,
+  signAndSubmit,
+  toBaseUnits,
+} from '@src/utils/txBuilder';
+import type { BuiltTransaction } from '@src/utils/txBuilder';
+import type { AssetAmount } from '@src/utils/txPreview';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+interface TokenEntry {
+  unit: string;
+  amount: string;
+}
+
+interface Draft {
+  built: BuiltTransaction;
+  fee: string;
+  sentLovelace: string;
+  sentTokens: AssetAmount[];
+}
+
+const formatAda = (lovelace: string) => (Number(lovelace) / 1_000_000).toFixed(6);
+
+// Base units shown with the token's decimals, without going through floating point
+const formatTokenQuantity = (quantity: string, decimals = 0) => {
+  if (decimals === 0) return quantity;
+  const padded = quantity.padStart(decimals + 1, '0');
+  const fraction = padded.slice(-decimals).replace(/0+$/, '');
+  return fraction ? `${padded.slice(0, -decimals)}.${fraction}` : padded.slice(0, -decimals);
+};
+
+const selectClassName =
+  'min-w-0 flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100';
+
+const Send = () => {
+  const { walletId } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const walletsData = useStorage(walletsStorage);
+  const wallet = walletsData?.wallets?.find((w: Wallet) => w.id === walletId);
+
+  const [recipient, setRecipient] = useState('');
+  const [adaAmount, setAdaAmount] = useState('');
+  const [tokens, setTokens] = useState<TokenEntry[]>([]);
+  const [message, setMessage] = useState('');
+  const [password, setPassword] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  if (!wallet) {
+    return <p className="text-center text-gray-500">Wallet not found.</p>;
+  }
+
+  if (wallet.type === 'SPOOFED') {
+    return <p className="text-center text-sm text-gray-500 dark:text-gray-400">Spoofed wallets cannot send funds.</p>;
+  }
+
+  // Coin control: spend exactly the UTXOs selected in the UTXO list
+  const selectedRefs = wallet.selectedUtxos || [];
+  const useSelection = searchParams.get('inputs') === 'selected';
+
+  const assets = wallet.assets || [];
+  const availableAssets = assets.filter(asset => !tokens.some(token => token.unit === asset.unit));
+
+  // Any change to the form invalidates the built transaction
+  const edit = (update: () => void) => {
+    update();
+    setDraft(null);
+  };
+
+  const getAmounts = (): AssetAmount[] => {
+    const amounts: AssetAmount[] = [];
+    if (adaAmount.trim()) {
+      const lovelace = toBaseUnits(adaAmount, 6);
+      if (!lovelace) throw new Error('Enter a valid ADA amount');
+      amounts.push({ unit: 'lovelace', quantity: lovelace });
+    }
+    tokens.forEach(token => {
+      const asset = assets.find(a => a.unit === token.unit);
+      const quantity = toBaseUnits(token.amount, asset?.decimals || 0);
+      if (!asset || !quantity) throw new Error(`Enter a valid amount for ${asset?.name || 'each token'}`);
+      if (BigInt(quantity) > BigInt(asset.quantity)) throw new Error(`Not enough ${asset.name}`);
+      amounts.push({ unit: token.unit, quantity });
+    });
+    if (amounts.length === 0) throw new Error('Enter an amount to send');
+    return amounts;
+  };
+
+  const handleReview = async () => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      await CardanoLoader.load();
+      const Cardano = CardanoLoader.Cardano;
+
+      let recipientAddress;
+      try {
+        recipientAddress = Cardano.Address.from_bech32(recipient.trim());
+      } catch {
+        throw new Error('Enter a valid bech32 address');
+      }
+      if (recipientAddress.network_id() !== (wallet.network === 'Mainnet' ? 1 : 0)) {
+        throw new Error(`Recipient is not a ${wallet.network} address`);
+      }
+
+      const amounts = getAmounts();
+      const context = await getBuildContext(wallet.id);
+      const utxos = useSelection ? await getSelectedUtxos(wallet) : await getWalletUtxos(wallet);
+
+      const output = buildOutput(recipient.trim(), amounts, context.parameters);
+      const built = await buildTransaction(
+        context,
+        utxos,
+        wallet.address,
+        builder => {
+          builder.add_output(output);
+          if (message.trim()) builder.set_auxiliary_data(buildMessageMetadata(message.trim()));
+        },
+        useSelection,
+      );
+
+      const fee = Cardano.FixedTransaction.from_hex(built.tx).body().fee().to_str();
+      setDraft({
+        built,
+        fee,
+        sentLovelace: output.amount().coin().to_str(),
+        sentTokens: amounts.filter(amount => amount.unit !== 'lovelace'),
+      });
+    } catch (buildError) {
+      console.error('Failed to build transaction:', buildError);
+      setError(buildError instanceof Error ? buildError.message : 'Failed to build transaction');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!draft) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      await signAndSubmit(wallet, password, draft.built);
+      // The selected UTXOs are spent now
+      if (useSelection) await walletsStorage.updateWallet(wallet.id, { selectedUtxos: [] });
+      navigate(`/wallet/${wallet.id}/transactions`);
+    } catch (sendError) {
+      console.error('Failed to send transaction:', sendError);
+      setError(sendError instanceof Error ? sendError.message : 'Failed to send transaction');
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      {useSelection && (
+        <p className="rounded-lg bg-blue-50 p-3 text-xs text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+          Spends exactly the {selectedRefs.length} selected UTXO{selectedRefs.length === 1 ? '' : 's'}; whatever is left
+          returns to this wallet as change.
+        </p>
+      )}
+
+      <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+        <FloatingLabelInput
+          name="sendRecipient"
+          label="Recipient address"
+          value={recipient}
+          onChange={e => edit(() => setRecipient(e.target.value))}
+        />
+        <FloatingLabelInput
+          name="sendAda"
+          label="ADA amount"
+          value={adaAmount}
+          onChange={e => edit(() => setAdaAmount(e.target.value))}
+        />
+
+        {tokens.map((token, index) => {
+          const asset = assets.find(a => a.unit === token.unit);
+          return (
+            <div key={token.unit} className="flex items-center space-x-2">
+              <div className="min-w-0 flex-1">
+                <FloatingLabelInput
+                  name={`sendToken${index}`}
+                  label={`${asset?.name || 'Token'} (max ${formatTokenQuantity(asset?.quantity || '0', asset?.decimals)})`}
+                  value={token.amount}
+                  onChange={e =>
+                    edit(() =>
+                      setTokens(tokens.map(t => (t.unit === token.unit ? { ...t, amount: e.target.value } : t))),
+                    )
+                  }
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => edit(() => setTokens(tokens.filter(t => t.unit !== token.unit)))}
+                className="p-1"
+                title="Remove token">
+                <TrashIcon className="size-5 text-gray-400 hover:text-red-500" />
+              </button>
+            </div>
+          );
+        })}
+
+        {availableAssets.length > 0 && (
+          <select
+            className={selectClassName}
+            value=""
+            onChange={e => e.target.value && edit(() => setTokens([...tokens, { unit: e.target.value, amount: '' }]))}>
+            <option value="">Add a token...</option>
+            {availableAssets.map(asset => (
+              <option key={asset.unit} value={asset.unit}>
+                {asset.name || asset.unit.slice(56)}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <FloatingLabelInput
+          name="sendMessage"
+          label="Message (optional, CIP-20)"
+          value={message}
+          onChange={e => edit(() => setMessage(e.target.value))}
+        />
+      </div>
+
+      {draft && (
+        <div className="space-y-1 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Recipient gets:</span>
+            <span className="font-medium">{formatAda(draft.sentLovelace)} ADA</span>
+          </div>
+          {draft.sentTokens.map(({ unit, quantity }) => {
+            const asset = assets.find(a => a.unit === unit);
+            return (
+              <div key={unit} className="flex justify-between">
+                <span className="truncate text-gray-600 dark:text-gray-400">{asset?.name || unit.slice(56)}:</span>
+                <span className="ml-2 font-medium">{formatTokenQuantity(quantity, asset?.decimals)}</span>
+              </div>
+            );
+          })}
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Fee:</span>
+            <span className="font-medium">{formatAda(draft.fee)} ADA</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Inputs used:</span>
+            <span className="font-medium">{draft.built.inputs.length}</span>
+          </div>
+          {tokens.length > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              ADA is raised to the minimum the ledger requires for an output carrying tokens.
+            </p>
+          )}
+        </div>
+      )}
+
+      {draft && wallet.hasPassword && (
+        <FloatingLabelInput
+          name="sendPassword"
+          label="Password"
+          type="password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          error={!!error}
+        />
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {draft ? (
+        <div className="flex space-x-3">
+          <SecondaryButton onClick={() => setDraft(null)} disabled={isProcessing} className="flex-1">
+            Edit
+          </SecondaryButton>
+          <PrimaryButton
+            onClick={handleSend}
+            disabled={isProcessing || (wallet.hasPassword && !password)}
+            className="flex-1">
+            {isProcessing ? 'Sending...' : 'Sign & Send'}
+          </PrimaryButton>
+        </div>
+      ) : (
+        <PrimaryButton onClick={handleReview} disabled={isProcessing || !recipient}>
+          {isProcessing ? 'Building...' : 'Review'}
+        </PrimaryButton>
+      )}
+    </div>
+  );
+};
+
+export default Send;
@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useStorage, walletsStorage } from '@extension/storage';
+import type { UTXORecord } from '@extension/storage';
+import type { Wallet } from '@extension/shared';
+import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { CardanoLoader } from '@src/utils/cardano_loader';
+import {
+  buildOutput,
+  buildTransaction,
+  getBuildContext,
+  getWalletUtxos,
+  signAndSubmit,
+  toBaseUnits,
+} from '@src/utils/txBuilder';
+import type { BuiltTransaction } from '@src/utils/txBuilder';
+import type { AssetAmount } from '@src/utils/txPreview';
+
+interface Draft {
+  built: BuiltTransaction;
+  fee: string;
+  outputLovelace: string;
+  changeLovelace: string | null;
+}
+
+// Keeps the transaction well below the maximum size even when every output carries a token
+const MAX_OUTPUTS = 100;
+
+const formatAda = (lovelace: string) => (Number(lovelace) / 1_000_000).toFixed(6);
+
+const utxoKey = (utxo: UTXORecord) => `${utxo.tx_hash}:${utxo.output_index}`;
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100';
+
+// Turns one UTXO into a number of equal outputs at the wallet's own address
+const Split = () => {
+  const { walletId } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const walletsData = useStorage(walletsStorage);
+  const wallet = walletsData?.wallets?.find((w: Wallet) => w.id === walletId);
+
+  const [utxos, setUtxos] = useState<UTXORecord[]>([]);
+  const [sourceKey, setSourceKey] = useState(
+    searchParams.get('txHash') ? `${searchParams.get('txHash')}:${searchParams.get('outputIndex')}` : '',
+  );
+  const [count, setCount] = useState('');
+  const [adaAmount, setAdaAmount] = useState('');
+  const [tokenUnit, setTokenUnit] = useState('');
+  const [tokenAmount, setTokenAmount] = useState('');
+  const [password, setPassword] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!wallet) return;
+    getWalletUtxos(wallet)
+      .then(setUtxos)
+      .catch(err => console.error('Failed to load UTXOs:', err));
+  }, [wallet?.id]);
+
+  if (!wallet) {
+    return <p className="text-center text-gray-500">Wallet not found.</p>;
+  }
+
+  if (wallet.type === 'SPOOFED') {
+    return <p className="text-center text-sm text-gray-500 dark:text-gray-400">Spoofed wallets cannot split UTXOs.</p>;
+  }
+
+  const source = utxos.find(utxo => utxoKey(utxo) === sourceKey);
+  const sourceTokens = source?.amount.filter(a => a.unit !== 'lovelace') || [];
+  const assetInfo = (unit: string) => wallet.assets?.find(asset => asset.unit === unit);
+
+  // Any change to the form invalidates the built transaction
+  const edit = (update: () => void) => {
+    update();
+    setDraft(null);
+  };
+
+  const handleReview = async () => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      await CardanoLoader.load();
+      const Cardano = CardanoLoader.Cardano;
+
+      if (!source) throw new Error('Choose the UTXO to split');
+      const outputCount = Number(count);
+      if (!Number.isInteger(outputCount) || outputCount < 2 || outputCount > MAX_OUTPUTS) {
+        throw new Error(`Enter a number of outputs between 2 and ${MAX_OUTPUTS}`);
+      }
+      const lovelace = toBaseUnits(adaAmount, 6);
+      if (!lovelace) throw new Error('Enter a valid ADA amount per output');
+
+      const amounts: AssetAmount[] = [{ unit: 'lovelace', quantity: lovelace }];
+      if (tokenUnit) {
+        const quantity = toBaseUnits(tokenAmount, assetInfo(tokenUnit)?.decimals || 0);
+        if (!quantity) throw new Error('Enter a valid token amount per output');
+        amounts.push({ unit: tokenUnit, quantity });
+      }
+
+      const context = await getBuildContext(wallet.id);
+      const output = buildOutput(wallet.address, amounts, context.parameters);
+      const built = await buildTransaction(
+        context,
+        [source],
+        wallet.address,
+        builder => {
+          for (let i = 0; i < outputCount; i++) builder.add_output(output);
+        },
+        true,
+      );
+
+      const body = Cardano.FixedTransaction.from_hex(built.tx).body();
+      const outputs = body.outputs();
+      setDraft({
+        built,
+        fee: body.fee().to_str(),
+        outputLovelace: output.amount().coin().to_str(),
+        // Change comes after the split outputs, when anything is left over
+        changeLovelace:
+          outputs.len() > outputCount
+            ? outputs
+                .get(outputs.len() - 1)
+                .amount()
+                .coin()
+                .to_str()
+            : null,
+      });
+    } catch (buildError) {
+      console.error('Failed to build split:', buildError);
+      setError(buildError instanceof Error ? buildError.message : 'Failed to build transaction');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!draft) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      await signAndSubmit(wallet, password, draft.built);
+      navigate(`/wallet/${wallet.id}/transactions`);
+    } catch (sendError) {
+      console.error('Failed to send split:', sendError);
+      setError(sendError instanceof Error ? sendError.message : 'Failed to send transaction');
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Splits one UTXO into equal outputs at this wallet&apos;s address, for example to set up collateral-sized outputs
+        or to test dApps against a fragmented wallet. Whatever is left returns as change.
+      </p>
+
+      <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+        <select
+          className={selectClassName}
+          value={sourceKey}
+          onChange={e =>
+            edit(() => {
+              setSourceKey(e.target.value);
+              setTokenUnit('');
+            })
+          }>
+          <option value="">Choose a UTXO...</option>
+          {utxos.map(utxo => {
+            const tokenCount = utxo.amount.length - 1;
+            return (
+              <option key={utxoKey(utxo)} value={utxoKey(utxo)}>
+                {`${utxo.tx_hash.slice(0, 10)}…#${utxo.output_index} · ${formatAda(
+                  utxo.amount.find(a => a.unit === 'lovelace')?.quantity || '0',
+                )} ADA${tokenCount > 0 ? ` + ${tokenCount} asset${tokenCount > 1 ? 's' : ''}` : ''}`}
+              </option>
+            );
+          })}
+        </select>
+        <FloatingLabelInput
+          name="splitCount"
+          label="Number of outputs"
+          value={count}
+          onChange={e => edit(() => setCount(e.target.value))}
+        />
+        <FloatingLabelInput
+          name="splitAda"
+          label="ADA per output"
+          value={adaAmount}
+          onChange={e => edit(() => setAdaAmount(e.target.value))}
+        />
+        {sourceTokens.length > 0 && (
+          <select
+            className={selectClassName}
+            value={tokenUnit}
+            onChange={e => edit(() => setTokenUnit(e.target.value))}>
+            <option value="">No token</option>
+            {sourceTokens.map(token => (
+              <option key={token.unit} value={token.unit}>
+                {`${assetInfo(token.unit)?.name || token.unit.slice(56)} (holds ${token.quantity})`}
+              </option>
+            ))}
+          </select>
+        )}
+        {tokenUnit && (
+          <FloatingLabelInput
+            name="splitToken"
+            label="Token amount per output"
+            value={tokenAmount}
+            onChange={e => edit(() => setTokenAmount(e.target.value))}
+          />
+        )}
+      </div>
+
+      {draft && (
+        <div className="space-y-1 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Outputs:</span>
+            <span className="font-medium">
+              {count} × {formatAda(draft.outputLovelace)} ADA
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Change:</span>
+            <span className="font-medium">
+              {draft.changeLovelace ? `${formatAda(draft.changeLovelace)} ADA` : 'None'}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Fee:</span>
+            <span className="font-medium">{formatAda(draft.fee)} ADA</span>
+          </div>
+          {tokenUnit && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              ADA is raised to the minimum the ledger requires for an output carrying tokens.
+            </p>
+          )}
+        </div>
+      )}
+
+      {draft && wallet.hasPassword && (
+        <FloatingLabelInput
+          name="splitPassword"
+          label="Password"
+          type="password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          error={!!error}
+        />
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {draft ? (
+        <div className="flex space-x-3">
+          <SecondaryButton onClick={() => setDraft(null)} disabled={isProcessing} className="flex-1">
+            Edit
+          </SecondaryButton>
+          <PrimaryButton
+            onClick={handleSend}
+            disabled={isProcessing || (wallet.hasPassword && !password)}
+            className="flex-1">
+            {isProcessing ? 'Sending...' : 'Sign & Send'}
+          </PrimaryButton>
+        </div>
+      ) : (
+        <PrimaryButton onClick={handleReview} disabled={isProcessing || !source}>
+          {isProcessing ? 'Building...' : 'Review'}
+        </PrimaryButton>
+      )}
+    </div>
+  );
+};
+
+export default Split;
@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useStorage, walletsStorage } from '@extension/storage';
+import type { Wallet } from '@extension/shared';
+import { TruncateWithCopy } from '@extension/shared';
+import { PrimaryButton, SecondaryButton } from '@src/components/buttons';
+import FloatingLabelInput from '@src/components/FloatingLabelInput';
+import { CardanoLoader } from '@src/utils/cardano_loader';
+import { configureStaking, parsePoolId } from '@src/utils/staking';
+import type { AccountInfo, PoolInfo, StakingAction } from '@src/utils/staking';
+import { buildTransaction, getBuildContext, getWalletUtxos, signAndSubmit } from '@src/utils/txBuilder';
+import type { BuiltTransaction } from '@src/utils/txBuilder';
+
+interface Draft {
+  action: StakingAction;
+  built: BuiltTransaction;
+  fee: string;
+  deposit: string | null; // Paid on registration
+  refund: string | null; // Returned on deregistration
+  withdrawal: string | null;
+  pool: PoolInfo | null;
+}
+
+const ACTION_LABELS: Record<StakingAction, string> = {
+  register: 'Register stake key',
+  'register-delegate': 'Register and delegate',
+  delegate: 'Delegate',
+  withdraw: 'Withdraw rewards',
+  deregister: 'Deregister stake key',
+};
+
+const formatAda = (lovelace: string) => (Number(lovelace) / 1_000_000).toFixed(6);
+
+const poolLabel = (pool: PoolInfo) => (pool.ticker ? `[${pool.ticker}] ${pool.name || ''}`.trim() : pool.name);
+
+const Staking = () => {
+  const { walletId } = useParams();
+  const navigate = useNavigate();
+  const walletsData = useStorage(walletsStorage);
+  const wallet = walletsData?.wallets?.find((w: Wallet) => w.id === walletId);
+
+  const [account, setAccount] = useState<AccountInfo | null>(null);
+  const [pool, setPool] = useState<PoolInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [poolId, setPoolId] = useState('');
+  const [password, setPassword] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!wallet) return;
+    chrome.runtime.sendMessage({ type: 'GET_ACCOUNT_INFO', payload: { walletId: wallet.id } }, response => {
+      if (response?.success) {
+        setAccount(response.account);
+        setPool(response.pool);
+      } else {
+        setLoadError(response?.error || 'Failed to fetch account information');
+      }
+      setLoading(false);
+    });
+  }, [wallet?.id]);
+
+  if (!wallet) {
+    return <p className="text-center text-gray-500">Wallet not found.</p>;
+  }
+
+  const registered = !!account?.active;
+  const withdrawable = account?.withdrawable_amount || '0';
+  // Since Conway (protocol 10) the ledger refuses reward withdrawals from accounts without a DRep delegation
+  const needsVoteDelegation = withdrawable !== '0' && !account?.drep_id;
+
+  const handleReview = async (action: StakingAction) => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      await CardanoLoader.load();
+      const Cardano = CardanoLoader.Cardano;
+
+      let targetPool: PoolInfo | null = null;
+      if (action === 'register-delegate' || action === 'delegate') {
+        parsePoolId(poolId);
+        const response = await chrome.runtime.sendMessage({
+          type: 'GET_POOL_INFO',
+          payload: { walletId: wallet.id, poolId: poolId.trim() },
+        });
+        if (!response?.success) throw new Error(response?.error || 'Pool not found');
+        targetPool = response.pool;
+      }
+
+      const context = await getBuildContext(wallet.id);
+      const built = await buildTransaction(
+        context,
+        await getWalletUtxos(wallet),
+        wallet.address,
+        configureStaking(action, wallet.stakeAddress, poolId, withdrawable),
+      );
+
+      const fee = Cardano.FixedTransaction.from_hex(built.tx).body().fee().to_str();
+      const registers = action === 'register' || action === 'register-delegate';
+      setDraft({
+        action,
+        built,
+        fee,
+        deposit: registers ? context.parameters.key_deposit : null,
+        refund: action === 'deregister' ? context.parameters.key_deposit : null,
+        withdrawal: (action === 'withdraw' || action === 'deregister') && withdrawable !== '0' ? withdrawable : null,
+        pool: targetPool,
+      });
+    } catch (buildError) {
+      console.error('Failed to build staking transaction:', buildError);
+      setError(buildError instanceof Error ? buildError.message : 'Failed to build transaction');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!draft) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      await signAndSubmit(wallet, password, draft.built);
+      navigate(`/wallet/${wallet.id}/transactions`);
+    } catch (sendError) {
+      console.error('Failed to send staking transaction:', sendError);
+      setError(sendError instanceof Error ? sendError.message : 'Failed to send transaction');
+      setIsProcessing(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-center text-sm text-gray-500 dark:text-gray-400">Loading account...</p>;
+  }
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="space-y-2 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-600 dark:text-gray-400">Stake address:</span>
+          <TruncateWithCopy text={wallet.stakeAddress} maxChars={10} />
+        </div>
+        {loadError ? (
+          <p className="text-red-500">{loadError}</p>
+        ) : (
+          <>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Status:</span>
+              <span className={`font-medium ${registered ? 'text-green-600' : 'text-gray-500'}`}>
+                {registered ? 'Registered' : 'Not registered'}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Delegated to:</span>
+              {account?.pool_id ? (
+                <span className="text-right">
+                  {pool && poolLabel(pool) && <span className="block font-medium">{poolLabel(pool)}</span>}
+                  <TruncateWithCopy text={account.pool_id} maxChars={10} />
+                </span>
+              ) : (
+                <span className="font-medium text-gray-500">None</span>
+              )}
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Controlled stake:</span>
+              <span className="font-medium">{formatAda(account?.controlled_amount || '0')} ADA</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Withdrawable rewards:</span>
+              <span className="font-medium">{formatAda(withdrawable)} ADA</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      {wallet.type === 'SPOOFED' ? (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+          Spoofed wallets cannot sign staking transactions.
+        </p>
+      ) : draft ? (
+        <>
+          <div className="space-y-1 rounded-lg bg-white p-4 text-sm shadow dark:bg-gray-700">
+            <p className="mb-2 font-medium">{ACTION_LABELS[draft.action]}</p>
+            {draft.pool && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Pool:</span>
+                <span className="font-medium">{poolLabel(draft.pool) || draft.pool.pool_id.slice(0, 16) + '…'}</span>
+              </div>
+            )}
+            {draft.deposit && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Deposit:</span>
+                <span className="font-medium">{formatAda(draft.deposit)} ADA</span>
+              </div>
+            )}
+            {draft.refund && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Deposit refund:</span>
+                <span className="font-medium">{formatAda(draft.refund)} ADA</span>
+              </div>
+            )}
+            {draft.withdrawal && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Rewards withdrawn:</span>
+                <span className="font-medium">{formatAda(draft.withdrawal)} ADA</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Fee:</span>
+              <span className="font-medium">{formatAda(draft.fee)} ADA</span>
+            </div>
+          </div>
+
+          {wallet.hasPassword && (
+            <FloatingLabelInput
+              name="stakingPassword"
+              label="Password"
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              error={!!error}
+            />
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="flex space-x-3">
+            <SecondaryButton onClick={() => setDraft(null)} disabled={isProcessing} className="flex-1">
+              Back
+            </SecondaryButton>
+            <PrimaryButton
+              onClick={handleSend}
+              disabled={isProcessing || (wallet.hasPassword && !password)}
+              className="flex-1">
+              {isProcessing ? 'Sending...' : 'Sign & Send'}
+            </PrimaryButton>
+          </div>
+        </>
+      ) : (
+        !loadError && (
+          <>
+            <div className="flex flex-col space-y-3 rounded-lg bg-white p-4 shadow dark:bg-gray-700">
+              <FloatingLabelInput
+                name="stakingPool"
+                label="Pool id (pool1... or hex)"
+                value={poolId}
+                onChange={e => setPoolId(e.target.value)}
+              />
+              {registered ? (
+                <PrimaryButton onClick={() => handleReview('delegate')} disabled={isProcessing || !poolId.trim()}>
+                  {account?.pool_id ? 'Re-delegate' : 'Delegate'}
+                </PrimaryButton>
+              ) : (
+                <PrimaryButton
+                  onClick={() => handleReview('register-delegate')}
+                  disabled={isProcessing || !poolId.trim()}>
+                  Register & Delegate
+                </PrimaryButton>
+              )}
+            </div>
+
+            <div className="flex space-x-3">
+              {registered ? (
+                <>
+                  <SecondaryButton
+                    onClick={() => handleReview('withdraw')}
+                    disabled={isProcessing || withdrawable === '0' || needsVoteDelegation}
+                    className="flex-1">
+                    Withdraw Rewards
+                  </SecondaryButton>
+                  <SecondaryButton
+                    onClick={() => handleReview('deregister')}
+                    disabled={isProcessing || needsVoteDelegation}
+                    className="flex-1">
+                    Deregister
+                  </SecondaryButton>
+                </>
+              ) : (
+                <SecondaryButton onClick={() => handleReview('register')} disabled={isProcessing} className="flex-1">
+                  Register Only
+                </SecondaryButton>
+              )}
+            </div>
+
+            {registered && needsVoteDelegation && (
+              <p className="text-sm text-amber-600 dark:text-amber-400">
+                Rewards can only be withdrawn once the stake key delegates its vote.{' '}
+                <Link to={`/wallet/${wallet.id}/governance`} className="underline hover:text-amber-700">
+                  Choose a DRep on the Governance page
+                </Link>
+                .
+              </p>
+            )}
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Status and rewards are read from the chain, so changes show up here once the transaction is confirmed.
+            </p>
+          </>
+        )
+      )}
+    </div>
+  );
+};
+
+export default Staking;
@@ -272,7 +272,11 @@ const Transactions: React.FC<TransactionsProps> = ({ wallet, transactions }) =>
                         <div className="flex items-start justify-between">
                           <div className="flex flex-col">
                             <div className="text-xs text-gray-500 dark:text-gray-400">{formatDate(tx.block_time)}</div>
-                            <div className="text-xs text-gray-400 dark:text-gray-500">Block #{tx.block_height}</div>
+                            {tx.pending ? (
+                              <div className="text-xs font-medium text-amber-500">Pending</div>
+                            ) : (
+                              <div className="text-xs text-gray-400 dark:text-gray-500">Block #{tx.block_height}</div>
+                            )}
                           </div>
                           <div className="text-right">
                             <div className="font-mono text-xs text-gray-400 dark:text-gray-500">
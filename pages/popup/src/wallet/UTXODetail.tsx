@@ -1,15 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
-import { useStorage, walletsStorage } from '@extension/storage';
+import { blueprintsStorage, useStorage, walletsStorage } from '@extension/storage';
 import type { Wallet } from '@extension/shared';
 import type { UTXORecord, TransactionRecord } from '@extension/storage';
 import { TruncateWithCopy } from '@extension/shared';
+import DatumTree from '@src/components/DatumTree';
+import { CardanoLoader } from '@src/utils/cardano_loader';
+import { datumToJson, decodeDatum, findDatumSchema } from '@src/utils/datum';
+import type { DatumNode } from '@src/utils/datum';
 
 const UTXODetail: React.FC = () => {
   const { walletId, txHash, outputIndex } = useParams<{ walletId: string; txHash: string; outputIndex: string }>();
   const walletsData = useStorage(walletsStorage);
   const wallets = walletsData?.wallets || [];
   const wallet = wallets.find((w: Wallet) => w.id === walletId);
+  const blueprintsData = useStorage(blueprintsStorage);
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -17,6 +22,9 @@ const UTXODetail: React.FC = () => {
   const [creatingTransaction, setCreatingTransaction] = useState<TransactionRecord | null>(null);
   const [spendingTransaction, setSpendingTransaction] = useState<TransactionRecord | null>(null);
   const [assetDetails, setAssetDetails] = useState<{ [unit: string]: any }>({});
+  const [datum, setDatum] = useState<{ hex: string; tree: DatumNode; source: string | null } | null>(null);
+  const [datumError, setDatumError] = useState<string | null>(null);
+  const [datumCopied, setDatumCopied] = useState(false);
 
   const BLOCKFROST_PROJECT_ID = 'preprodUCRP6WTpWi0DXWZF4eduE2VZPod9CjAJ'; // Preprod Blockfrost project ID
 
@@ -137,6 +145,54 @@ const UTXODetail: React.FC = () => {
     fetchAssetDetails();
   }, [utxo]);
 
+  // Decode the inline datum, or the datum behind the data hash, labelled by a matching blueprint if any
+  useEffect(() => {
+    // Nothing from a previously shown UTXO stays on screen while this one decodes, or when it fails to
+    setDatum(null);
+    setDatumError(null);
+    if (!utxo || !wallet || (!utxo.inline_datum && !utxo.data_hash)) return;
+
+    let cancelled = false;
+    const decode = async () => {
+      let hex = utxo.inline_datum || null;
+      if (!hex) {
+        const response = await chrome.runtime.sendMessage({
+          type: 'GET_DATUM',
+          payload: { walletId: wallet.id, datumHash: utxo.data_hash },
+        });
+        if (!response?.success) throw new Error(response?.error || 'Failed to fetch datum');
+        if (!response.datum) throw new Error('Blockfrost does not know the datum behind this hash');
+        hex = response.datum as string;
+      }
+
+      await CardanoLoader.load();
+      const datumSchema = findDatumSchema(blueprintsData?.blueprints || [], utxo.address);
+      const tree = decodeDatum(hex, wallet.address, datumSchema);
+      if (!cancelled) setDatum({ hex, tree, source: datumSchema?.source || null });
+    };
+
+    decode().catch(err => {
+      console.error('Failed to decode datum:', err);
+      if (cancelled) return;
+      setDatum(null);
+      setDatumError(err instanceof Error ? err.message : 'Failed to decode datum');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [utxo, wallet?.id, wallet?.address, blueprintsData?.blueprints]);
+
+  const copyDatumJson = async () => {
+    if (!datum) return;
+    try {
+      await navigator.clipboard.writeText(datumToJson(datum.hex));
+      setDatumCopied(true);
+      setTimeout(() => setDatumCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy datum:', err);
+    }
+  };
+
   const formatAda = (lovelace: string) => {
     return (parseInt(lovelace) / 1000000).toFixed(6) + ' ADA';
   };
@@ -166,6 +222,11 @@ const UTXODetail: React.FC = () => {
     );
   }
 
+  const selectedCount = wallet.selectedUtxos?.length || 0;
+  const isSelected = !!wallet.selectedUtxos?.some(
+    ref => ref.txHash === utxo.tx_hash && ref.outputIndex === utxo.output_index,
+  );
+
   const adaAmount = utxo.amount.find(a => a.unit === 'lovelace');
   const otherAssets = utxo.amount.filter(a => a.unit !== 'lovelace');
 
@@ -192,6 +253,22 @@ const UTXODetail: React.FC = () => {
       </div>
 
       <div className="space-y-4">
+        {/* Coin Control */}
+        {!utxo.isSpent && !utxo.isExternal && (
+          <div className="flex items-center justify-between rounded-lg bg-gray-50 p-4 text-sm dark:bg-gray-800">
+            <span className="text-gray-600 dark:text-gray-400">
+              {selectedCount} UTXO{selectedCount === 1 ? '' : 's'} selected for coin control
+            </span>
+            <button
+              onClick={() =>
+                walletsStorage.toggleSelectedUtxo(wallet.id, { txHash: utxo.tx_hash, outputIndex: utxo.output_index })
+              }
+              className="text-blue-600 hover:underline dark:text-blue-400">
+              {isSelected ? 'Deselect' : 'Select'}
+            </button>
+          </div>
+        )}
+
         {/* Basic Information */}
         <div className="rounded-lg bg-gray-50 p-4 dark:bg-gray-800">
           <h3 className="mb-3 text-base font-bold text-gray-900 dark:text-white">Basic Information</h3>
@@ -316,6 +393,29 @@ const UTXODetail: React.FC = () => {
                   <TruncateWithCopy text={utxo.inline_datum} maxChars={10} />
                 </div>
               )}
+              {(datum || datumError) && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <strong className="text-gray-600 dark:text-gray-400">Decoded Datum:</strong>
+                    {datum && (
+                      <button
+                        onClick={copyDatumJson}
+                        className="text-xs text-blue-600 hover:underline dark:text-blue-400">
+                        {datumCopied ? 'Copied!' : 'Copy JSON'}
+                      </button>
+                    )}
+                  </div>
+                  {datum?.source && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Labelled from {datum.source}</p>
+                  )}
+                  {datum && (
+                    <div className="overflow-x-auto rounded bg-white p-2 dark:bg-gray-700">
+                      <DatumTree root={datum.tree} />
+                    </div>
+                  )}
+                  {datumError && <p className="text-xs text-red-500">{datumError}</p>}
+                </div>
+              )}
               {utxo.reference_script_hash && (
                 <div className="flex items-center justify-between">
                   <strong className="text-gray-600 dark:text-gray-400">Reference Script Hash:</strong>
@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import type { Wallet } from '@extension/shared';
 import type { UTXORecord, TransactionRecord } from '@extension/storage';
+import { walletsStorage } from '@extension/storage';
 import { TruncateWithCopy } from '@extension/shared';
+import { isSpendableUtxo } from '@src/utils/txBuilder';
 
 interface UTXOsViewProps {
   wallet: Wallet;
@@ -16,6 +18,7 @@ const UTXOsView: React.FC<UTXOsViewProps> = ({ wallet, utxos, transactions }) =>
   const [searchQuery, setSearchQuery] = useState('');
   const [itemsToShow, setItemsToShow] = useState(50);
   const itemsPerLoad = 50;
+  const navigate = useNavigate();
 
   const formatAda = (lovelace: string) => {
     return (parseInt(lovelace) / 1000000).toFixed(6) + ' ADA';
@@ -91,6 +94,30 @@ const UTXOsView: React.FC<UTXOsViewProps> = ({ wallet, utxos, transactions }) =>
     setExpandedUtxo(expandedUtxo === utxoKey ? null : utxoKey);
   };
 
+  const isCollateral = (utxo: UTXORecord) =>
+    wallet.collateral?.txHash === utxo.tx_hash && wallet.collateral?.outputIndex === utxo.output_index;
+
+  // Only unspent pure-ADA outputs the wallet can sign for can serve as collateral
+  const canBeCollateral = (utxo: UTXORecord) =>
+    isSpendableUtxo(wallet, utxo) && utxo.amount.every(asset => asset.unit === 'lovelace');
+
+  const toggleCollateral = async (utxo: UTXORecord) => {
+    await walletsStorage.updateWallet(wallet.id, {
+      collateral: isCollateral(utxo) ? null : { txHash: utxo.tx_hash, outputIndex: utxo.output_index },
+    });
+  };
+
+  // Coin control: unspent outputs of the wallet itself can be picked as exact inputs
+  const selectedRefs = wallet.selectedUtxos || [];
+  const isSelected = (utxo: UTXORecord) =>
+    selectedRefs.some(ref => ref.txHash === utxo.tx_hash && ref.outputIndex === utxo.output_index);
+  const canBeSelected = (utxo: UTXORecord) => !utxo.isSpent && !utxo.isExternal;
+  // Spoofed wallets are read-only: UTXOs can still be pinned for getUtxos, but nothing is spent from them here
+  const canSign = wallet.type !== 'SPOOFED';
+  const selectedLovelace = utxos
+    .filter(isSelected)
+    .reduce((sum, utxo) => sum + parseInt(utxo.amount.find(a => a.unit === 'lovelace')?.quantity || '0'), 0);
+
   const filteredUtxos = utxos.filter(utxo => {
     // First apply the spent/unspent/external filter
     let passesSpentFilter = true;
@@ -205,6 +232,61 @@ const UTXOsView: React.FC<UTXOsViewProps> = ({ wallet, utxos, transactions }) =>
         />
       </div>
 
+      {/* UTXO Tools */}
+      {canSign && (
+        <div className="mb-2 flex justify-end gap-3 text-xs">
+          <Link to={`/wallet/${wallet.id}/split`} className="text-blue-600 hover:underline dark:text-blue-400">
+            Split a UTXO
+          </Link>
+          <Link to={`/wallet/${wallet.id}/consolidate`} className="text-blue-600 hover:underline dark:text-blue-400">
+            Consolidate
+          </Link>
+          <Link to={`/wallet/${wallet.id}/contracts`} className="text-blue-600 hover:underline dark:text-blue-400">
+            Contracts
+          </Link>
+        </div>
+      )}
+
+      {/* Coin Control */}
+      {(selectedRefs.length > 0 || wallet.pinnedUtxosOnly) && (
+        <div className="mb-4 space-y-2 rounded-lg border border-blue-200 bg-blue-50 p-3 text-xs dark:border-blue-800 dark:bg-blue-900/30">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-blue-800 dark:text-blue-200">
+              {selectedRefs.length} selected · {formatAda(selectedLovelace.toString())}
+            </span>
+            <button
+              onClick={() => walletsStorage.updateWallet(wallet.id, { selectedUtxos: [] })}
+              className="text-blue-600 hover:underline dark:text-blue-400">
+              Clear
+            </button>
+          </div>
+          {canSign && (
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => navigate(`/wallet/${wallet.id}/send?inputs=selected`)}
+                disabled={selectedRefs.length === 0}
+                className="rounded bg-blue-500 px-2 py-1 text-white transition hover:bg-blue-600 disabled:opacity-50">
+                Send from selection
+              </button>
+              <button
+                onClick={() => navigate(`/wallet/${wallet.id}/consolidate?inputs=selected`)}
+                disabled={selectedRefs.length === 0}
+                className="rounded bg-blue-500 px-2 py-1 text-white transition hover:bg-blue-600 disabled:opacity-50">
+                Consolidate
+              </button>
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={!!wallet.pinnedUtxosOnly}
+              onChange={e => walletsStorage.updateWallet(wallet.id, { pinnedUtxosOnly: e.target.checked })}
+            />
+            Pinned UTXOs only: dApps calling getUtxos only see the selection
+          </label>
+        </div>
+      )}
+
       {/* Filter Tabs */}
       <div className="mb-4 grid grid-cols-4 gap-1 rounded bg-gray-100 p-1 dark:bg-gray-800">
         <button
@@ -273,6 +355,21 @@ const UTXOsView: React.FC<UTXOsViewProps> = ({ wallet, utxos, transactions }) =>
                         className="cursor-pointer p-3 hover:bg-gray-50 dark:hover:bg-gray-800"
                         onClick={() => toggleExpanded(utxoKey)}>
                         <div className="flex items-start justify-between">
+                          {canBeSelected(utxo) && (
+                            <input
+                              type="checkbox"
+                              className="mr-3 mt-1 size-4"
+                              checked={isSelected(utxo)}
+                              onClick={e => e.stopPropagation()}
+                              onChange={() =>
+                                walletsStorage.toggleSelectedUtxo(wallet.id, {
+                                  txHash: utxo.tx_hash,
+                                  outputIndex: utxo.output_index,
+                                })
+                              }
+                              title={isSelected(utxo) ? 'Deselect' : 'Select for coin control'}
+                            />
+                          )}
                           <div className="flex-1">
                             <div className="flex items-center gap-2">
                               <div
@@ -288,6 +385,11 @@ const UTXOsView: React.FC<UTXOsViewProps> = ({ wallet, utxos, transactions }) =>
                                   External
                                 </div>
                               )}
+                              {isCollateral(utxo) && (
+                                <div className="rounded bg-purple-100 px-2 py-0.5 text-xs text-purple-800 dark:bg-purple-900 dark:text-purple-200">
+                                  Collateral
+                                </div>
+                              )}
                               {otherAssets.length > 0 && (
                                 <div className="rounded bg-blue-100 px-2 py-0.5 text-xs text-blue-800 dark:bg-blue-900 dark:text-blue-200">
                                   +{otherAssets.length} asset{otherAssets.length > 1 ? 's' : ''}
@@ -436,6 +538,20 @@ const UTXOsView: React.FC<UTXOsViewProps> = ({ wallet, utxos, transactions }) =>
                                 className="text-xs text-blue-600 hover:underline dark:text-blue-400">
                                 View Details
                               </Link>
+                              {canSign && isSpendableUtxo(wallet, utxo) && !isCollateral(utxo) && (
+                                <Link
+                                  to={`/wallet/${wallet.id}/split?txHash=${utxo.tx_hash}&outputIndex=${utxo.output_index}`}
+                                  className="text-xs text-blue-600 hover:underline dark:text-blue-400">
+                                  Split
+                                </Link>
+                              )}
+                              {(canBeCollateral(utxo) || isCollateral(utxo)) && (
+                                <button
+                                  onClick={() => toggleCollateral(utxo)}
+                                  className="text-xs text-purple-600 hover:underline dark:text-purple-400">
+                                  {isCollateral(utxo) ? 'Unmark Collateral' : 'Mark as Collateral'}
+                                </button>
+                              )}
                               {utxo.isSpent && utxo.spentInTx && (
                                 <span className="text-xs text-gray-500">💸 Spent in TX</span>
                               )}
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the popup's pure helpers; the extension build config stays out of it
+export default defineConfig({
+  resolve: {
+    // The browser build of the serialization library needs a bundler to load its WASM, Node loads it natively
+    alias: { '@emurgo/cardano-serialization-lib-browser': '@emurgo/cardano-serialization-lib-nodejs' },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});